@@ -7,12 +7,15 @@ import { TimeOffAdmin } from "@/components/time-off/TimeOffAdmin";
 import { Settings } from "@/pages/Settings";
 import { UserManagement } from "@/pages/admin/UserManagement";
 import { ScheduleManagement } from "@/pages/admin/ScheduleManagement";
+import { SwapApprovals } from "@/pages/admin/SwapApprovals";
 import AnalyticsPage from "@/pages/AnalyticsPage";
 import { ServerHealth } from "@/pages/ServerHealth";
 import { APITester } from "@/pages/APITester"; // Added import
 import Chat from "@/pages/chat";
-import { AlertCircle, Download } from "lucide-react";
-import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle, Download, Lock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { BreadcrumbNavigation } from "@/components/layout/BreadcrumbNavigation";
 import { Sidebar } from "@/components/layout/Sidebar";
@@ -25,6 +28,9 @@ import React, { useEffect, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationsList } from "@/components/ui/notification-toast";
+import { useUser, hasRole } from "@/hooks/use-user";
+import { useLiveSync } from "@/hooks/use-live-sync";
+import type { UserRole } from "@db/schema";
 
 interface ErrorBoundaryProps {
   children: React.ReactNode;
@@ -174,8 +180,104 @@ function InstallPWA() {
   );
 }
 
+// Sign-in form shown in place of a guarded page
+function SignIn() {
+  const { login } = useUser();
+  const { toast } = useToast();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await login({ username, password });
+      if (!result.ok) {
+        toast({
+          title: "Sign in failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-center justify-center">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password}>
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Route guard: asks for sign-in, then checks the session user's role.
+// The server enforces the same roles; this only keeps people off pages
+// whose actions would be refused.
+function RequireRole({ role, children }: { role: UserRole; children: React.ReactNode }) {
+  const { user, isLoading } = useUser();
+
+  if (isLoading) return null;
+  if (!user) return <SignIn />;
+
+  if (!hasRole(user, role)) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] w-full flex items-center justify-center">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <Lock className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Access Denied</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              This page requires the {role} role.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
 function App() {
   const { users } = useSyncUsers();
+  const { user, isLoading: isLoadingUser } = useUser();
+
+  // One websocket for the whole app keeps cached queries fresh
+  useLiveSync(isLoadingUser ? undefined : user?.id ?? null);
 
   React.useEffect(() => {
     if (users.length > 0) {
@@ -203,15 +305,34 @@ function App() {
               <Switch>
                 <Route path="/" component={Dashboard} />
                 <Route path="/provider/:id" component={PersonalDashboard} />
-                <Route path="/swap-requests" component={SwapRequestsDashboard} />
-                <Route path="/time-off" component={TimeOffRequests} />
-                <Route path="/admin/time-off" component={TimeOffAdmin} />
-                <Route path="/preferences" component={Settings} />
-                <Route path="/admin/users" component={UserManagement} />
-                <Route path="/admin/schedule" component={ScheduleManagement} />
+                <Route path="/swap-requests">
+                  <RequireRole role="provider"><SwapRequestsDashboard /></RequireRole>
+                </Route>
+                <Route path="/time-off">
+                  <RequireRole role="provider"><TimeOffRequests /></RequireRole>
+                </Route>
+                <Route path="/admin/time-off">
+                  <RequireRole role="scheduler"><TimeOffAdmin /></RequireRole>
+                </Route>
+                <Route path="/preferences">
+                  <RequireRole role="provider"><Settings /></RequireRole>
+                </Route>
+                <Route path="/admin/users">
+                  <RequireRole role="admin"><UserManagement /></RequireRole>
+                </Route>
+                <Route path="/admin/schedule">
+                  <RequireRole role="scheduler"><ScheduleManagement /></RequireRole>
+                </Route>
+                <Route path="/admin/swap-approvals">
+                  <RequireRole role="admin"><SwapApprovals /></RequireRole>
+                </Route>
                 <Route path="/analytics" component={AnalyticsPage} />
-                <Route path="/server-health" component={ServerHealth} />
-                <Route path="/api-tester" component={APITester} />
+                <Route path="/server-health">
+                  <RequireRole role="admin"><ServerHealth /></RequireRole>
+                </Route>
+                <Route path="/api-tester">
+                  <RequireRole role="admin"><APITester /></RequireRole>
+                </Route>
                 <Route component={NotFound} />
               </Switch>
             </main>
@@ -25,6 +25,7 @@ const routeMap: Record<string, { title: string; parent?: string; tooltip?: strin
   "/admin/time-off": { title: "Time Off Admin", parent: "/admin", tooltip: "Review and manage time-off requests" },
   "/admin/users": { title: "User Management", parent: "/admin", tooltip: "Manage healthcare providers and their roles" },
   "/admin/schedule": { title: "Schedule Management", parent: "/admin", tooltip: "Manage calendar data and scheduling rules" },
+  "/admin/swap-approvals": { title: "Swap Approvals", parent: "/admin", tooltip: "Sign off on swaps held by approval rules" },
   "/preferences": { title: "Preferences", parent: "/", tooltip: "Set your scheduling preferences and notifications" },
 };
 
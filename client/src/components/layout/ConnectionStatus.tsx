@@ -0,0 +1,48 @@
+import { cn } from "@/lib/utils";
+import { useLiveSyncStatus } from "@/hooks/use-live-sync";
+import type { LiveSyncStatus } from "@/lib/live-sync";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+const STATUS_DISPLAY: Record<LiveSyncStatus, { label: string; tooltip: string; dot: string }> = {
+  connected: {
+    label: "Live",
+    tooltip: "Changes from other users appear as they happen",
+    dot: "bg-green-500",
+  },
+  connecting: {
+    label: "Connecting",
+    tooltip: "Connecting for live updates",
+    dot: "bg-yellow-500 animate-pulse",
+  },
+  disconnected: {
+    label: "Offline",
+    tooltip: "Live updates are unavailable; refreshing every few seconds instead",
+    dot: "bg-red-500",
+  },
+};
+
+export function ConnectionStatus() {
+  const status = useLiveSyncStatus();
+  const display = STATUS_DISPLAY[status];
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-2 px-4 py-1 text-xs text-muted-foreground">
+            <span className={cn("h-2 w-2 rounded-full", display.dot)} />
+            {display.label}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <p>{display.tooltip}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
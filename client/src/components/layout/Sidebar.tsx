@@ -37,6 +37,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { ConnectionStatus } from "@/components/layout/ConnectionStatus";
 
 interface NavItemProps {
   href: string;
@@ -126,6 +127,12 @@ export function Sidebar() {
         label: "Swap Requests",
         tooltip: "Review and manage all shift swap requests",
       },
+      {
+        href: "/admin/swap-approvals",
+        icon: <ShieldCheck className="h-4 w-4" />,
+        label: "Swap Approvals",
+        tooltip: "Sign off on swaps held by approval rules",
+      },
       {
         href: "/admin/time-off",
         icon: <Clock className="h-4 w-4" />,
@@ -245,6 +252,7 @@ export function Sidebar() {
       </div>
 
       <div className="mt-auto px-2 py-2">
+        <ConnectionStatus />
         <NavItem
           href="/preferences"
           icon={<Settings className="h-4 w-4" />}
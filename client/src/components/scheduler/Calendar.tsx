@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useMemo } from "react";
+import { useState, useRef, useMemo } from "react";
 import { Calendar as MiniCalendar } from "@/components/ui/calendar";
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight } from "lucide-react";
 import { getShiftDuration, detectShiftConflicts } from "@/lib/utils";
@@ -7,6 +7,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
 import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
 import { format, differenceInDays, addDays } from "date-fns";
 import type { Shift, User } from "@/lib/types";
@@ -26,7 +27,7 @@ interface SwapRequest {
   shiftId: number;
   requestorId: number;
   recipientId: number;
-  status: 'pending' | 'accepted' | 'rejected';
+  status: 'pending' | 'awaiting_approval' | 'accepted' | 'rejected' | 'cancelled' | 'expired';
   shift: Shift;
 }
 
@@ -76,6 +77,7 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
   const queryClient = useQueryClient();
 
   const calendarRef = useRef<FullCalendar>(null);
+  const pollingFallback = usePollingFallback();
 
   // Update query configurations with proper types
   const { data: users = [] } = useQuery<User[], Error>({
@@ -85,7 +87,7 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
   const { data: shifts = [], error: shiftsError } = useQuery<Shift[], Error>({
     queryKey: ["/api/shifts"],
     staleTime: 0,
-    refetchInterval: 5000,
+    refetchInterval: pollingFallback,
     retry: 3,
     onSettled: (data, error) => {
       console.log('Shifts query settled:', { data, error });
@@ -103,7 +105,7 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
   const { data: swapRequests = [] } = useQuery<SwapRequest[], Error>({
     queryKey: ["/api/swap-requests"],
     staleTime: 0,
-    refetchInterval: 5000,
+    refetchInterval: pollingFallback,
     retry: 3,
     onSettled: (data, error) => {
       if (error) {
@@ -176,8 +178,6 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
         exact: false
       });
 
-      window.dispatchEvent(new Event('forceCalendarRefresh'));
-
       toast({
         title: "Success",
         description: "Shift deleted successfully",
@@ -192,58 +192,6 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
     },
   });
 
-  useEffect(() => {
-    const handleShiftUpdate = async () => {
-      console.log('Forcing calendar refresh due to shift update');
-
-      // Cancel any pending queries first
-      await queryClient.cancelQueries({ queryKey: ["/api/shifts"] });
-
-      // Force immediate cache clear and refetch
-      queryClient.removeQueries({ queryKey: ["/api/shifts"] });
-      queryClient.setQueryData(["/api/shifts"], []);
-
-      await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ["/api/shifts"] }),
-        queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] })
-      ]);
-
-      if (calendarRef.current) {
-        const api = calendarRef.current.getApi();
-        console.log('Refreshing FullCalendar events');
-        api.refetchEvents();
-      }
-    };
-
-    // Listen for calendar refresh events
-    window.addEventListener('forceCalendarRefresh', handleShiftUpdate);
-    window.addEventListener('shiftChange', handleShiftUpdate); //Retained from original
-
-
-    return () => {
-      window.removeEventListener('forceCalendarRefresh', handleShiftUpdate);
-      window.removeEventListener('shiftChange', handleShiftUpdate); //Retained from original
-    };
-  }, [queryClient]);
-
-  useEffect(() => {
-    const handleSwapUpdate = async () => {
-      console.log('Forcing calendar refresh due to swap update');
-      await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ["/api/shifts"] }),
-        queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] })
-      ]);
-
-      if (calendarRef.current) {
-        const api = calendarRef.current.getApi();
-        api.refetchEvents();
-      }
-    };
-
-    window.addEventListener('swapRequestUpdate', handleSwapUpdate);
-    return () => window.removeEventListener('swapRequestUpdate', handleSwapUpdate);
-  }, [queryClient]);
-
   const calendarEvents = useMemo(() => {
     console.log('Recalculating calendar events:', { shifts, swapRequests });
 
@@ -544,6 +492,9 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
             eventDrop={handleEventDrop}
             eventResize={handleEventResize}
             eventClick={handleEventClick}
+            eventClassNames={(eventInfo) =>
+              eventInfo.event.extendedProps.shift?.status === 'draft' ? ['opacity-60', 'border-dashed'] : []
+            }
             eventContent={(eventInfo) => {
               const shift = eventInfo.event.extendedProps.shift;
               return (
@@ -552,6 +503,9 @@ export function Calendar({ shifts: initialShifts = [] }: { shifts?: Shift[] }) {
                   {shift?.status === 'swapped' && (
                     <span className="ml-1 text-xs text-blue-500">(Swapped)</span>
                   )}
+                  {shift?.status === 'draft' && (
+                    <span className="ml-1 text-xs opacity-80">(Draft)</span>
+                  )}
                 </div>
               );
             }}
@@ -23,7 +23,9 @@ import { Loader2, Calendar, AlertTriangle } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import type { Shift } from "@/lib/types";
 
+// A stored conflict as listed by /api/conflicts
 interface ConflictingShift {
+  id: number;
   type: 'overlap' | 'consecutive_shifts' | 'overtime' | 'understaffed';
   shiftId: number;
   strategy?: 'auto_reassign' | 'notify_admin' | 'suggest_swap' | 'enforce_rule';
@@ -67,6 +69,28 @@ export function ConflictResolutionWizard({
     },
   });
 
+  const batchResolveMutation = useMutation({
+    mutationFn: async (strategy: string) => {
+      const response = await fetch('/api/conflicts/batch-resolve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          conflictIds: conflicts.map(conflict => conflict.id),
+          strategy,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to resolve conflicts');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conflicts'] });
+    },
+  });
+
   const progress = Math.round((Object.keys(resolutions).length / conflicts.length) * 100);
 
   const handleBatchModeChange = (value: string) => {
@@ -74,7 +98,7 @@ export function ConflictResolutionWizard({
     if (value !== 'manual') {
       const newResolutions: Record<number, string> = {};
       conflicts.forEach(conflict => {
-        newResolutions[conflict.shiftId] = value;
+        newResolutions[conflict.id] = value;
       });
       setResolutions(newResolutions);
     }
@@ -82,9 +106,14 @@ export function ConflictResolutionWizard({
 
   const handleResolve = async () => {
     try {
-      // Resolve each conflict sequentially
-      for (const conflict of conflicts) {
-        await resolveMutation.mutateAsync(conflict.shiftId);
+      if (batchMode !== 'manual') {
+        // One request for the whole set when a single strategy applies
+        await batchResolveMutation.mutateAsync(batchMode);
+      } else {
+        // Resolve each conflict sequentially
+        for (const conflict of conflicts) {
+          await resolveMutation.mutateAsync(conflict.id);
+        }
       }
 
       // Reset state
@@ -138,7 +167,7 @@ export function ConflictResolutionWizard({
               </div>
 
               {conflicts.map((conflict, index) => (
-                <Card key={conflict.shiftId} className={index !== currentStep ? 'hidden' : undefined}>
+                <Card key={conflict.id} className={index !== currentStep ? 'hidden' : undefined}>
                   <CardContent className="pt-6 space-y-4">
                     <div className="flex items-start gap-6">
                       <div className="flex-1">
@@ -150,29 +179,29 @@ export function ConflictResolutionWizard({
                     </div>
 
                     <RadioGroup
-                      value={resolutions[conflict.shiftId]}
+                      value={resolutions[conflict.id]}
                       onValueChange={(value: string) => {
                         setResolutions(prev => ({
                           ...prev,
-                          [conflict.shiftId]: value
+                          [conflict.id]: value
                         }));
                       }}
                     >
                       <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="auto_reassign" id={`auto-${conflict.shiftId}`} />
-                        <Label htmlFor={`auto-${conflict.shiftId}`}>Auto-reassign shift</Label>
+                        <RadioGroupItem value="auto_reassign" id={`auto-${conflict.id}`} />
+                        <Label htmlFor={`auto-${conflict.id}`}>Auto-reassign shift</Label>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="notify_admin" id={`notify-${conflict.shiftId}`} />
-                        <Label htmlFor={`notify-${conflict.shiftId}`}>Notify admin</Label>
+                        <RadioGroupItem value="notify_admin" id={`notify-${conflict.id}`} />
+                        <Label htmlFor={`notify-${conflict.id}`}>Notify admin</Label>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="suggest_swap" id={`swap-${conflict.shiftId}`} />
-                        <Label htmlFor={`swap-${conflict.shiftId}`}>Suggest swap</Label>
+                        <RadioGroupItem value="suggest_swap" id={`swap-${conflict.id}`} />
+                        <Label htmlFor={`swap-${conflict.id}`}>Suggest swap</Label>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="enforce_rule" id={`enforce-${conflict.shiftId}`} />
-                        <Label htmlFor={`enforce-${conflict.shiftId}`}>Enforce scheduling rule</Label>
+                        <RadioGroupItem value="enforce_rule" id={`enforce-${conflict.id}`} />
+                        <Label htmlFor={`enforce-${conflict.id}`}>Enforce scheduling rule</Label>
                       </div>
                     </RadioGroup>
 
@@ -186,7 +215,7 @@ export function ConflictResolutionWizard({
                       </Button>
                       <Button
                         onClick={() => setCurrentStep(prev => Math.min(conflicts.length - 1, prev + 1))}
-                        disabled={currentStep === conflicts.length - 1 || !resolutions[conflict.shiftId]}
+                        disabled={currentStep === conflicts.length - 1 || !resolutions[conflict.id]}
                       >
                         Next
                       </Button>
@@ -213,11 +242,11 @@ export function ConflictResolutionWizard({
             <Button
               onClick={handleResolve}
               disabled={
-                resolveMutation.isPending ||
+                resolveMutation.isPending || batchResolveMutation.isPending ||
                 (batchMode === 'manual' && Object.keys(resolutions).length !== conflicts.length)
               }
             >
-              {resolveMutation.isPending ? (
+              {resolveMutation.isPending || batchResolveMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Resolving...
@@ -3,12 +3,15 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import type { Shift } from "@/lib/types";
+import { applyShiftBatch } from "@/lib/shift-batch";
 import { format } from "date-fns";
 import { Trash2 } from "lucide-react";
 import { USERS } from "@/lib/constants";
@@ -26,26 +29,24 @@ export function DuplicateShiftsDialog({
 }: DuplicateShiftsDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
 
   const { data: duplicates, isLoading } = useQuery<Shift[]>({
     queryKey: [`/api/shifts/duplicates/${userId}`],
     enabled: open,
   });
 
-  const { mutate: deleteShift } = useMutation({
-    mutationFn: async (shiftId: number) => {
-      const res = await fetch(`/api/shifts/${shiftId}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) throw new Error("Failed to delete shift");
-      return res.json();
-    },
-    onSuccess: () => {
+  // All selected shifts are removed in one transaction, or none are
+  const { mutate: deleteShifts, isPending: isDeleting } = useMutation({
+    mutationFn: (shiftIds: number[]) =>
+      applyShiftBatch(shiftIds.map(id => ({ op: 'delete' as const, id }))),
+    onSuccess: (results) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
       queryClient.invalidateQueries({ queryKey: [`/api/shifts/duplicates/${userId}`] });
+      setSelected(new Set());
       toast({
         title: "Success",
-        description: "Duplicate shift removed successfully",
+        description: `${results.length} duplicate shift(s) removed`,
       });
     },
     onError: (error) => {
@@ -63,6 +64,12 @@ export function DuplicateShiftsDialog({
 
   const user = USERS.find(u => u.id === userId);
 
+  const toggle = (shiftId: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(shiftId); else next.delete(shiftId);
+    setSelected(next);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -76,29 +83,40 @@ export function DuplicateShiftsDialog({
             duplicates.map((shift) => (
               <div
                 key={shift.id}
-                className="flex items-center justify-between p-4 border rounded-lg"
+                className="flex items-center p-4 border rounded-lg"
                 style={{ borderColor: user?.color }}
               >
-                <div className="space-y-1">
-                  <p className="font-medium">
-                    {format(new Date(shift.startDate), 'MMM d, yyyy')} -{' '}
-                    {format(new Date(shift.endDate), 'MMM d, yyyy')}
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    Shift ID: {shift.id}
-                  </p>
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selected.has(shift.id)}
+                    onCheckedChange={(checked) => toggle(shift.id, checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {format(new Date(shift.startDate), 'MMM d, yyyy')} -{' '}
+                      {format(new Date(shift.endDate), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Shift ID: {shift.id}
+                    </p>
+                  </div>
                 </div>
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={() => deleteShift(shift.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
               </div>
             ))
           )}
         </div>
+        {!!duplicates?.length && (
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => deleteShifts(Array.from(selected))}
+              disabled={!selected.size || isDeleting}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {isDeleting ? "Removing..." : `Remove ${selected.size} Selected`}
+            </Button>
+          </DialogFooter>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -14,9 +14,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { format } from "date-fns";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveEvents, usePollingFallback } from "@/hooks/use-live-sync";
 
 interface Notification {
-  type: 'shift_created' | 'shift_updated' | 'shift_deleted' | 'shift_swap_requested' | 'shift_swap_responded' | 'shift_swap_cancelled' | 'time_off_requested' | 'time_off_responded' | 'time_off_cancelled' | 'chat_message' | 'urgent_coverage';
+  type: 'shift_created' | 'shift_updated' | 'shift_deleted' | 'shift_swap_requested' | 'shift_swap_responded' | 'shift_swap_cancelled' | 'time_off_requested' | 'time_off_responded' | 'time_off_cancelled' | 'chat_message' | 'urgent_coverage' | 'published_shifts';
   data: any;
   timestamp: string;
   user?: {
@@ -25,6 +26,12 @@ interface Notification {
   };
 }
 
+const FEED_TYPES: Notification['type'][] = [
+  'shift_created', 'shift_updated', 'shift_deleted', 'shift_swap_requested', 'shift_swap_responded',
+  'shift_swap_cancelled', 'time_off_requested', 'time_off_responded', 'time_off_cancelled',
+  'chat_message', 'urgent_coverage', 'published_shifts',
+];
+
 export function Notifications() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [open, setOpen] = useState(false);
@@ -32,6 +39,7 @@ export function Notifications() {
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const pollingFallback = usePollingFallback();
 
   // Fetch existing swap requests
   const { data: swapRequests } = useQuery({
@@ -70,7 +78,7 @@ export function Notifications() {
       }
     },
     staleTime: 1000,
-    refetchInterval: 5000
+    refetchInterval: pollingFallback
   });
 
   const { mutate: respondToSwap, isPending: isResponding } = useMutation({
@@ -165,52 +173,36 @@ export function Notifications() {
     }
   }, [swapRequests]);
 
-  useEffect(() => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const host = window.location.hostname;
-    const ws = new WebSocket(`${protocol}//${host}:5001`);
-
-    ws.onmessage = (event) => {
-      try {
-        const notification = JSON.parse(event.data);
-        if (notification.type === 'connected') return;
-
-        setNotifications(prev => {
-          const isDuplicate = prev.some(n => 
-            n.type === notification.type && 
-            JSON.stringify(n.data) === JSON.stringify(notification.data)
-          );
-          if (isDuplicate) return prev;
-          return [notification, ...prev];
-        });
+  // The feed shows the events the shared live connection receives
+  useLiveEvents((event) => {
+    if (!FEED_TYPES.includes(event.type as Notification['type'])) return;
+    const notification = event as Notification;
 
-        if (!open) setHasNew(true);
+    setNotifications(prev => {
+      const isDuplicate = prev.some(n =>
+        n.type === notification.type &&
+        JSON.stringify(n.data) === JSON.stringify(notification.data)
+      );
+      if (isDuplicate) return prev;
+      return [notification, ...prev];
+    });
 
-        // Show toast for important notifications
-        if (notification.type === 'shift_swap_requested') {
-          toast({
-            title: 'New Shift Swap Request',
-            description: `${notification.data.requestor.name} has requested to swap shifts with you.`,
-          });
-        }
-      } catch (error) {
-        console.error('WebSocket message processing error:', error);
-      }
-    };
+    if (!open) setHasNew(true);
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
+    // Show toast for important notifications
+    if (notification.type === 'shift_swap_requested') {
       toast({
-        title: 'Connection Error',
-        description: 'Failed to connect to notification service. Please refresh the page.',
-        variant: 'destructive',
+        title: 'New Shift Swap Request',
+        description: `${notification.data.requestor.name} has requested to swap shifts with you.`,
       });
-    };
-
-    return () => {
-      ws.close();
-    };
-  }, [open, toast]);
+    }
+    if (notification.type === 'published_shifts') {
+      toast({
+        title: 'Schedule Published',
+        description: getMessage(notification),
+      });
+    }
+  });
 
   const getMessage = (notification: Notification) => {
     switch (notification.type) {
@@ -219,9 +211,11 @@ export function Notifications() {
       case 'shift_updated':
         return `${notification.user?.name} updated their shift to ${format(new Date(notification.data.startDate), 'MMM d, yyyy')} - ${format(new Date(notification.data.endDate), 'MMM d, yyyy')}`;
       case 'shift_swap_requested':
-        return `${notification.data.requestor.name} requested to swap shift with ${notification.data.recipient.name} (${format(new Date(notification.data.shift.startDate), 'MMM d')} - ${format(new Date(notification.data.shift.endDate), 'MMM d')})`;
+        return `${notification.data.requestor.name} requested to swap shift with ${notification.data.recipient.name} (${format(new Date(notification.data.shift.startDate), 'MMM d')} - ${format(new Date(notification.data.shift.endDate), 'MMM d')})${notification.data.requestedShift ? ` for their ${format(new Date(notification.data.requestedShift.startDate), 'MMM d')} - ${format(new Date(notification.data.requestedShift.endDate), 'MMM d')} shift` : ''}`;
       case 'shift_swap_responded':
-        return `${notification.data.recipient.name} ${notification.data.status} your shift swap request`;
+        return notification.data.status === 'awaiting_approval'
+          ? `${notification.data.recipient.name} accepted your shift swap request; it is awaiting admin approval`
+          : `${notification.data.recipient.name} ${notification.data.status} your shift swap request`;
       case 'shift_swap_cancelled':
         return `${notification.data.requestor.name} cancelled the shift swap request with ${notification.data.recipient.name}`;
       case 'time_off_requested':
@@ -234,6 +228,8 @@ export function Notifications() {
         return `${notification.user?.name}: ${notification.data.message.content}`;
       case 'urgent_coverage':
         return `${notification.data.requester.name} needs urgent coverage for ${format(new Date(notification.data.shift.startDate), 'MMM d')}`;
+      case 'published_shifts':
+        return `${notification.data.period.name} was published with ${notification.data.shifts.length} shift(s) for you: ${notification.data.shifts.map((shift: { startDate: string }) => format(new Date(shift.startDate), 'MMM d')).join(', ')}`;
       default:
         return 'Unknown notification';
     }
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Hand, Megaphone, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { usePollingFallback } from "@/hooks/use-live-sync";
+import type { OpenShiftListing } from "@/lib/types";
+
+async function sendBoardRequest(url: string, method: string, fallback: string) {
+  const res = await fetch(url, { method, headers: { 'Content-Type': 'application/json' } });
+  const text = await res.text();
+
+  if (!res.ok) {
+    let error;
+    try {
+      const json = JSON.parse(text);
+      error = json.message || json.error || fallback;
+    } catch (e) {
+      error = text || fallback;
+    }
+    throw new Error(error);
+  }
+
+  return text ? JSON.parse(text) : { success: true };
+}
+
+/**
+ * Shifts given away to the whole group. The server only lists postings the
+ * current user may claim, and re-checks eligibility when they do.
+ */
+export function OpenShiftBoard() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: listings = [], isLoading } = useQuery<OpenShiftListing[]>({
+    queryKey: ["/api/open-shifts"],
+    // Claims by other users take shifts off the board as they happen
+    refetchInterval: usePollingFallback(),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/open-shifts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+  };
+
+  const { mutate: claim, isPending: isClaiming } = useMutation({
+    mutationFn: (postingId: number) =>
+      sendBoardRequest(`/api/open-shifts/${postingId}/claim`, 'POST', 'Failed to claim shift'),
+    onSuccess: (data: { request: { status: string } }) => {
+      invalidate();
+      toast(data.request.status === 'awaiting_approval'
+        ? { title: 'Claim sent for approval', description: 'The shift moves to your schedule once an admin signs off.' }
+        : { title: 'Shift claimed', description: 'The shift is now on your schedule.' });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const { mutate: withdraw, isPending: isWithdrawing } = useMutation({
+    mutationFn: (postingId: number) =>
+      sendBoardRequest(`/api/open-shifts/${postingId}`, 'DELETE', 'Failed to withdraw posting'),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Success', description: 'Posting withdrawn' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Open Shifts
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading open shifts...</div>
+        ) : !listings.length ? (
+          <div className="text-center py-4 text-muted-foreground">
+            No open shifts available to you right now
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {listings.map(listing => {
+              const isOwn = listing.requestorId === user?.id;
+
+              return (
+                <div key={listing.id} className="p-4 border rounded-lg flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {format(new Date(listing.shift.startDate), 'MMM d')} - {format(new Date(listing.shift.endDate), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Posted by {listing.owner.name}
+                      {listing.reason ? ` · ${listing.reason}` : ''}
+                    </p>
+                    {listing.expiresAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Open until {format(new Date(listing.expiresAt), "MMM d 'at' h:mm a")}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {listing.eligibility && (
+                      <Badge variant="secondary">Match {listing.eligibility.score}%</Badge>
+                    )}
+                    {isOwn ? (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => withdraw(listing.id)}
+                        disabled={isWithdrawing}
+                      >
+                        <X className="h-4 w-4" />
+                        Withdraw
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => claim(listing.id)}
+                        disabled={isClaiming}
+                      >
+                        <Hand className="h-4 w-4" />
+                        {isClaiming ? 'Claiming...' : 'Claim'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -16,46 +18,80 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { USERS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { applyShiftBatch } from "@/lib/shift-batch";
 import type { Shift } from "@/lib/types";
 
 interface OverlappingShiftsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   shifts: Shift[];
-  onShiftUpdate: (shift: Shift) => void;
+  onSaved?: (shifts: Shift[]) => void;
 }
 
+type DateEdit = Pick<Shift, 'startDate' | 'endDate'>;
+
+/**
+ * Edits to overlapping shifts are collected and saved together, so moving
+ * both sides of an overlap apart is checked as one change
+ */
 export function OverlappingShiftsDialog({
   open,
   onOpenChange,
   shifts,
-  onShiftUpdate,
+  onSaved,
 }: OverlappingShiftsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [edits, setEdits] = useState<Map<number, DateEdit>>(new Map());
   const [editingShift, setEditingShift] = useState<{
     shift: Shift;
     startDate: Date;
     endDate: Date;
   } | null>(null);
 
+  const datesOf = (shift: Shift): DateEdit => edits.get(shift.id) ?? shift;
+
   const handleEdit = (shift: Shift) => {
     setEditingShift({
       shift,
-      startDate: new Date(shift.startDate),
-      endDate: new Date(shift.endDate),
+      startDate: new Date(datesOf(shift).startDate),
+      endDate: new Date(datesOf(shift).endDate),
     });
   };
 
   const handleUpdate = () => {
     if (!editingShift) return;
 
-    onShiftUpdate({
-      ...editingShift.shift,
+    setEdits(new Map(edits).set(editingShift.shift.id, {
       startDate: format(editingShift.startDate, 'yyyy-MM-dd'),
       endDate: format(editingShift.endDate, 'yyyy-MM-dd'),
-    });
+    }));
     setEditingShift(null);
   };
 
+  const { mutate: save, isPending: isSaving } = useMutation({
+    mutationFn: () => applyShiftBatch(
+      Array.from(edits.entries()).map(([id, dates]) => ({ op: 'update' as const, id, ...dates }))
+    ),
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      setEdits(new Map());
+      onSaved?.(results.map(result => result.shift!));
+      toast({
+        title: "Shifts updated",
+        description: `${results.length} shift(s) saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -165,20 +201,36 @@ export function OverlappingShiftsDialog({
                         Cancel
                       </Button>
                       <Button onClick={handleUpdate}>
-                        Update
+                        Apply
                       </Button>
                     </div>
                   </div>
                 ) : (
                   <p className="text-sm text-muted-foreground">
-                    {format(new Date(shift.startDate), 'MMM d, yyyy')} -{' '}
-                    {format(new Date(shift.endDate), 'MMM d, yyyy')}
+                    {format(new Date(datesOf(shift).startDate), 'MMM d, yyyy')} -{' '}
+                    {format(new Date(datesOf(shift).endDate), 'MMM d, yyyy')}
+                    {edits.has(shift.id) && ' (unsaved)'}
                   </p>
                 )}
               </div>
             );
           })}
         </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setEdits(new Map())}
+            disabled={!edits.size || isSaving}
+          >
+            Discard Changes
+          </Button>
+          <Button
+            onClick={() => save()}
+            disabled={!edits.size || isSaving}
+          >
+            {isSaving ? "Saving..." : `Save ${edits.size} Change(s)`}
+          </Button>
+        </DialogFooter>
       </DialogContent>
     </Dialog>
   );
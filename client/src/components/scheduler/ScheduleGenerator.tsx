@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CoverageGroup, ScheduleGeneration } from "@/lib/types";
+
+const GROUP_LABELS: Record<CoverageGroup, string> = {
+  physician: 'Physicians',
+  app_day: 'Daytime APPs',
+  app_night: 'Night time APPs',
+};
+
+const formatWeek = (week: { startDate: string; endDate: string }) =>
+  `${format(parseISO(week.startDate), 'MMM d')} - ${format(parseISO(week.endDate), 'MMM d, yyyy')}`;
+
+/**
+ * Fills a planning period's Friday-to-Thursday weeks. Preview shows what a
+ * run would do; Generate stores it as drafts, replacing earlier generated
+ * drafts in those weeks that nobody has changed since.
+ */
+export function ScheduleGenerator() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [result, setResult] = useState<ScheduleGeneration | null>(null);
+
+  const { mutate: generate, isPending } = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await fetch('/api/schedule/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate, dryRun }),
+      });
+
+      const text = await res.text();
+      if (!res.ok) {
+        let error;
+        try {
+          const json = JSON.parse(text);
+          error = json.details || json.message || json.error || 'Failed to generate schedule';
+        } catch (e) {
+          error = text || 'Failed to generate schedule';
+        }
+        throw new Error(error);
+      }
+
+      return { dryRun, generation: JSON.parse(text) as ScheduleGeneration };
+    },
+    onSuccess: ({ dryRun, generation }) => {
+      setResult(generation);
+      if (!dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+        toast({
+          title: 'Schedule generated',
+          description: `${generation.shifts.length} draft shift(s) created across ${generation.weeks} week(s)`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5" />
+          Generate Schedule
+        </CardTitle>
+        <CardDescription>
+          Fills uncovered weeks for each provider group within target days, tolerance,
+          consecutive-week limits and approved time off. Existing shifts are kept. The weeks
+          must lie within a draft period; generated shifts stay drafts until it is published.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="generate-start">From</Label>
+            <Input
+              id="generate-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="generate-end">Until (exclusive)</Label>
+            <Input
+              id="generate-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => generate(true)}
+            disabled={isPending || !startDate || !endDate}
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={() => generate(false)}
+            disabled={isPending || !startDate || !endDate}
+          >
+            {isPending ? 'Working...' : 'Generate'}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {result.weeks} week(s) planned, {result.shifts.length} shift(s) generated
+              {result.replacedShiftIds.length ? `, ${result.replacedShiftIds.length} earlier generated shift(s) replaced` : ''}
+            </p>
+
+            {!!result.gaps.length && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="font-medium">Uncovered weeks</p>
+                  <ul className="list-disc pl-6 text-sm">
+                    {result.gaps.map(gap => (
+                      <li key={`${gap.group}-${gap.startDate}`}>
+                        {GROUP_LABELS[gap.group]}, {formatWeek(gap)}: {gap.reasons.join('; ') || 'no providers in this group'}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead className="text-right">Kept days</TableHead>
+                  <TableHead className="text-right">Generated days</TableHead>
+                  <TableHead>Year vs target</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.report.map(row => (
+                  <TableRow key={row.userId}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{GROUP_LABELS[row.group]}</TableCell>
+                    <TableCell className="text-right">{row.keptDays}</TableCell>
+                    <TableCell className="text-right">{row.generatedDays}</TableCell>
+                    <TableCell className="space-x-2">
+                      {row.years.map(year => (
+                        <Badge key={year.year} variant={year.withinTolerance ? 'secondary' : 'destructive'}>
+                          {year.year}: {year.scheduledDays}/{row.targetDays} ({year.difference >= 0 ? '+' : ''}{year.difference})
+                        </Badge>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
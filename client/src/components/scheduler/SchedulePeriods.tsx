@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarRange } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { SchedulePeriod } from "@/lib/types";
+
+// End dates are exclusive, so the last day shown is the one before
+const formatPeriod = (period: SchedulePeriod) =>
+  `${format(parseISO(period.startDate), 'MMM d')} - ${format(addDays(parseISO(period.endDate), -1), 'MMM d, yyyy')}`;
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const text = await res.text();
+  if (!res.ok) {
+    let error;
+    try {
+      const json = JSON.parse(text);
+      error = json.details || json.message || json.error;
+    } catch (e) {
+      error = text;
+    }
+    throw new Error(error || 'Request failed');
+  }
+  return text ? JSON.parse(text) : null;
+}
+
+/**
+ * Draft periods: shifts added inside one, by hand or by the generator, are
+ * only visible to schedulers until the period is published
+ */
+export function SchedulePeriods() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [discarding, setDiscarding] = useState<SchedulePeriod | null>(null);
+
+  const { data: periods = [] } = useQuery<SchedulePeriod[]>({
+    queryKey: ['/api/schedule-periods'],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const { mutate: create, isPending: isCreating } = useMutation({
+    mutationFn: () => send('/api/schedule-periods', 'POST', { name, startDate, endDate }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-periods'] });
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      toast({ title: 'Draft period created', description: 'New shifts in it stay hidden until you publish it' });
+    },
+    onError,
+  });
+
+  const { mutate: publish, isPending: isPublishing } = useMutation({
+    mutationFn: (period: SchedulePeriod) => send(`/api/schedule-periods/${period.id}/publish`, 'POST'),
+    onSuccess: (result: { shifts: unknown[]; notifiedUserIds: number[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-periods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      toast({
+        title: 'Schedule published',
+        description: `${result.shifts.length} shift(s) published; ${result.notifiedUserIds.length} provider(s) notified`,
+      });
+    },
+    onError,
+  });
+
+  const { mutate: discard, isPending: isDiscarding } = useMutation({
+    mutationFn: (period: SchedulePeriod) => send(`/api/schedule-periods/${period.id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-periods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      setDiscarding(null);
+      toast({ title: 'Draft discarded' });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Schedule Periods
+        </CardTitle>
+        <CardDescription>
+          Plan a stretch of the schedule as a draft. Shifts created inside a draft period are only
+          visible to schedulers; publishing makes them live and notifies each provider once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="period-name">Name</Label>
+            <Input
+              id="period-name"
+              placeholder="e.g. Q1 2027"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-start">From</Label>
+            <Input
+              id="period-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-end">Until (exclusive)</Label>
+            <Input
+              id="period-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => create()}
+            disabled={isCreating || !name.trim() || !startDate || !endDate}
+          >
+            {isCreating ? 'Creating...' : 'Create Draft'}
+          </Button>
+        </div>
+
+        {periods.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Draft shifts</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map(period => (
+                <TableRow key={period.id}>
+                  <TableCell className="font-medium">{period.name}</TableCell>
+                  <TableCell>{formatPeriod(period)}</TableCell>
+                  <TableCell>
+                    {period.status === 'draft' ? (
+                      <Badge variant="secondary">Draft</Badge>
+                    ) : (
+                      <Badge>
+                        Published{period.publishedAt ? ` ${format(new Date(period.publishedAt), 'MMM d')}` : ''}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{period.draftShifts}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {period.status === 'draft' && (
+                      <>
+                        <Button size="sm" onClick={() => publish(period)} disabled={isPublishing}>
+                          Publish
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setDiscarding(period)}>
+                          Discard
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!discarding} onOpenChange={(open) => !open && setDiscarding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard Draft</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discarding?.name} and its {discarding?.draftShifts} draft shift(s) will be deleted.
+              Providers never saw them, so nobody is notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => discarding && discard(discarding)}
+              disabled={isDiscarding}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { ScheduleDiff, ScheduleSnapshot, SnapshotShift } from "@/lib/types";
+
+// End dates are exclusive, so the last day shown is the one before
+const formatRange = (range: { startDate: string; endDate: string }) =>
+  `${format(parseISO(range.startDate), 'MMM d')} - ${format(addDays(parseISO(range.endDate), -1), 'MMM d, yyyy')}`;
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const text = await res.text();
+  if (!res.ok) {
+    let error;
+    try {
+      const json = JSON.parse(text);
+      error = json.details || json.message || json.error;
+    } catch (e) {
+      error = text;
+    }
+    throw new Error(error || 'Request failed');
+  }
+  return text ? JSON.parse(text) : null;
+}
+
+function ShiftList({ shifts }: { shifts: SnapshotShift[] }) {
+  return <>{shifts.map(shift => <div key={shift.id}>{formatRange(shift)}</div>)}</>;
+}
+
+/**
+ * Named copies of a date range. A snapshot can be compared with another one
+ * or with the live schedule, and the range rolled back to it.
+ */
+export function ScheduleSnapshots() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [comparing, setComparing] = useState<{ id: number; against: string } | null>(null);
+  const [rollingBack, setRollingBack] = useState<ScheduleSnapshot | null>(null);
+
+  const { data: snapshots = [] } = useQuery<ScheduleSnapshot[]>({
+    queryKey: ['/api/schedule-snapshots'],
+  });
+
+  const { data: diff } = useQuery<ScheduleDiff>({
+    queryKey: [`/api/schedule-snapshots/${comparing?.id}/diff?against=${comparing?.against}`],
+    enabled: !!comparing,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const { mutate: capture, isPending: isCapturing } = useMutation({
+    mutationFn: () => send('/api/schedule-snapshots', 'POST', { name, startDate, endDate }),
+    onSuccess: (snapshot: ScheduleSnapshot) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-snapshots'] });
+      setName('');
+      toast({ title: 'Snapshot saved', description: `${snapshot.shiftCount} shift(s) captured` });
+    },
+    onError,
+  });
+
+  const { mutate: rollback, isPending: isRollingBack } = useMutation({
+    mutationFn: (snapshot: ScheduleSnapshot) => send(`/api/schedule-snapshots/${snapshot.id}/rollback`, 'POST'),
+    onSuccess: (result: { restored: unknown[]; removed: unknown[]; conflicts: unknown[]; backup: ScheduleSnapshot }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-snapshots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      setRollingBack(null);
+      setComparing(null);
+      toast({
+        title: 'Schedule rolled back',
+        description: `${result.restored.length} shift(s) restored, ${result.removed.length} removed` +
+          (result.conflicts.length ? `, ${result.conflicts.length} conflict(s) to review` : '') +
+          `. "${result.backup.name}" holds the previous state.`,
+      });
+    },
+    onError,
+  });
+
+  const { mutate: remove } = useMutation({
+    mutationFn: (snapshot: ScheduleSnapshot) => send(`/api/schedule-snapshots/${snapshot.id}`, 'DELETE'),
+    onSuccess: (_, snapshot) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule-snapshots'] });
+      if (comparing?.id === snapshot.id) setComparing(null);
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Snapshots
+        </CardTitle>
+        <CardDescription>
+          Save the schedule for a date range before a big change, compare it with what is live
+          now, and roll back if needed. Clearing all shifts saves a snapshot automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-name">Name</Label>
+            <Input
+              id="snapshot-name"
+              placeholder="e.g. Before summer reshuffle"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-start">From</Label>
+            <Input
+              id="snapshot-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-end">Until (exclusive)</Label>
+            <Input
+              id="snapshot-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => capture()}
+            disabled={isCapturing || !name.trim() || !startDate || !endDate}
+          >
+            {isCapturing ? 'Saving...' : 'Save Snapshot'}
+          </Button>
+        </div>
+
+        {snapshots.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Snapshot</TableHead>
+                <TableHead>Range</TableHead>
+                <TableHead>Taken</TableHead>
+                <TableHead className="text-right">Shifts</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshots.map(snapshot => (
+                <TableRow key={snapshot.id}>
+                  <TableCell className="font-medium">{snapshot.name}</TableCell>
+                  <TableCell>{formatRange(snapshot)}</TableCell>
+                  <TableCell>{format(new Date(snapshot.createdAt), 'MMM d, h:mm a')}</TableCell>
+                  <TableCell className="text-right">{snapshot.shiftCount}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setComparing({ id: snapshot.id, against: 'live' })}>
+                      Compare
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRollingBack(snapshot)}>
+                      Roll Back
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => remove(snapshot)}>
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {comparing && (
+          <div className="space-y-4 border rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <p className="font-medium">
+                {snapshots.find(snapshot => snapshot.id === comparing.id)?.name} compared with
+              </p>
+              <Select
+                value={comparing.against}
+                onValueChange={(against) => setComparing({ ...comparing, against })}
+              >
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">Live schedule</SelectItem>
+                  {snapshots
+                    .filter(snapshot => snapshot.id !== comparing.id)
+                    .map(snapshot => (
+                      <SelectItem key={snapshot.id} value={String(snapshot.id)}>{snapshot.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="ghost" onClick={() => setComparing(null)}>Close</Button>
+            </div>
+
+            {diff && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{diff.totals.added} added</Badge>
+                  <Badge variant="secondary">{diff.totals.removed} removed</Badge>
+                  <Badge variant="secondary">{diff.totals.reassigned} reassigned</Badge>
+                  <Badge variant="secondary">{diff.totals.moved} moved</Badge>
+                </div>
+
+                {diff.providers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No differences in {formatRange(diff)}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Provider</TableHead>
+                        <TableHead>Added</TableHead>
+                        <TableHead>Removed</TableHead>
+                        <TableHead>Taken over</TableHead>
+                        <TableHead>Handed over</TableHead>
+                        <TableHead>Moved</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.providers.map(provider => (
+                        <TableRow key={provider.userId ?? 'unassigned'} className="align-top text-sm">
+                          <TableCell className="font-medium">{provider.name}</TableCell>
+                          <TableCell><ShiftList shifts={provider.added} /></TableCell>
+                          <TableCell><ShiftList shifts={provider.removed} /></TableCell>
+                          <TableCell><ShiftList shifts={provider.reassignedIn.map(change => change.after)} /></TableCell>
+                          <TableCell><ShiftList shifts={provider.reassignedOut.map(change => change.before)} /></TableCell>
+                          <TableCell>
+                            {provider.moved.map(change => (
+                              <div key={change.after.id}>{formatRange(change.before)} → {formatRange(change.after)}</div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rollingBack} onOpenChange={(open) => !open && setRollingBack(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Schedule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Shifts from {rollingBack && formatRange(rollingBack)} will be put back the way they were
+              in {rollingBack?.name}. Open swap requests on shifts that change are cancelled. The
+              current state is saved as a snapshot first, so this can be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rollingBack && rollback(rollingBack)}
+              disabled={isRollingBack}
+            >
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
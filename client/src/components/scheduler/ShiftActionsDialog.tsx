@@ -11,6 +11,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import type { Shift } from "@/lib/types";
 import { ShiftSwap } from "./ShiftSwap";
+import { ShiftHistory } from "./ShiftHistory";
 import { useState } from "react";
 
 interface ShiftActionsDialogProps {
@@ -29,6 +30,7 @@ export function ShiftActionsDialog({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleDelete = async () => {
     if (!shift) return;
@@ -53,7 +55,7 @@ export function ShiftActionsDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Manage Shift</DialogTitle>
           <DialogDescription>
@@ -68,6 +70,13 @@ export function ShiftActionsDialog({
             onClose={() => onOpenChange(false)} 
           />
 
+          <div className="pt-4 border-t space-y-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? "Hide History" : "Show History"}
+            </Button>
+            {showHistory && <ShiftHistory shiftId={shift.id} />}
+          </div>
+
           <div className="flex justify-end space-x-2 pt-4 border-t">
             <Button
               variant="outline"
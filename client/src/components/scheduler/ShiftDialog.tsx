@@ -99,9 +99,6 @@ export function ShiftDialog({ open, onOpenChange, startDate, endDate }: ShiftDia
           exact: false
         });
 
-        // Trigger calendar refresh
-        window.dispatchEvent(new Event('forceCalendarRefresh'));
-
         onOpenChange(false);
         toast({
           title: "Success",
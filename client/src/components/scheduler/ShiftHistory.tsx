@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScrollText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser, hasRole } from "@/hooks/use-user";
+import type { ShiftAuditAction, ShiftAuditEntry, SnapshotShift, User } from "@/lib/types";
+
+const ACTION_LABELS: Record<ShiftAuditAction, string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+  swap: 'Swapped',
+  import: 'Imported',
+};
+
+// End dates are exclusive, so the last day shown is the one before
+const formatRange = (shift: SnapshotShift) =>
+  `${format(parseISO(shift.startDate), 'MMM d')} - ${format(addDays(parseISO(shift.endDate), -1), 'MMM d, yyyy')}`;
+
+async function revertEntry(entryId: number) {
+  const res = await fetch(`/api/shift-audit/${entryId}/revert`, { method: 'POST' });
+
+  const text = await res.text();
+  if (!res.ok) {
+    let error;
+    try {
+      const json = JSON.parse(text);
+      error = json.details || json.message || json.error;
+    } catch (e) {
+      error = text;
+    }
+    throw new Error(error || 'Failed to revert change');
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * The changes recorded for one shift, or for every shift a provider has
+ * held, newest first. Schedulers can revert the latest change to a shift.
+ */
+export function ShiftHistory({ shiftId, userId }: { shiftId?: number; userId?: number }) {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canRevert = hasRole(user, 'scheduler');
+
+  const url = shiftId !== undefined ? `/api/shifts/${shiftId}/audit` : `/api/users/${userId}/shift-audit`;
+  const { data: entries = [], isLoading } = useQuery<ShiftAuditEntry[]>({
+    queryKey: [url],
+    enabled: shiftId !== undefined || userId !== undefined,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+  const nameOf = (id: number | null) =>
+    id === null ? 'Unassigned' : users.find(candidate => candidate.id === id)?.name ?? 'Unknown user';
+
+  const { mutate: revert, isPending: isReverting } = useMutation({
+    mutationFn: (entry: ShiftAuditEntry) => revertEntry(entry.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      toast({ title: 'Change reverted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Cannot revert', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const describe = ({ before, after }: ShiftAuditEntry) => {
+    if (!before) return `${nameOf(after!.userId)}, ${formatRange(after!)}`;
+    if (!after) return `${nameOf(before.userId)}, ${formatRange(before)}`;
+
+    const changes = [];
+    if (before.userId !== after.userId) {
+      changes.push(`${nameOf(before.userId)} → ${nameOf(after.userId)}`);
+    }
+    if (before.startDate !== after.startDate || before.endDate !== after.endDate) {
+      changes.push(`${formatRange(before)} → ${formatRange(after)}`);
+    }
+    if (before.status !== after.status) {
+      changes.push(`${before.status} → ${after.status}`);
+    }
+    return changes.join('; ') || 'No visible change';
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+  if (!entries.length) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Change</TableHead>
+          <TableHead>By</TableHead>
+          {canRevert && <TableHead />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.id} className="align-top text-sm">
+            <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), 'MMM d, h:mm a')}</TableCell>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <Badge variant={entry.action === 'delete' ? 'destructive' : 'secondary'}>
+                  {ACTION_LABELS[entry.action]}
+                </Badge>
+                {entry.revertOf && <Badge variant="outline">Revert</Badge>}
+                {entry.revertedBy && <Badge variant="outline">Reverted</Badge>}
+              </div>
+              <p className="mt-1">{describe(entry)}</p>
+            </TableCell>
+            <TableCell>
+              <p>{entry.actor?.name ?? 'System'}</p>
+              <p className="text-xs text-muted-foreground">{entry.source}</p>
+            </TableCell>
+            {canRevert && (
+              <TableCell className="text-right">
+                {!entry.revertedBy && entry.action !== 'swap' && (
+                  <Button size="sm" variant="outline" onClick={() => revert(entry)} disabled={isReverting}>
+                    Revert
+                  </Button>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Browses the shift history of one provider at a time
+ */
+export function ProviderShiftHistory() {
+  const [userId, setUserId] = useState<string>('');
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Shift History
+        </CardTitle>
+        <CardDescription>
+          Every change to a provider's shifts: who made it, from where, and what it looked like
+          before. The latest change to a shift can be reverted unless it was a swap or going back
+          would cause a conflict.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="history-provider">Provider</Label>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger id="history-provider">
+              <SelectValue placeholder="Choose a provider" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map(provider => (
+                <SelectItem key={provider.id} value={String(provider.id)}>{provider.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {userId && <ShiftHistory userId={parseInt(userId)} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,7 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { USERS } from "@/lib/constants";
-import type { Shift, SwapRequest } from "@/lib/types";
+import type { Shift, SwapCandidates } from "@/lib/types";
 import { AlertCircle, Info } from "lucide-react";
 import {
   Tooltip,
@@ -19,11 +19,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { format } from "date-fns";
-import { getSwapRecommendations } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
 import { AlertTriangle } from "lucide-react";
 
 
+const NO_EXCHANGE = "none";
+
 interface ShiftSwapProps {
   shift: Shift;
   onClose: () => void;
@@ -31,6 +32,8 @@ interface ShiftSwapProps {
 
 export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
   const [recipientId, setRecipientId] = useState<string>();
+  // Optional shift to take from the recipient in exchange; none means a giveaway
+  const [requestedShiftId, setRequestedShiftId] = useState<string>(NO_EXCHANGE);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const currentUser = USERS.find(u => u.id === shift.userId);
@@ -40,8 +43,102 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
     queryKey: ["/api/shifts"],
   });
 
-  const { data: swapHistory = [] } = useQuery<SwapRequest[]>({
-    queryKey: ["/api/swap-requests"],
+  // Ranked on the server from the full schedule, time off, preferences and swap history
+  const { data: ranking } = useQuery<SwapCandidates>({
+    queryKey: [`/api/shifts/${shift.id}/swap-candidates`],
+  });
+  const candidates = ranking?.candidates ?? [];
+
+  // Posts "offer this shift, want that one" for the server to match into a
+  // swap chain when no direct exchange works
+  const { mutate: postIntent, isPending: isPostingIntent } = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/swap-intents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: shift.userId,
+          shiftId: shift.id,
+          wantedShiftId: parseInt(requestedShiftId),
+        }),
+      });
+
+      const text = await res.text();
+      if (!res.ok) {
+        let error;
+        try {
+          const json = JSON.parse(text);
+          error = json.message || json.error || 'Failed to post swap intent';
+        } catch (e) {
+          error = text || 'Failed to post swap intent';
+        }
+        throw new Error(error);
+      }
+
+      return JSON.parse(text) as { chains: unknown[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-chains"] });
+
+      toast({
+        title: "Intent posted",
+        description: data.chains.length
+          ? "A swap chain was found. Everyone involved has been asked to accept it."
+          : "You will be notified when a swap chain including this trade is found.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Gives the shift away to whoever eligible claims it first
+  const { mutate: postOpenShift, isPending: isPostingOpen } = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/open-shifts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ shiftId: shift.id }),
+      });
+
+      const text = await res.text();
+      if (!res.ok) {
+        let error;
+        try {
+          const json = JSON.parse(text);
+          error = json.message || json.error || 'Failed to post open shift';
+        } catch (e) {
+          error = text || 'Failed to post open shift';
+        }
+        throw new Error(error);
+      }
+
+      return JSON.parse(text);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/open-shifts"] });
+
+      toast({
+        title: "Shift posted",
+        description: "Eligible colleagues can now claim this shift from the open shift board.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const { mutate: requestSwap, isPending: isSubmitting } = useMutation({
@@ -50,19 +147,15 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
         throw new Error("Missing required data for swap request");
       }
 
-      const recipient = USERS.find(u => u.id === parseInt(recipientId));
-
-      if (!recipient || !currentUser) {
+      if (!candidates.some(c => c.userId === parseInt(recipientId))) {
         throw new Error('Invalid user selection');
       }
 
-      // Validate user types match
-      if (recipient.userType !== currentUser.userType) {
-        throw new Error(`Cannot swap shifts between different provider types (${currentUser.userType} and ${recipient.userType})`);
-      }
+      const exchangeShiftId = requestedShiftId === NO_EXCHANGE ? null : parseInt(requestedShiftId);
 
       console.log('Submitting swap request:', {
         shiftId: shift.id,
+        requestedShiftId: exchangeShiftId,
         requestorId: shift.userId,
         recipientId: parseInt(recipientId),
         shift: {
@@ -78,6 +171,7 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           shiftId: shift.id,
+          requestedShiftId: exchangeShiftId,
           requestorId: shift.userId,
           recipientId: parseInt(recipientId),
           shift: {
@@ -96,7 +190,7 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
         let error;
         try {
           const json = JSON.parse(text);
-          error = json.message || 'Failed to request swap';
+          error = json.message || json.error || 'Failed to request swap';
         } catch (e) {
           error = text || 'Failed to request swap';
         }
@@ -148,11 +242,20 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
     requestSwap();
   };
 
-  // Filter users to only show those of the same type
-  const eligibleUsers = USERS.filter(user =>
-    user.id !== shift.userId &&
-    currentUser && user.userType === currentUser.userType
-  );
+  // Upcoming shifts the recipient could hand over in exchange
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const recipientShifts = recipientId
+    ? shifts
+        .filter(s =>
+          s.userId === parseInt(recipientId) &&
+          s.status !== 'archived' &&
+          s.endDate > today
+        )
+        .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    : [];
+
+  // Candidates come back best first and already limited to the same type
+  const eligibleUsers = candidates;
 
   return (
     <div className="space-y-4">
@@ -169,17 +272,30 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
           </Tooltip>
         </div>
 
-        <Select value={recipientId} onValueChange={setRecipientId}>
+        <Select
+          value={recipientId}
+          onValueChange={(value) => {
+            setRecipientId(value);
+            setRequestedShiftId(NO_EXCHANGE);
+          }}
+        >
           <SelectTrigger>
             <SelectValue placeholder={`Select ${currentUser?.userType.toUpperCase()}`} />
           </SelectTrigger>
           <SelectContent>
-            {eligibleUsers.map(user => (
-              <SelectItem key={user.id} value={user.id.toString()}>
+            {eligibleUsers.map(candidate => (
+              <SelectItem key={candidate.userId} value={candidate.userId.toString()}>
                 <div className="flex flex-col gap-1">
-                  <div className="flex items-center justify-between">
-                    <span>{user.name}, {user.title}</span>
+                  <div className="flex items-center justify-between gap-4">
+                    <span>{candidate.name}</span>
+                    <span className="text-xs text-muted-foreground">{candidate.score}% match</span>
                   </div>
+                  {candidate.warnings[0] && (
+                    <span className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      {candidate.warnings[0]}
+                    </span>
+                  )}
                 </div>
               </SelectItem>
             ))}
@@ -187,6 +303,34 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
         </Select>
       </div>
 
+      {recipientId && (
+        <div className="grid gap-2">
+          <label className="text-sm font-medium">Take in exchange</label>
+          <Select value={requestedShiftId} onValueChange={setRequestedShiftId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select one of their shifts" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_EXCHANGE}>Nothing (give the shift away)</SelectItem>
+              {recipientShifts.map(s => (
+                <SelectItem key={s.id} value={s.id.toString()}>
+                  {format(new Date(s.startDate), 'MMM d')} - {format(new Date(s.endDate), 'MMM d, yyyy')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Gives: {format(new Date(shift.startDate), 'MMM d')} - {format(new Date(shift.endDate), 'MMM d, yyyy')}
+            {requestedShiftId !== NO_EXCHANGE && (() => {
+              const taken = recipientShifts.find(s => s.id === parseInt(requestedShiftId));
+              return taken
+                ? ` · Takes: ${format(new Date(taken.startDate), 'MMM d')} - ${format(new Date(taken.endDate), 'MMM d, yyyy')}`
+                : null;
+            })()}
+          </p>
+        </div>
+      )}
+
       {eligibleUsers.length === 0 && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -196,12 +340,34 @@ export function ShiftSwap({ shift, onClose }: ShiftSwapProps) {
         </Alert>
       )}
 
+      {requestedShiftId !== NO_EXCHANGE && (
+        <Button
+          variant="outline"
+          onClick={() => postIntent()}
+          disabled={isPostingIntent || isSubmitting}
+          className="w-full"
+        >
+          {isPostingIntent ? "Posting..." : "Post as Swap Chain Intent"}
+        </Button>
+      )}
+
       <Button
         onClick={handleSwapRequest}
-        disabled={!recipientId || isSubmitting || eligibleUsers.length === 0}
+        disabled={!recipientId || isSubmitting || isPostingIntent || eligibleUsers.length === 0}
+        className="w-full"
+      >
+        {isSubmitting
+          ? "Sending Request..."
+          : requestedShiftId === NO_EXCHANGE ? "Request Swap" : "Request Exchange"}
+      </Button>
+
+      <Button
+        variant="ghost"
+        onClick={() => postOpenShift()}
+        disabled={isPostingOpen || isSubmitting}
         className="w-full"
       >
-        {isSubmitting ? "Sending Request..." : "Request Swap"}
+        {isPostingOpen ? "Posting..." : "Give Away to Anyone Eligible"}
       </Button>
     </div>
   );
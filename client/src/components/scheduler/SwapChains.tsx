@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, Link2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
+import { useUser } from "@/hooks/use-user";
+import type { SwapChain, SwapChainParticipant } from "@/lib/types";
+
+const formatShift = (shift: SwapChainParticipant['gives']) =>
+  shift
+    ? `${format(new Date(shift.startDate), 'MMM d')} - ${format(new Date(shift.endDate), 'MMM d, yyyy')}`
+    : 'Shift unavailable';
+
+const STATUS_VARIANTS: Record<SwapChain['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  proposed: 'secondary',
+  awaiting_approval: 'secondary',
+  committed: 'default',
+  declined: 'destructive',
+  cancelled: 'outline',
+};
+
+/**
+ * Multi-party swaps matched from posted intents. Nothing is reassigned until
+ * every participant has accepted, and an admin has signed off when an
+ * approval rule applies.
+ */
+export function SwapChains() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const pollingFallback = usePollingFallback();
+
+  const { data: chains = [], isLoading } = useQuery<SwapChain[]>({
+    queryKey: ["/api/swap-chains"],
+    staleTime: 1000,
+    refetchInterval: pollingFallback,
+  });
+
+  const { mutate: respond, isPending } = useMutation({
+    mutationFn: async ({ chainId, response }: { chainId: number; response: 'accepted' | 'declined' }) => {
+      const res = await fetch(`/api/swap-chains/${chainId}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response }),
+      });
+
+      const text = await res.text();
+      if (!res.ok) {
+        let error;
+        try {
+          const json = JSON.parse(text);
+          error = json.details || json.message || json.error || 'Failed to respond to swap chain';
+        } catch (e) {
+          error = text || 'Failed to respond to swap chain';
+        }
+        throw new Error(error);
+      }
+
+      return JSON.parse(text) as { message: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-chains"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+
+      toast({ title: 'Success', description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Swap Chains
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading swap chains...</div>
+        ) : !chains.length ? (
+          <div className="text-center py-4 text-muted-foreground">
+            No swap chains yet. Post an intent from a shift to be matched into one.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {chains.map(chain => {
+              const mine = chain.participants.find(p => p.userId === user?.id);
+              const canRespond = chain.status === 'proposed' && mine?.response === 'pending';
+
+              return (
+                <div key={chain.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      Proposed {format(new Date(chain.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[chain.status]} className="capitalize">
+                      {chain.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+
+                  <ul className="space-y-1 text-sm">
+                    {chain.participants.map(participant => (
+                      <li key={participant.id} className="flex items-center justify-between gap-4">
+                        <span>
+                          <span className="font-medium">{participant.user.name}</span>
+                          {' '}gives {formatShift(participant.gives)}, takes {formatShift(participant.receives)}
+                        </span>
+                        <span className="text-muted-foreground capitalize">{participant.response}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {canRespond && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => respond({ chainId: chain.id, response: 'accepted' })}
+                        disabled={isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => respond({ chainId: chain.id, response: 'declined' })}
+                        disabled={isPending}
+                      >
+                        <X className="h-4 w-4" />
+                        Decline
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Check, X } from "lucide-react";
+import { ArrowLeftRight, Check, X } from "lucide-react";
+import { format } from "date-fns";
 import type { SwapRequest } from "@/lib/types";
 
 interface SwapRequestActionsProps {
@@ -10,6 +11,37 @@ interface SwapRequestActionsProps {
   onClose?: () => void;
 }
 
+const formatLeg = (shift?: { startDate: string; endDate: string } | null) =>
+  shift
+    ? `${format(new Date(shift.startDate), 'MMM d')} - ${format(new Date(shift.endDate), 'MMM d, yyyy')}`
+    : 'Shift dates unavailable';
+
+/**
+ * Both legs of a swap: what the requestor gives up and, for an exchange,
+ * what they take from the recipient in return
+ */
+export function SwapLegs({ request }: { request: SwapRequest }) {
+  return (
+    <div className="text-sm space-y-0.5">
+      <p>
+        <span className="text-muted-foreground">Gives: </span>
+        {formatLeg(request.shift)}
+      </p>
+      {request.requestedShiftId ? (
+        <p className="flex items-center gap-1">
+          <ArrowLeftRight className="h-3 w-3 text-muted-foreground" />
+          <span className="text-muted-foreground">
+            {request.kind === 'intent' ? 'Wants (via swap chain): ' : 'Takes: '}
+          </span>
+          {formatLeg(request.requestedShift)}
+        </p>
+      ) : (
+        <p className="text-muted-foreground">Takes: nothing (giveaway)</p>
+      )}
+    </div>
+  );
+}
+
 export function SwapRequestActions({ request, currentUserId, onClose }: SwapRequestActionsProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -48,7 +80,7 @@ export function SwapRequestActions({ request, currentUserId, onClose }: SwapRequ
         let error;
         try {
           const json = JSON.parse(text);
-          error = json.message || 'Failed to respond to swap request';
+          error = json.message || json.error || 'Failed to respond to swap request';
         } catch (e) {
           error = text || 'Failed to respond to swap request';
         }
@@ -57,12 +89,14 @@ export function SwapRequestActions({ request, currentUserId, onClose }: SwapRequ
 
       return res.json().catch(() => ({ success: true }));
     },
-    onSuccess: async (_, { status }) => {
+    onSuccess: async (data, { status }) => {
       await invalidateAndRefetchQueries();
 
       toast({
         title: 'Success',
-        description: `Successfully ${status} the shift swap request.`,
+        description: data?.request?.status === 'awaiting_approval'
+          ? 'Swap accepted. It will take effect once an admin approves it.'
+          : `Successfully ${status} the shift swap request.`,
       });
 
       if (onClose) {
@@ -91,7 +125,7 @@ export function SwapRequestActions({ request, currentUserId, onClose }: SwapRequ
         let error;
         try {
           const json = JSON.parse(text);
-          error = json.message || 'Failed to cancel request';
+          error = json.message || json.error || 'Failed to cancel request';
         } catch (e) {
           error = text || 'Failed to cancel request';
         }
@@ -128,56 +162,72 @@ export function SwapRequestActions({ request, currentUserId, onClose }: SwapRequ
   const isRequestee = currentUserId === request.recipientId;
   // If no currentUserId is provided, assume it's admin view
   const isAdminView = !currentUserId;
+  // Intents are settled through their swap chain and open postings by a
+  // claim, so only direct requests are answered here
+  const canRespond = (isRequestee || isAdminView) && (request.kind ?? 'direct') === 'direct';
+
+  const isAwaitingApproval = request.status === 'awaiting_approval';
 
-  if (request.status !== 'pending') {
-    return null; // Don't show any actions for non-pending requests
+  if (request.status !== 'pending' && !isAwaitingApproval) {
+    return <SwapLegs request={request} />; // No actions for settled requests
   }
 
   return (
-    <div className="flex items-center gap-2">
-      {/* Show Cancel button only for requestor */}
-      {isRequestor && (
-        <Button
-          variant="destructive"
-          size="sm"
-          className="gap-1"
-          onClick={() => {
-            if (confirm('Are you sure you want to cancel this swap request?')) {
-              cancelRequest();
-            }
-          }}
-          disabled={isPending || isCanceling}
-        >
-          <X className="h-4 w-4" />
-          {isCanceling ? 'Canceling...' : 'Cancel Request'}
-        </Button>
+    <div className="flex flex-col items-end gap-2">
+      <SwapLegs request={request} />
+      {isAwaitingApproval && (
+        <div className="text-sm text-right">
+          <p className="font-medium">Awaiting admin approval</p>
+          {request.approvalReasons?.map(reason => (
+            <p key={reason} className="text-muted-foreground">{reason}</p>
+          ))}
+        </div>
       )}
-
-      {/* Show Accept/Reject buttons only for requestee or admin */}
-      {(isRequestee || isAdminView) && (
-        <>
-          <Button
-            variant="outline"
-            size="sm"
-            className="gap-1"
-            onClick={() => respondToRequest({ status: 'accepted' })}
-            disabled={isPending || isCanceling}
-          >
-            <Check className="h-4 w-4" />
-            {isPending ? 'Processing...' : 'Accept'}
-          </Button>
+      <div className="flex items-center gap-2">
+        {/* Show Cancel button only for requestor */}
+        {isRequestor && (
           <Button
-            variant="outline"
+            variant="destructive"
             size="sm"
             className="gap-1"
-            onClick={() => respondToRequest({ status: 'rejected' })}
+            onClick={() => {
+              if (confirm('Are you sure you want to cancel this swap request?')) {
+                cancelRequest();
+              }
+            }}
             disabled={isPending || isCanceling}
           >
             <X className="h-4 w-4" />
-            {isPending ? 'Processing...' : 'Reject'}
+            {isCanceling ? 'Canceling...' : 'Cancel Request'}
           </Button>
-        </>
-      )}
+        )}
+  
+        {/* Show Accept/Reject buttons only for requestee or admin */}
+        {canRespond && !isAwaitingApproval && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => respondToRequest({ status: 'accepted' })}
+              disabled={isPending || isCanceling}
+            >
+              <Check className="h-4 w-4" />
+              {isPending ? 'Processing...' : 'Accept'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => respondToRequest({ status: 'rejected' })}
+              disabled={isPending || isCanceling}
+            >
+              <X className="h-4 w-4" />
+              {isPending ? 'Processing...' : 'Reject'}
+            </Button>
+          </>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
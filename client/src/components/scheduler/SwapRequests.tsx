@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Check, X, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
 import type { SwapRequest } from "@/lib/types";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { SwapRequestActions } from "./SwapRequestActions";
@@ -18,6 +19,7 @@ export function SwapRequests({ userId, variant = 'dashboard' }: Props) {
   const { toast } = useToast();
   const [error, setError] = useState<string | null>(null);
   const queryClient = useQueryClient();
+  const pollingFallback = usePollingFallback();
 
   // Fetch swap requests with consistent error handling
   const { data: swapRequests, isLoading } = useQuery<SwapRequest[]>({
@@ -92,11 +94,12 @@ export function SwapRequests({ userId, variant = 'dashboard' }: Props) {
       }
     },
     staleTime: 1000,
-    refetchInterval: 5000,
+    refetchInterval: pollingFallback,
   });
 
   // Filter requests based on user role and variant
   const filteredRequests = swapRequests?.filter(request => {
+    if (request.kind === 'open') return false; // shown on the open shift board
     if (!userId) return true; // Show all for admin view
     const isParticipant = request.recipientId === userId || request.requestorId === userId;
     return isParticipant;
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { FALLBACK_POLL_MS, liveSync, type LiveEvent, type LiveSyncStatus } from '../lib/live-sync';
+
+/**
+ * Keeps the live connection open while mounted. Reconnects when the signed-in
+ * user changes, so the socket receives that user's events. Pass undefined
+ * while the session is still loading and null when signed out.
+ */
+export function useLiveSync(userId: number | null | undefined) {
+  useEffect(() => {
+    if (userId === undefined) return;
+    liveSync.restart();
+    return () => liveSync.stop();
+  }, [userId]);
+}
+
+export function useLiveSyncStatus(): LiveSyncStatus {
+  return useSyncExternalStore(liveSync.subscribe, liveSync.getStatus);
+}
+
+/**
+ * A refetchInterval for queries the live connection keeps fresh: polls only
+ * while disconnected
+ */
+export function usePollingFallback(interval: number = FALLBACK_POLL_MS): number | false {
+  return useLiveSyncStatus() === 'connected' ? false : interval;
+}
+
+/**
+ * Calls the handler with each event on the shared connection, after the
+ * cache has been updated for it
+ */
+export function useLiveEvents(handler: (event: LiveEvent) => void) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => liveSync.listen(event => handlerRef.current(event)), []);
+}
@@ -1,5 +1,19 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import type { InsertUser, SelectUser } from "@db/schema";
+import type { InsertUser, SelectUser, UserRole } from "@db/schema";
+
+type LoginCredentials = Pick<InsertUser, 'username' | 'password'>;
+
+// Mirrors the server's role hierarchy in server/auth.ts
+const ROLE_RANK: Record<UserRole, number> = {
+  provider: 0,
+  scheduler: 1,
+  admin: 2,
+};
+
+export function hasRole(user: SelectUser | null | undefined, role: UserRole): boolean {
+  if (!user) return false;
+  return (ROLE_RANK[user.role] ?? -1) >= ROLE_RANK[role];
+}
 
 type RequestResult = {
   ok: true;
@@ -11,7 +25,7 @@ type RequestResult = {
 async function handleRequest(
   url: string,
   method: string,
-  body?: InsertUser
+  body?: InsertUser | LoginCredentials
 ): Promise<RequestResult> {
   try {
     const response = await fetch(url, {
@@ -66,7 +80,7 @@ export function useUser() {
     retry: false
   });
 
-  const loginMutation = useMutation<RequestResult, Error, InsertUser>({
+  const loginMutation = useMutation<RequestResult, Error, LoginCredentials>({
     mutationFn: (userData) => handleRequest('/api/login', 'POST', userData),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user'] });
@@ -0,0 +1,253 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+
+export type LiveSyncStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Queries poll at this interval only while the socket is down
+export const FALLBACK_POLL_MS = 5000;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+export interface LiveEvent {
+  type: string;
+  data?: any;
+  event?: string;
+  seq?: number;
+  epoch?: string;
+}
+
+// Events that only mean "refetch these"; the payloads are too partial to patch with
+const INVALIDATIONS: Record<string, string[]> = {
+  shift_swap_requested: ['/api/swap-requests'],
+  shift_swap_responded: ['/api/swap-requests', '/api/swap-approvals'],
+  shift_swap_cancelled: ['/api/swap-requests', '/api/swap-approvals'],
+  swap_approval_requested: ['/api/swap-approvals', '/api/swap-requests'],
+  swap_chain_proposed: ['/api/swap-chains'],
+  swap_chain_updated: ['/api/swap-chains'],
+  open_shift_posted: ['/api/open-shifts'],
+  open_shift_closed: ['/api/open-shifts', '/api/swap-requests'],
+  time_off_requested: ['/api/time-off-requests'],
+  time_off_responded: ['/api/time-off-requests', '/api/conflicts'],
+  time_off_cancelled: ['/api/time-off-requests', '/api/conflicts'],
+  notification: ['/api/notifications'],
+  users_updated: ['/api/users'],
+  schedule_published: ['/api/shifts', '/api/schedule-periods', '/api/conflicts', '/api/analytics'],
+};
+
+/**
+ * The app's one websocket connection. Server events become react-query cache
+ * patches and invalidations, so pages no longer poll while it is open.
+ * Sequence numbers let a reconnect replay what was missed, and the server
+ * asks for a full refetch when it cannot.
+ */
+export class LiveSync {
+  private socket: WebSocket | null = null;
+  private status: LiveSyncStatus = 'disconnected';
+  private listeners = new Set<() => void>();
+  private eventListeners = new Set<(event: LiveEvent) => void>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private active = false;
+  private lastSeq: number | null = null;
+  private epoch: string | null = null;
+  // Whether the current socket asked the server to replay missed events
+  private resuming = false;
+
+  constructor(private queryClient: QueryClient) {}
+
+  getStatus = (): LiveSyncStatus => this.status;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // For components that show events themselves, e.g. a notification feed
+  listen(listener: (event: LiveEvent) => void) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  start() {
+    this.active = true;
+    if (!this.socket) this.connect();
+  }
+
+  stop() {
+    this.active = false;
+    this.clearReconnect();
+    this.socket?.close();
+    this.socket = null;
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Opens a fresh socket, e.g. after sign-in or sign-out, since the server
+   * decides a socket's audience from the session when it connects
+   */
+  restart() {
+    const wasConnected = this.epoch !== null;
+    this.stop();
+    this.lastSeq = null;
+    this.epoch = null;
+    if (wasConnected) this.queryClient.invalidateQueries();
+    this.start();
+  }
+
+  private connect() {
+    this.clearReconnect();
+    this.setStatus('connecting');
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const params = new URLSearchParams();
+    this.resuming = false;
+    if (this.lastSeq !== null && this.epoch !== null) {
+      params.set('lastSeq', String(this.lastSeq));
+      params.set('epoch', this.epoch);
+      this.resuming = true;
+    }
+    const query = params.toString();
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws${query ? `?${query}` : ''}`);
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      try {
+        this.handle(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error handling live update:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus('disconnected');
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.active) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts, RECONNECT_MAX_MS);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: LiveSyncStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private handle(message: LiveEvent) {
+    switch (message.type) {
+      case 'connected':
+        this.attempts = 0;
+        // Without a position to resume from, the server cannot replay what
+        // was missed while disconnected, so everything cached may be stale
+        if (!this.resuming) {
+          if (this.epoch) this.queryClient.invalidateQueries();
+          this.epoch = message.epoch ?? null;
+          this.lastSeq = message.seq ?? null;
+        }
+        this.setStatus('connected');
+        return;
+      case 'resync_required':
+        this.epoch = message.epoch ?? null;
+        this.lastSeq = message.seq ?? null;
+        this.queryClient.invalidateQueries();
+        return;
+    }
+
+    if (typeof message.seq === 'number') {
+      this.lastSeq = Math.max(this.lastSeq ?? 0, message.seq);
+    }
+
+    switch (message.type) {
+      case 'shift_change':
+        this.applyShiftChange(message);
+        break;
+      case 'chat_message':
+        this.appendChatMessage(message.data);
+        break;
+      default:
+        INVALIDATIONS[message.type]?.forEach(prefix => this.invalidate(prefix));
+    }
+
+    this.eventListeners.forEach(listener => listener(message));
+  }
+
+  // Patches the full shift list in place; filtered shift queries and anything
+  // derived from shifts are refetched
+  private applyShiftChange(message: LiveEvent) {
+    // A batch carries several changes; any other event carries one
+    const changes: Array<{ action: string; shift: any }> = message.event === 'batch'
+      ? message.data?.changes ?? []
+      : message.data?.shift ? [message.data] : [];
+
+    if (message.event === 'cleared' || !changes.length) {
+      this.invalidate('/api/shifts');
+    } else {
+      this.queryClient.setQueryData<any[]>(['/api/shifts'], (current) => {
+        if (!Array.isArray(current)) return current;
+        const byId = new Map(current.map(existing => [existing.id, existing]));
+        changes.forEach(({ action, shift }) => {
+          const existing = byId.get(shift.id);
+          if (action === 'deleted') {
+            byId.delete(shift.id);
+          } else {
+            byId.set(shift.id, existing ? { ...existing, ...shift } : shift);
+          }
+        });
+        return Array.from(byId.values()).sort((a, b) => a.startDate.localeCompare(b.startDate));
+      });
+      this.invalidate('/api/shifts', key => key.length > 1 || key[0] !== '/api/shifts');
+    }
+
+    this.invalidate('/api/conflicts');
+    this.invalidate('/api/analytics');
+    // Draft counts per period and snapshot comparisons with the live schedule
+    this.invalidate('/api/schedule-periods');
+    this.invalidate('/api/schedule-snapshots');
+    // Per-provider shift histories; per-shift ones are covered above
+    this.invalidate('/api/users/', key => String(key[0]).endsWith('/shift-audit'));
+  }
+
+  private appendChatMessage(chatMessage: { id: number; roomId: number } | undefined) {
+    if (!chatMessage) return;
+    this.queryClient.setQueryData<any[]>(['/api/chat/messages', chatMessage.roomId], (current) => {
+      if (!Array.isArray(current) || current.some(existing => existing.id === chatMessage.id)) {
+        return current;
+      }
+      return [...current, chatMessage];
+    });
+  }
+
+  // Invalidates every query whose first key segment starts with the prefix
+  private invalidate(prefix: string, filter: (key: QueryKey) => boolean = () => true) {
+    this.queryClient.invalidateQueries({
+      predicate: query => {
+        const [head] = query.queryKey;
+        return typeof head === 'string' && head.startsWith(prefix) && filter(query.queryKey);
+      },
+    });
+  }
+}
+
+export const liveSync = new LiveSync(queryClient);
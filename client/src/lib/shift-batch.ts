@@ -0,0 +1,34 @@
+import type { ShiftOperation, ShiftOperationResult } from "./types";
+
+/**
+ * Sends shift creates, updates and deletes to be applied together. Nothing
+ * is changed when any of them fails, and the error says why for each one.
+ */
+export async function applyShiftBatch(
+  operations: ShiftOperation[],
+  conflictMode: 'reject' | 'warn' = 'warn'
+): Promise<ShiftOperationResult[]> {
+  const res = await fetch('/api/shifts/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ operations, conflictMode }),
+  });
+
+  const text = await res.text();
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error(text || 'Failed to update shifts');
+  }
+
+  if (!res.ok) {
+    const results: ShiftOperationResult[] = json.results ?? [];
+    const reasons = results.flatMap(result => [
+      ...result.errors,
+      ...result.conflicts.map(conflict => conflict.description),
+    ]);
+    throw new Error([json.details || json.error || 'Failed to update shifts', ...reasons].join('. '));
+  }
+  return json.results;
+}
@@ -5,10 +5,12 @@ export interface User {
   name: string;
   title: string;
   userType: 'physician' | 'app';
+  shiftType?: 'day' | 'night' | null;
   targetDays: number;
   tolerance?: number;
   maxConsecutiveWeeks: number;
   color: string;
+  role?: 'admin' | 'scheduler' | 'provider';
 }
 
 export interface Shift {
@@ -16,7 +18,9 @@ export interface Shift {
   userId: number;
   startDate: string;
   endDate: string;
-  status: 'confirmed' | 'pending_swap' | 'swapped' | 'archived';
+  // draft: only schedulers see it until its schedule period is published
+  status: 'draft' | 'confirmed' | 'pending_swap' | 'swapped' | 'archived';
+  periodId?: number | null;
   satisfactionScore?: number;
   schedulingNotes?: any;
   source?: 'manual';
@@ -29,8 +33,18 @@ export interface SwapRequest {
   requestorId: number;
   recipientId: number;
   shiftId: number;
-  status: 'pending' | 'accepted' | 'rejected';
+  requestedShiftId?: number | null; // null for a one-way giveaway
+  // awaiting_approval: both parties agreed; an admin must sign off first
+  status: 'pending' | 'awaiting_approval' | 'accepted' | 'rejected' | 'cancelled' | 'expired';
+  // intents are only settled through a swap chain; open postings by a claim
+  kind?: 'direct' | 'intent' | 'open';
+  chainId?: number | null;
   reason?: string;
+  expiresAt?: string | null;
+  approvalRuleId?: number | null;
+  approvalReasons?: string[] | null;
+  reviewedBy?: number | null;
+  reviewedAt?: string | null;
   createdAt: string;
   requestor: {
     name: string;
@@ -47,6 +61,182 @@ export interface SwapRequest {
     endDate: string;
     status: 'confirmed' | 'pending_swap' | 'swapped' | 'archived';
   };
+  requestedShift?: {
+    startDate: string;
+    endDate: string;
+    status: 'confirmed' | 'pending_swap' | 'swapped' | 'archived';
+  } | null;
+}
+
+export interface SchedulingRule {
+  id: number;
+  name: string;
+  description?: string | null;
+  priority: number;
+  conditions: Record<string, unknown>;
+  strategy: 'auto_reassign' | 'notify_admin' | 'suggest_swap' | 'enforce_rule' | 'require_approval';
+  isActive: boolean;
+}
+
+export interface SwapApproval extends SwapRequest {
+  approvalRule: Pick<SchedulingRule, 'id' | 'name' | 'priority'> | null;
+  // Set when the request is one of a swap chain's intents; approving or
+  // rejecting it settles the whole chain
+  chain: SwapChain | null;
+}
+
+export interface SwapChainParticipant {
+  id: number;
+  userId: number;
+  swapRequestId: number;
+  position: number;
+  response: 'pending' | 'accepted' | 'declined';
+  user: { id: number | null; name: string; title: string };
+  gives: Pick<Shift, 'id' | 'startDate' | 'endDate'> | null;
+  receives: Pick<Shift, 'id' | 'startDate' | 'endDate'> | null;
+}
+
+export interface SwapChain {
+  id: number;
+  status: 'proposed' | 'awaiting_approval' | 'committed' | 'declined' | 'cancelled';
+  createdAt: string;
+  committedAt?: string | null;
+  participants: SwapChainParticipant[];
+}
+
+export interface OpenShiftListing extends Omit<SwapRequest, 'shift' | 'requestor' | 'recipient'> {
+  shift: Pick<Shift, 'id' | 'userId' | 'startDate' | 'endDate' | 'status'>;
+  owner: { id: number | null; name: string; title: string };
+  eligibility?: {
+    eligible: boolean;
+    score: number;
+    reasons: string[];
+  };
+}
+
+export type SwapFactor =
+  | 'userTypeMatch'
+  | 'workloadBalance'
+  | 'scheduleCompatibility'
+  | 'policyCompliance'
+  | 'timeOffConflicts'
+  | 'historicalPatterns'
+  | 'preferenceMatch';
+
+export interface SwapCandidate {
+  userId: number;
+  name: string;
+  userType: 'physician' | 'app';
+  score: number;
+  factors: Record<SwapFactor, { value: number; weight: number; points: number }>;
+  reasons: string[];
+  warnings: string[];
+  blockers: string[];
+  eligible: boolean;
+}
+
+export interface SwapCandidates {
+  shiftId: number;
+  weights: Record<SwapFactor, number>;
+  candidates: SwapCandidate[];
+}
+
+export type CoverageGroup = 'physician' | 'app_day' | 'app_night';
+
+export interface ScheduleGeneration {
+  startDate: string;
+  endDate: string;
+  weeks: number;
+  shifts: Array<{ id?: number; userId: number; startDate: string; endDate: string }>;
+  replacedShiftIds: number[];
+  gaps: Array<{ startDate: string; endDate: string; group: CoverageGroup; reasons: string[] }>;
+  report: Array<{
+    userId: number;
+    name: string;
+    group: CoverageGroup;
+    targetDays: number;
+    tolerance: number;
+    keptDays: number;
+    generatedDays: number;
+    years: Array<{ year: number; scheduledDays: number; difference: number; withinTolerance: boolean }>;
+  }>;
+}
+
+export interface SchedulePeriod {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string; // exclusive
+  status: 'draft' | 'published';
+  publishedAt?: string | null;
+  // Shifts still waiting for the period to be published
+  draftShifts: number;
+}
+
+export interface ScheduleSnapshot {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string; // exclusive
+  createdBy: number | null;
+  createdAt: string;
+  shiftCount: number;
+}
+
+export type SnapshotShift = Pick<Shift, 'id' | 'userId' | 'startDate' | 'endDate' | 'status'>;
+
+export interface SnapshotShiftChange {
+  before: SnapshotShift;
+  after: SnapshotShift;
+}
+
+export interface ScheduleDiff {
+  startDate: string;
+  endDate: string;
+  // snapshotId is null for the live schedule
+  from: { snapshotId: number | null; name: string };
+  to: { snapshotId: number | null; name: string };
+  totals: { added: number; removed: number; reassigned: number; moved: number };
+  providers: Array<{
+    userId: number | null;
+    name: string;
+    added: SnapshotShift[];
+    removed: SnapshotShift[];
+    reassignedIn: SnapshotShiftChange[];
+    reassignedOut: SnapshotShiftChange[];
+    moved: SnapshotShiftChange[];
+  }>;
+}
+
+export type ShiftAuditAction = 'create' | 'update' | 'delete' | 'swap' | 'import';
+
+export interface ShiftAuditEntry {
+  id: number;
+  shiftId: number;
+  action: ShiftAuditAction;
+  actorId: number | null;
+  actor: { id: number | null; name: string; title: string } | null;
+  // Method and route the change came through, e.g. "PUT /api/shifts/:id"
+  source: string;
+  before: SnapshotShift | null;
+  after: SnapshotShift | null;
+  userIds: number[];
+  revertOf: number | null;
+  revertedBy: number | null;
+  createdAt: string;
+}
+
+export type ShiftOperation =
+  | { op: 'create'; userId: number; startDate: string; endDate: string; source?: string; schedulingNotes?: Record<string, unknown> }
+  | { op: 'update'; id: number; userId?: number; startDate?: string; endDate?: string }
+  | { op: 'delete'; id: number };
+
+export interface ShiftOperationResult {
+  index: number;
+  op: ShiftOperation['op'] | null;
+  shift: Shift | null;
+  errors: string[];
+  conflicts: Array<{ type: string; description: string }>;
 }
 
 export interface Holiday {
@@ -75,6 +265,8 @@ export interface UserPreferences {
   minDaysBetweenShifts: number;
   preferredDaysOfWeek: number[];
   avoidedDaysOfWeek: number[];
+  preferredCoworkers: number[];
+  preferredHolidays: string[];
   notificationPreferences: {
     emailNotifications: boolean;
     inAppNotifications: boolean;
@@ -4,14 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { ListFilter, UserPlus } from "lucide-react";
 import { Loader } from "@/components/ui/loader";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import type { Shift, User } from "@/lib/types";
 import { ChatDialog } from "@/components/scheduler/ChatDialog";
-import { useEffect } from "react";
 
 export function Dashboard() {
-  const queryClient = useQueryClient();
-
   const { data: shifts, isLoading: isLoadingShifts, error: shiftsError } = useQuery<Shift[]>({
     queryKey: ["/api/shifts"],
     queryFn: async () => {
@@ -34,41 +31,6 @@ export function Dashboard() {
     }
   });
 
-  // Update WebSocket connection for real-time updates
-  useEffect(() => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const websocket = new WebSocket(wsUrl);
-
-    websocket.onopen = () => {
-      console.log('WebSocket connected');
-      websocket.send(JSON.stringify({ type: 'auth', userId: 1 }));
-    };
-
-    websocket.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      console.log('WebSocket message received:', data);
-
-      if (data.type === 'shift_change' ||
-          data.type === 'shift_swap_responded') {
-        // Dispatch event to trigger calendar refresh
-        window.dispatchEvent(new Event('shiftChange'));
-
-        // Invalidate queries to ensure data consistency
-        queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
-      }
-    };
-
-    websocket.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    return () => {
-      websocket.close();
-    };
-  }, [queryClient]);
-
   const isLoading = isLoadingShifts || isLoadingUsers;
   const hasError = shiftsError || usersError;
 
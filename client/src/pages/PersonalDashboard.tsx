@@ -18,6 +18,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
 import { ShiftPreferences } from "@/components/scheduler/preferences/ShiftPreferences";
 import { SwapRequests } from "@/components/scheduler/SwapRequests"; // Import SwapRequests component
 
@@ -29,6 +30,14 @@ export function PersonalDashboard() {
   const [showPreferences, setShowPreferences] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const pollingFallback = usePollingFallback();
+
+  // Subscription URLs carry the viewer's calendar token so calendar apps can
+  // read the feed without a session
+  const { data: feedToken } = useQuery<{ token: string }>({
+    queryKey: ["/api/schedules/feed-token"],
+  });
+  const feedUrl = `${window.location.origin}/api/schedules/${userId}/feed?token=${feedToken?.token ?? ''}`;
 
   // Query time off requests for this user
   const { data: timeOffRequests } = useQuery<TimeOffRequest[]>({
@@ -100,7 +109,7 @@ export function PersonalDashboard() {
       }
     },
     staleTime: 1000, // Consider data fresh for 1 second
-    refetchInterval: 5000 // Refetch every 5 seconds
+    refetchInterval: pollingFallback // Poll only while the live connection is down
   });
 
   const handleShiftActions = (shift: Shift) => {
@@ -574,14 +583,14 @@ export function PersonalDashboard() {
                           <div className="flex items-center gap-2">
                             <Input
                               readOnly
-                              value={`${window.location.origin}/api/schedules/${userId}/feed`}
+                              value={feedUrl}
                               className="font-mono text-sm"
                             />
                             <Button
                               variant="outline"
                               size="icon"
                               onClick={() => {
-                                navigator.clipboard.writeText(`${window.location.origin}/api/schedules/${userId}/feed`);
+                                navigator.clipboard.writeText(feedUrl);
                                 toast({
                                   title: "Copied!",
                                   description: "Calendar subscription URL copied to clipboard",
@@ -1,5 +1,6 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLiveEvents, usePollingFallback } from "@/hooks/use-live-sync";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Activity, Server, HardDrive, Users } from "lucide-react";
@@ -17,40 +18,19 @@ interface ServerMetrics {
 }
 
 export function ServerHealth() {
-  const [ws, setWs] = useState<WebSocket | null>(null);
   const [realtimeMetrics, setRealtimeMetrics] = useState<ServerMetrics | null>(null);
 
   const { data: initialMetrics } = useQuery<ServerMetrics>({
     queryKey: ["/api/metrics"],
-    refetchInterval: 5000, // Fallback to polling if WebSocket fails
+    refetchInterval: usePollingFallback(),
   });
 
-  useEffect(() => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const websocket = new WebSocket(`${protocol}//${window.location.host}`);
-
-    websocket.onopen = () => {
-      console.log('WebSocket connected');
-      websocket.send(JSON.stringify({ type: 'auth', userId: 1 }));
-    };
-
-    websocket.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.type === 'metrics_update') {
-        setRealtimeMetrics(data.metrics);
-      }
-    };
-
-    websocket.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-
-    setWs(websocket);
-
-    return () => {
-      websocket.close();
-    };
-  }, []);
+  // Admins receive a metrics_update on the live connection every few seconds
+  useLiveEvents((event) => {
+    if (event.type === 'metrics_update') {
+      setRealtimeMetrics(event.data);
+    }
+  });
 
   const metrics = realtimeMetrics || initialMetrics;
 
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Calendar, Trash2 } from "lucide-react";
 import { useState } from "react";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
@@ -12,6 +12,37 @@ export function Settings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // The feed URL carries the user's calendar token, which calendar apps send
+  // instead of a session
+  const { data: feedToken } = useQuery<{ token: string }>({
+    queryKey: ["/api/schedules/feed-token"],
+  });
+  const feedUrl = `${window.location.origin}/api/schedules/export/all?token=${feedToken?.token ?? ''}`;
+
+  const resetFeedToken = async () => {
+    try {
+      const res = await fetch("/api/schedules/feed-token", {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error((await res.json()).error || "Failed to reset calendar URL");
+      }
+
+      queryClient.setQueryData(["/api/schedules/feed-token"], await res.json());
+      toast({
+        title: "Calendar URL reset",
+        description: "Calendars subscribed with the old URL will stop updating",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset calendar URL",
+        variant: "destructive",
+      });
+    }
+  };
+
   const clearShifts = async () => {
     try {
       console.log('Initiating calendar clear operation...');
@@ -40,9 +71,6 @@ export function Settings() {
         queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] })
       ]);
 
-      // Dispatch calendar refresh events
-      window.dispatchEvent(new Event('forceCalendarRefresh'));
-
       toast({
         title: "Success",
         description: response.message || `Successfully cleared shifts`,
@@ -108,14 +136,14 @@ export function Settings() {
                   <div className="flex items-center gap-2">
                     <Input
                       readOnly
-                      value={`${window.location.origin}/api/schedules/export/all`}
+                      value={feedUrl}
                       className="font-mono text-sm"
                     />
                     <Button
                       variant="outline"
                       size="icon"
                       onClick={() => {
-                        navigator.clipboard.writeText(`${window.location.origin}/api/schedules/export/all`);
+                        navigator.clipboard.writeText(feedUrl);
                         toast({
                           title: "Copied!",
                           description: "Calendar URL copied to clipboard",
@@ -128,7 +156,11 @@ export function Settings() {
                   <p className="text-sm text-muted-foreground">
                     This URL includes all shifts in iCalendar format. You can add this to
                     calendar applications like Google Calendar, Apple Calendar, or Outlook.
+                    It is personal to you; reset it if it has been shared.
                   </p>
+                  <Button variant="outline" onClick={resetFeedToken}>
+                    Reset Calendar URL
+                  </Button>
                 </div>
               </div>
             </div>
@@ -24,14 +24,18 @@ import {
 import { Link } from "wouter";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
 import type { SwapRequest } from "@/lib/types";
 import { SwapRequestActions } from "@/components/scheduler/SwapRequestActions";
+import { SwapChains } from "@/components/scheduler/SwapChains";
+import { OpenShiftBoard } from "@/components/scheduler/OpenShiftBoard";
 
 export function SwapRequestsDashboard() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [userFilter, setUserFilter] = useState<string>("all");
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const pollingFallback = usePollingFallback();
 
   // Fetch all swap requests (no userId filter for admin view)
   const { data: requests, isLoading } = useQuery<SwapRequest[]>({
@@ -81,10 +85,12 @@ export function SwapRequestsDashboard() {
       }
     },
     staleTime: 1000,
-    refetchInterval: 5000,
+    refetchInterval: pollingFallback,
   });
 
   const filteredRequests = requests?.filter(request => {
+    // Open postings have no recipient and are listed on the board instead
+    if (request.kind === 'open') return false;
     if (statusFilter !== "all" && request.status !== statusFilter) return false;
     if (userFilter !== "all" &&
         request.requestorId.toString() !== userFilter &&
@@ -175,8 +181,11 @@ export function SwapRequestsDashboard() {
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="awaiting_approval">Awaiting Approval</SelectItem>
                   <SelectItem value="accepted">Accepted</SelectItem>
                   <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="expired">Expired</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -228,7 +237,7 @@ export function SwapRequestsDashboard() {
                           {getRequestorName(request)} requested to swap shift with {getRecipientName(request)} {formatShiftDates(request)}
                         </p>
                         <p className="text-sm font-medium capitalize">
-                          Status: {request.status || 'pending'}
+                          Status: {(request.status || 'pending').replace('_', ' ')}
                         </p>
                       </div>
                     </div>
@@ -244,6 +253,10 @@ export function SwapRequestsDashboard() {
           )}
         </CardContent>
       </Card>
+
+      <OpenShiftBoard />
+
+      <SwapChains />
     </div>
   );
 }
\ No newline at end of file
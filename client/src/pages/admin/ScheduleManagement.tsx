@@ -4,10 +4,19 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Clock, Calendar, Bell, UserCheck, AlertTriangle } from "lucide-react";
 import { ShiftPreferences } from "@/components/scheduler/preferences/ShiftPreferences";
+import { ScheduleGenerator } from "@/components/scheduler/ScheduleGenerator";
+import { SchedulePeriods } from "@/components/scheduler/SchedulePeriods";
+import { ScheduleSnapshots } from "@/components/scheduler/ScheduleSnapshots";
+import { ProviderShiftHistory } from "@/components/scheduler/ShiftHistory";
 
 export function ScheduleManagement() {
   return (
-    <div className="container mx-auto p-4 md:py-6">
+    <div className="container mx-auto p-4 md:py-6 space-y-6">
+      <SchedulePeriods />
+      <ScheduleGenerator />
+      <ScheduleSnapshots />
+      <ProviderShiftHistory />
+
       <Card>
         <CardHeader>
           <CardTitle>Schedule Rules</CardTitle>
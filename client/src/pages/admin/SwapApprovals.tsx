@@ -0,0 +1,201 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, ShieldCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePollingFallback } from "@/hooks/use-live-sync";
+import { SwapLegs } from "@/components/scheduler/SwapRequestActions";
+import type { SchedulingRule, SwapApproval, SwapChainParticipant } from "@/lib/types";
+
+const formatShift = (shift: SwapChainParticipant['gives']) =>
+  shift
+    ? `${format(new Date(shift.startDate), 'MMM d')} - ${format(new Date(shift.endDate), 'MMM d, yyyy')}`
+    : 'Shift unavailable';
+
+const describeConditions = (conditions: Record<string, any>) => {
+  const parts: string[] = [];
+  if (conditions.holidays?.length) {
+    parts.push(`covers ${conditions.holidays.map((h: { name?: string; date: string }) => h.name ?? h.date).join(', ')}`);
+  }
+  if (conditions.crossMonth) parts.push('crosses pay periods');
+  if (conditions.minLengthDifferenceDays) {
+    parts.push(`lengths differ by ${conditions.minLengthDifferenceDays}+ days`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Swaps both providers accepted, open shift claims and swap chains that a
+ * require_approval rule held for sign-off. The shifts are only reassigned
+ * once approved here.
+ */
+export function SwapApprovals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const pollingFallback = usePollingFallback();
+
+  const { data: approvals = [], isLoading } = useQuery<SwapApproval[]>({
+    queryKey: ["/api/swap-approvals"],
+    staleTime: 1000,
+    refetchInterval: pollingFallback,
+  });
+
+  const { data: rules = [] } = useQuery<SchedulingRule[]>({
+    queryKey: ["/api/scheduling-rules"],
+  });
+  const approvalRules = rules.filter(rule => rule.strategy === 'require_approval' && rule.isActive);
+
+  const { mutate: review, isPending } = useMutation({
+    mutationFn: async ({ id, decision }: { id: number; decision: 'approve' | 'reject' }) => {
+      const res = await fetch(`/api/swap-approvals/${id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const text = await res.text();
+      if (!res.ok) {
+        let error;
+        try {
+          const json = JSON.parse(text);
+          error = json.details || json.message || json.error || 'Failed to review swap';
+        } catch (e) {
+          error = text || 'Failed to review swap';
+        }
+        throw new Error(error);
+      }
+
+      return JSON.parse(text) as { message: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+
+      toast({ title: 'Success', description: data.message });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-approvals"] });
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="container mx-auto p-4 md:py-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Swap Approvals
+          </CardTitle>
+          <CardDescription>
+            Swaps both providers agreed to that need final sign-off before the shifts are reassigned
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-4">Loading approvals...</div>
+          ) : !approvals.length ? (
+            <div className="text-center py-4 text-muted-foreground">
+              No swaps are waiting for approval
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {approvals.map(approval => (
+                <div key={approval.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        {approval.chain
+                          ? `Swap chain between ${approval.chain.participants.map(p => p.user.name).join(', ')}`
+                          : approval.kind === 'open'
+                            ? `${approval.recipient?.name} claiming from ${approval.requestor?.name}`
+                            : `${approval.requestor?.name} and ${approval.recipient?.name}`}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Requested {format(new Date(approval.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                      </p>
+                    </div>
+                    {approval.approvalRule && (
+                      <Badge variant="secondary">{approval.approvalRule.name}</Badge>
+                    )}
+                  </div>
+
+                  {approval.chain ? (
+                    <ul className="text-sm space-y-0.5">
+                      {approval.chain.participants.map(participant => (
+                        <li key={participant.id}>
+                          <span className="font-medium">{participant.user.name}</span>
+                          {' '}gives {formatShift(participant.gives)}, takes {formatShift(participant.receives)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <SwapLegs request={approval} />
+                  )}
+
+                  {!!approval.approvalReasons?.length && (
+                    <ul className="list-disc pl-6 text-sm text-muted-foreground">
+                      {approval.approvalReasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => review({ id: approval.id, decision: 'reject' })}
+                      disabled={isPending}
+                    >
+                      <X className="h-4 w-4" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => review({ id: approval.id, decision: 'approve' })}
+                      disabled={isPending}
+                    >
+                      <Check className="h-4 w-4" />
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approval Rules</CardTitle>
+          <CardDescription>
+            Active scheduling rules with the require_approval strategy, highest priority first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!approvalRules.length ? (
+            <div className="text-center py-4 text-muted-foreground">
+              No approval rules are active; accepted swaps take effect immediately
+            </div>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {approvalRules.map(rule => (
+                <li key={rule.id} className="flex items-center justify-between gap-4">
+                  <span>
+                    <span className="font-medium">{rule.name}</span>
+                    {rule.description ? ` · ${rule.description}` : ''}
+                  </span>
+                  <span className="text-muted-foreground">{describeConditions(rule.conditions)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
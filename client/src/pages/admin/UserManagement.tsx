@@ -71,7 +71,10 @@ export function UserManagement() {
         body: JSON.stringify(data),
       });
 
-      if (!res.ok) throw new Error("Failed to save user");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.details ?? body?.error ?? "Failed to save user");
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -98,14 +101,17 @@ export function UserManagement() {
       const res = await fetch(`/api/users/${userId}`, {
         method: "DELETE",
       });
-      if (!res.ok) throw new Error("Failed to delete user");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.details ?? body?.error ?? "Failed to deactivate user");
+      }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { message: string; futureShifts: unknown[] }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       toast({
-        title: "Success",
-        description: "User deleted successfully",
+        title: result.futureShifts.length ? "Shifts need reassignment" : "Success",
+        description: result.message,
       });
       setDeleteUserDialogOpen(false);
       setSelectedUser(null);
@@ -125,9 +131,13 @@ export function UserManagement() {
     const formData = new FormData(form);
 
     const data = {
+      username: formData.get("username"),
+      // Left blank when editing to keep the current password
+      password: formData.get("password") || undefined,
       name: formData.get("name"),
       title: formData.get("title"),
       userType: formData.get("userType"),
+      role: formData.get("role"),
       shiftType: formData.get("userType") === "app" ? formData.get("shiftType") : null,
       targetDays: parseInt(formData.get("targetDays") as string),
       tolerance: parseInt(formData.get("tolerance") as string),
@@ -178,9 +188,14 @@ export function UserManagement() {
                     style={{ backgroundColor: user.color }}
                   />
                   <div>
-                    <p className="font-medium">{user.name}</p>
+                    <p className="font-medium">
+                      {user.name}
+                      {!user.isActive && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">(Deactivated)</span>
+                      )}
+                    </p>
                     <p className="text-sm text-muted-foreground">
-                      {user.title} • {user.userType.toUpperCase()}
+                      {user.title} • {user.userType.toUpperCase()} • {user.role}
                     </p>
                   </div>
                 </div>
@@ -196,17 +211,19 @@ export function UserManagement() {
                   >
                     <Edit className="h-4 w-4" />
                   </Button>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    className="text-destructive"
-                    onClick={() => {
-                      setSelectedUser(user.id);
-                      setDeleteUserDialogOpen(true);
-                    }}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {user.isActive && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="text-destructive"
+                      onClick={() => {
+                        setSelectedUser(user.id);
+                        setDeleteUserDialogOpen(true);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
@@ -235,6 +252,30 @@ export function UserManagement() {
             <TabsContent value="details">
               <form id="userForm" onSubmit={handleSubmit}>
                 <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        name="username"
+                        autoComplete="off"
+                        defaultValue={currentUser?.username}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        name="password"
+                        type="password"
+                        autoComplete="new-password"
+                        minLength={8}
+                        placeholder={selectedUser ? "Leave blank to keep current" : undefined}
+                        required={!selectedUser}
+                      />
+                    </div>
+                  </div>
                   <div>
                     <Label htmlFor="name">Name</Label>
                     <Input
@@ -270,6 +311,58 @@ export function UserManagement() {
                       </SelectContent>
                     </Select>
                   </div>
+                  <div>
+                    <Label htmlFor="role">Role</Label>
+                    <Select
+                      name="role"
+                      defaultValue={currentUser?.role ?? "provider"}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="provider">Provider</SelectItem>
+                        <SelectItem value="scheduler">Scheduler</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="targetDays">Target Days / Year</Label>
+                      <Input
+                        id="targetDays"
+                        name="targetDays"
+                        type="number"
+                        min={0}
+                        defaultValue={currentUser?.targetDays}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="tolerance">Tolerance (days)</Label>
+                      <Input
+                        id="tolerance"
+                        name="tolerance"
+                        type="number"
+                        min={0}
+                        defaultValue={currentUser?.tolerance ?? 0}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="maxConsecutiveWeeks">Max Consecutive Weeks</Label>
+                      <Input
+                        id="maxConsecutiveWeeks"
+                        name="maxConsecutiveWeeks"
+                        type="number"
+                        min={1}
+                        defaultValue={currentUser?.maxConsecutiveWeeks}
+                        required
+                      />
+                    </div>
+                  </div>
                   {currentUser?.userType === "app" && (
                     <div>
                       <Label htmlFor="shiftType">Shift Type</Label>
@@ -334,10 +427,11 @@ export function UserManagement() {
       <AlertDialog open={deleteUserDialogOpen} onOpenChange={setDeleteUserDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete User</AlertDialogTitle>
+            <AlertDialogTitle>Deactivate User</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this user? This action cannot be undone.
-              All associated shifts and preferences will also be deleted.
+              The user will no longer be able to sign in or be assigned new shifts.
+              Past shifts are kept for reporting; any upcoming shifts will be listed
+              so they can be reassigned.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -347,7 +441,7 @@ export function UserManagement() {
               onClick={() => selectedUser && deleteUser(selectedUser)}
               disabled={isDeletingUser}
             >
-              {isDeletingUser ? "Deleting..." : "Delete User"}
+              {isDeletingUser ? "Deactivating..." : "Deactivate User"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
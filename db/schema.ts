@@ -7,12 +7,43 @@ import type { InferModel } from "drizzle-orm";
 export const TimeOffRequestStatus = ['pending', 'approved', 'rejected'] as const;
 export type TimeOffRequestStatus = typeof TimeOffRequestStatus[number];
 
-export const ShiftStatus = ['confirmed', 'pending_swap', 'swapped', 'archived'] as const;
+// draft: part of a schedule period that has not been published yet, so only
+// schedulers can see it
+export const ShiftStatus = ['draft', 'confirmed', 'pending_swap', 'swapped', 'archived'] as const;
 export type ShiftStatus = typeof ShiftStatus[number];
 
+// pending is the only open state; the others are terminal
+// awaiting_approval: both parties agreed, but a require_approval scheduling
+// rule matched and an admin has to sign off before anything is reassigned
+export const SwapRequestStatus = ['pending', 'awaiting_approval', 'accepted', 'rejected', 'cancelled', 'expired'] as const;
+export type SwapRequestStatus = typeof SwapRequestStatus[number];
+
+// direct: addressed to one recipient who accepts or rejects it.
+// intent: a standing "offer this shift, want that one" that is only ever
+// settled as part of a swap chain.
+// open: a giveaway posted to everyone; the first eligible claim takes it.
+export const SwapRequestKind = ['direct', 'intent', 'open'] as const;
+export type SwapRequestKind = typeof SwapRequestKind[number];
+
+export const SchedulePeriodStatus = ['draft', 'published'] as const;
+export type SchedulePeriodStatus = typeof SchedulePeriodStatus[number];
+
+// What an audit entry records having happened to a shift. Reverting a change
+// is itself recorded as a create, update or delete.
+export const ShiftAuditAction = ['create', 'update', 'delete', 'swap', 'import'] as const;
+export type ShiftAuditAction = typeof ShiftAuditAction[number];
+
 export const UserType = ['physician', 'app'] as const;
 export type UserType = typeof UserType[number];
 
+// Which half of the day an APP covers; physicians cover all of it
+export const ShiftType = ['day', 'night'] as const;
+export type ShiftType = typeof ShiftType[number];
+
+// Each role includes the permissions of the roles listed after it
+export const UserRole = ['admin', 'scheduler', 'provider'] as const;
+export type UserRole = typeof UserRole[number];
+
 export const MessageType = ['text', 'shift_swap', 'urgent_coverage'] as const;
 export type MessageType = typeof MessageType[number];
 
@@ -23,10 +54,18 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   title: text("title").notNull(),
   userType: text("user_type").notNull(),
+  shiftType: text("shift_type", { enum: ShiftType }), // APPs only; unset counts as day
   targetDays: integer("target_days").notNull(),
   tolerance: integer("tolerance").default(0),
   maxConsecutiveWeeks: integer("max_consecutive_weeks").notNull(),
   color: text("color").notNull(),
+  role: text("role", { enum: UserRole }).notNull().default('provider'),
+  // Users are deactivated rather than deleted so historical shifts keep their owner
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  // Secret that lets calendar apps read the user's feeds without a session;
+  // created on first use
+  calendarToken: text("calendar_token").unique(),
 });
 
 export const shifts = pgTable("shifts", {
@@ -35,19 +74,76 @@ export const shifts = pgTable("shifts", {
   startDate: date("start_date").notNull(),
   endDate: date("end_date").notNull(),
   status: text("status", { enum: ShiftStatus }).notNull().default('confirmed'),
-  source: text("source").default('manual'),
+  source: text("source").default('manual'), // manual, qgenda or generated
+  // The schedule period the shift was drafted in; unset for shifts that were
+  // live from the start
+  periodId: integer("period_id").references(() => schedulePeriods.id),
   schedulingNotes: jsonb("scheduling_notes").default({}),
+  sequence: integer("sequence").notNull().default(0), // iCalendar SEQUENCE, bumped on every change
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A stretch of the schedule that is planned in private. Shifts created inside
+// a draft period stay drafts until the period is published.
+export const schedulePeriods = pgTable("schedule_periods", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(), // exclusive, like shift end dates
+  status: text("status", { enum: SchedulePeriodStatus }).notNull().default('draft'),
+  createdBy: integer("created_by").references(() => users.id),
+  publishedBy: integer("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// The shifts overlapping a date range as they were at one moment, so the
+// range can be compared with later versions or rolled back to it
+export const scheduleSnapshots = pgTable("schedule_snapshots", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(), // exclusive
+  shifts: jsonb("shifts").$type<SnapshotShift[]>().notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One change to one shift: who made it, through which route, and the shift
+// before and after. shiftId is not a reference so that the history of
+// deleted shifts is kept.
+export const shiftAuditEntries = pgTable("shift_audit_entries", {
+  id: serial("id").primaryKey(),
+  shiftId: integer("shift_id").notNull(),
+  action: text("action", { enum: ShiftAuditAction }).notNull(),
+  actorId: integer("actor_id").references(() => users.id), // null for changes nobody asked for directly
+  source: text("source").notNull(), // e.g. "PUT /api/shifts/:id"
+  before: jsonb("before").$type<SnapshotShift | null>(), // null when the shift was created
+  after: jsonb("after").$type<SnapshotShift | null>(), // null when the shift was deleted
+  // Owners before and after, for browsing a provider's history
+  userIds: integer("user_ids").array().notNull(),
+  revertOf: integer("revert_of"), // the entry this change undid
+  revertedBy: integer("reverted_by"), // the entry that undid this change
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const swapRequests = pgTable("swap_requests", {
   id: serial("id").primaryKey(),
   requestorId: integer("requestor_id").references(() => users.id),
-  recipientId: integer("recipient_id").references(() => users.id),
-  shiftId: integer("shift_id").references(() => shifts.id),
-  status: text("status").notNull().default('pending'),
+  recipientId: integer("recipient_id").references(() => users.id), // null on an open posting until claimed
+  shiftId: integer("shift_id").references(() => shifts.id), // offered by the requestor
+  requestedShiftId: integer("requested_shift_id").references(() => shifts.id), // wanted from the recipient; null for a giveaway
+  status: text("status", { enum: SwapRequestStatus }).notNull().default('pending'),
+  kind: text("kind", { enum: SwapRequestKind }).notNull().default('direct'),
+  chainId: integer("chain_id").references(() => swapChains.id), // set while an intent is part of a proposed chain
   reason: text("reason"),
+  expiresAt: timestamp("expires_at"), // pending requests past this are expired by the sweep
+  approvalRuleId: integer("approval_rule_id").references(() => schedulingRules.id), // highest-priority rule that held the swap for approval
+  approvalReasons: text("approval_reasons").array(),
+  reviewedBy: integer("reviewed_by").references(() => users.id), // admin who approved or rejected it
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -62,14 +158,39 @@ export const timeOffRequests = pgTable("time_off_requests", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export interface NotificationPreferences {
+  emailNotifications: boolean;
+  inAppNotifications: boolean;
+  notifyOnNewShifts: boolean;
+  notifyOnSwapRequests: boolean;
+  notifyOnTimeOffUpdates: boolean;
+  notifyBeforeShift: number; // hours
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailNotifications: true,
+  inAppNotifications: true,
+  notifyOnNewShifts: true,
+  notifyOnSwapRequests: true,
+  notifyOnTimeOffUpdates: true,
+  notifyBeforeShift: 24,
+};
+
 export const userPreferences = pgTable("user_preferences", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => users.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
   preferredShiftLength: integer("preferred_shift_length").notNull().default(7),
   maxShiftsPerWeek: integer("max_shifts_per_week").notNull().default(1),
   minDaysBetweenShifts: integer("min_days_between_shifts").notNull().default(0),
   preferredDaysOfWeek: int("preferred_days_of_week").array().notNull().default([]),
   avoidedDaysOfWeek: int("avoided_days_of_week").array().notNull().default([]),
+  preferredCoworkers: int("preferred_coworkers").array().notNull().default([]),
+  preferredHolidays: text("preferred_holidays").array().notNull().default([]),
+  defaultView: text("default_view").notNull().default('dayGridMonth'),
+  notificationPreferences: jsonb("notification_preferences")
+    .$type<NotificationPreferences>()
+    .notNull()
+    .default(DEFAULT_NOTIFICATION_PREFERENCES),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -120,7 +241,16 @@ export const shiftsRelations = relations(shifts, ({ one, many }) => ({
     fields: [shifts.userId],
     references: [users.id],
   }),
-  swapRequests: many(swapRequests),
+  period: one(schedulePeriods, {
+    fields: [shifts.periodId],
+    references: [schedulePeriods.id],
+  }),
+  swapRequests: many(swapRequests, { relationName: "offered_shift" }),
+  requestedInSwaps: many(swapRequests, { relationName: "requested_shift" }),
+}));
+
+export const schedulePeriodsRelations = relations(schedulePeriods, ({ many }) => ({
+  shifts: many(shifts),
 }));
 
 export const timeOffRequestsRelations = relations(timeOffRequests, ({ one }) => ({
@@ -144,6 +274,20 @@ export const swapRequestsRelations = relations(swapRequests, ({ one }) => ({
   shift: one(shifts, {
     fields: [swapRequests.shiftId],
     references: [shifts.id],
+    relationName: "offered_shift",
+  }),
+  requestedShift: one(shifts, {
+    fields: [swapRequests.requestedShiftId],
+    references: [shifts.id],
+    relationName: "requested_shift",
+  }),
+  chain: one(swapChains, {
+    fields: [swapRequests.chainId],
+    references: [swapChains.id],
+  }),
+  approvalRule: one(schedulingRules, {
+    fields: [swapRequests.approvalRuleId],
+    references: [schedulingRules.id],
   }),
 }));
 
@@ -180,7 +324,14 @@ export const roomMembersRelations = relations(roomMembers, ({ one }) => ({
 
 // Define models
 export type User = InferModel<typeof users>;
+export type SelectUser = User;
+export type InsertUser = InferModel<typeof users, 'insert'>;
 export type Shift = InferModel<typeof shifts>;
+export type SchedulePeriod = InferModel<typeof schedulePeriods>;
+export type ScheduleSnapshot = InferModel<typeof scheduleSnapshots>;
+export type ShiftAuditEntry = InferModel<typeof shiftAuditEntries>;
+// What snapshots and audit entries keep of each shift
+export type SnapshotShift = Pick<Shift, 'id' | 'userId' | 'startDate' | 'endDate' | 'status' | 'source' | 'schedulingNotes' | 'periodId'>;
 export type SwapRequest = InferModel<typeof swapRequests>;
 export type TimeOffRequest = InferModel<typeof timeOffRequests>;
 export type UserPreferences = InferModel<typeof userPreferences>;
@@ -195,6 +346,15 @@ export const selectUserSchema = createSelectSchema(users);
 export const insertShiftSchema = createInsertSchema(shifts);
 export const selectShiftSchema = createSelectSchema(shifts);
 
+export const insertSchedulePeriodSchema = createInsertSchema(schedulePeriods);
+export const selectSchedulePeriodSchema = createSelectSchema(schedulePeriods);
+
+export const insertScheduleSnapshotSchema = createInsertSchema(scheduleSnapshots);
+export const selectScheduleSnapshotSchema = createSelectSchema(scheduleSnapshots);
+
+export const insertShiftAuditEntrySchema = createInsertSchema(shiftAuditEntries);
+export const selectShiftAuditEntrySchema = createSelectSchema(shiftAuditEntries);
+
 export const insertSwapRequestSchema = createInsertSchema(swapRequests);
 export const selectSwapRequestSchema = createSelectSchema(swapRequests);
 
@@ -217,7 +377,9 @@ export const selectRoomMemberSchema = createSelectSchema(roomMembers);
 export const ConflictType = ['overlap', 'consecutive_shifts', 'overtime', 'understaffed'] as const;
 export type ConflictType = typeof ConflictType[number];
 
-export const ResolutionStrategy = ['auto_reassign', 'notify_admin', 'suggest_swap', 'enforce_rule'] as const;
+// require_approval rules do not resolve conflicts; they hold accepted swaps
+// for admin sign-off (see SwapApprovalConditions)
+export const ResolutionStrategy = ['auto_reassign', 'notify_admin', 'suggest_swap', 'enforce_rule', 'require_approval'] as const;
 export type ResolutionStrategy = typeof ResolutionStrategy[number];
 
 export const ConflictStatus = ['detected', 'resolving', 'resolved', 'escalated'] as const;
@@ -262,6 +424,7 @@ export const resolutionAttempts = pgTable("resolution_attempts", {
 // Add relations
 export const schedulingRulesRelations = relations(schedulingRules, ({ many }) => ({
   conflicts: many(conflicts),
+  swapRequests: many(swapRequests),
 }));
 
 export const conflictsRelations = relations(conflicts, ({ one, many }) => ({
@@ -272,6 +435,13 @@ export const conflictsRelations = relations(conflicts, ({ one, many }) => ({
   resolutionAttempts: many(resolutionAttempts),
 }));
 
+export const resolutionAttemptsRelations = relations(resolutionAttempts, ({ one }) => ({
+  conflict: one(conflicts, {
+    fields: [resolutionAttempts.conflictId],
+    references: [conflicts.id],
+  }),
+}));
+
 // Add new types
 export type SchedulingRule = InferModel<typeof schedulingRules>;
 export type Conflict = InferModel<typeof conflicts>;
@@ -348,4 +518,59 @@ export const insertNotificationSubscriptionSchema = createInsertSchema(notificat
 export const selectNotificationSubscriptionSchema = createSelectSchema(notificationSubscriptions);
 
 export const insertNotificationSchema = createInsertSchema(notifications);
-export const selectNotificationSchema = createSelectSchema(notifications);
\ No newline at end of file
+export const selectNotificationSchema = createSelectSchema(notifications);
+
+// Swap chains: cycles of intents where every participant gets the shift they
+// asked for and no pair could have traded on their own. awaiting_approval:
+// everyone accepted, but a require_approval rule holds it for an admin.
+export const SwapChainStatus = ['proposed', 'awaiting_approval', 'committed', 'declined', 'cancelled'] as const;
+export type SwapChainStatus = typeof SwapChainStatus[number];
+
+export const SwapChainResponse = ['pending', 'accepted', 'declined'] as const;
+export type SwapChainResponse = typeof SwapChainResponse[number];
+
+export const swapChains = pgTable("swap_chains", {
+  id: serial("id").primaryKey(),
+  status: text("status", { enum: SwapChainStatus }).notNull().default('proposed'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  committedAt: timestamp("committed_at"),
+});
+
+// One row per intent in the chain; position orders the cycle, so each
+// participant receives the shift offered by the next one
+export const swapChainParticipants = pgTable("swap_chain_participants", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").references(() => swapChains.id).notNull(),
+  swapRequestId: integer("swap_request_id").references(() => swapRequests.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  position: integer("position").notNull(),
+  response: text("response", { enum: SwapChainResponse }).notNull().default('pending'),
+  respondedAt: timestamp("responded_at"),
+});
+
+export const swapChainsRelations = relations(swapChains, ({ many }) => ({
+  participants: many(swapChainParticipants),
+  intents: many(swapRequests),
+}));
+
+export const swapChainParticipantsRelations = relations(swapChainParticipants, ({ one }) => ({
+  chain: one(swapChains, {
+    fields: [swapChainParticipants.chainId],
+    references: [swapChains.id],
+  }),
+  intent: one(swapRequests, {
+    fields: [swapChainParticipants.swapRequestId],
+    references: [swapRequests.id],
+  }),
+  user: one(users, {
+    fields: [swapChainParticipants.userId],
+    references: [users.id],
+  }),
+}));
+
+export type SwapChain = InferModel<typeof swapChains>;
+export type SwapChainParticipant = InferModel<typeof swapChainParticipants>;
+
+export const insertSwapChainSchema = createInsertSchema(swapChains);
+export const selectSwapChainSchema = createSelectSchema(swapChains);
@@ -1,12 +1,18 @@
 import passport from "passport";
 import { IVerifyOptions, Strategy as LocalStrategy } from "passport-local";
-import { type Express } from "express";
+import { type Express, type Request, type RequestHandler } from "express";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { users, insertUserSchema, type User as SelectUser } from "@db/schema";
+import {
+  users,
+  insertUserSchema,
+  UserRole,
+  type User as SelectUser
+} from "@db/schema";
 import { db } from "@db";
+import { userDirectory } from "./services/user-directory";
 import { eq } from "drizzle-orm";
 
 const scryptAsync = promisify(scrypt);
@@ -35,7 +41,73 @@ declare global {
   }
 }
 
-export function setupAuth(app: Express) {
+// Written by passport.serializeUser; read directly when authenticating sockets
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  provider: 0,
+  scheduler: 1,
+  admin: 2,
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const loginSchema = insertUserSchema.pick({ username: true, password: true });
+
+/**
+ * Roles are hierarchical: an admin can do everything a scheduler can, and a
+ * scheduler everything a provider can
+ */
+export function hasRole(user: { role?: UserRole } | undefined, role: UserRole): boolean {
+  if (!user?.role) return false;
+  return (ROLE_RANK[user.role] ?? -1) >= ROLE_RANK[role];
+}
+
+/**
+ * Whether the session user may act on a record owned by `userId`: either it
+ * is their own, or they hold `role`
+ */
+export function canActFor(req: Request, userId: number | null | undefined, role: UserRole = 'scheduler'): boolean {
+  if (!req.isAuthenticated()) return false;
+  return (userId != null && req.user.id === userId) || hasRole(req.user, role);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return crypto.hash(password);
+}
+
+export function toPublicUser({ password, calendarToken, ...user }: SelectUser) {
+  return user;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  next();
+};
+
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: "Forbidden", details: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Installs sessions and passport, and returns the session middleware so the
+ * websocket upgrade can read the same cookie
+ */
+export function setupAuth(app: Express): RequestHandler {
   const MemoryStore = createMemoryStore(session);
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID || "porygon-supremacy",
@@ -54,7 +126,8 @@ export function setupAuth(app: Express) {
     };
   }
 
-  app.use(session(sessionSettings));
+  const sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -70,6 +143,9 @@ export function setupAuth(app: Express) {
         if (!user) {
           return done(null, false, { message: "Incorrect username." });
         }
+        if (!user.isActive) {
+          return done(null, false, { message: "Account deactivated." });
+        }
         const isMatch = await crypto.compare(password, user.password);
         if (!isMatch) {
           return done(null, false, { message: "Incorrect password." });
@@ -92,7 +168,8 @@ export function setupAuth(app: Express) {
         .from(users)
         .where(eq(users.id, id))
         .limit(1);
-      done(null, user);
+      // A deactivated account loses its existing sessions too
+      done(null, user?.isActive ? user : false);
     } catch (err) {
       done(err);
     }
@@ -109,6 +186,12 @@ export function setupAuth(app: Express) {
 
       const { username, password } = result.data;
 
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res
+          .status(400)
+          .send(`Invalid input: password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+
       // Check if user already exists
       const [existingUser] = await db
         .select()
@@ -121,7 +204,11 @@ export function setupAuth(app: Express) {
       }
 
       // Hash the password
-      const hashedPassword = await crypto.hash(password);
+      const hashedPassword = await hashPassword(password);
+
+      // Self-registration never grants elevated roles. The very first account
+      // bootstraps the deployment as its admin.
+      const [anyUser] = await db.select({ id: users.id }).from(users).limit(1);
 
       // Create the new user
       const [newUser] = await db
@@ -129,9 +216,14 @@ export function setupAuth(app: Express) {
         .values({
           ...result.data,
           password: hashedPassword,
+          role: anyUser ? 'provider' : 'admin',
+          isActive: true,
+          deactivatedAt: null,
         })
         .returning();
 
+      userDirectory.invalidate(newUser.id);
+
       // Log the user in after registration
       req.login(newUser, (err) => {
         if (err) {
@@ -139,7 +231,7 @@ export function setupAuth(app: Express) {
         }
         return res.json({
           message: "Registration successful",
-          user: { id: newUser.id, username: newUser.username },
+          user: { id: newUser.id, username: newUser.username, role: newUser.role },
         });
       });
     } catch (error) {
@@ -148,7 +240,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", (req, res, next) => {
-    const result = insertUserSchema.safeParse(req.body);
+    const result = loginSchema.safeParse(req.body);
     if (!result.success) {
       return res
         .status(400)
@@ -171,7 +263,7 @@ export function setupAuth(app: Express) {
 
         return res.json({
           message: "Login successful",
-          user: { id: user.id, username: user.username },
+          user: { id: user.id, username: user.username, role: user.role },
         });
       });
     };
@@ -190,10 +282,12 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (req.isAuthenticated()) {
-      return res.json(req.user);
+      return res.json(toPublicUser(req.user));
     }
 
     // Return null for unauthenticated users instead of error
     res.json(null);
   });
-}
\ No newline at end of file
+
+  return sessionParser;
+}
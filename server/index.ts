@@ -3,6 +3,8 @@ import cors from "cors";
 import { registerRoutes, initializeServer } from "./routes";
 import { setupVite, log } from "./vite";
 import { setupWebSocket } from "./websocket";
+import { createPubSub } from "./pubsub";
+import { setupAuth } from "./auth";
 
 const app = express();
 
@@ -35,6 +37,9 @@ app.use(cors({
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Session + passport must be in place before any route reads req.user
+const sessionParser = setupAuth(app);
+
 // Basic error logging
 app.use((req, res, next) => {
   const start = Date.now();
@@ -76,8 +81,9 @@ const startServer = async () => {
   try {
     const httpServer = await initializeServer(app);
 
-    // Initialize WebSocket after HTTP server is created but before routes
-    const wsInterface = await setupWebSocket(httpServer);
+    // Initialize WebSocket after HTTP server is created but before routes.
+    // Set WEBSOCKET_PUBSUB=postgres when running more than one instance.
+    const wsInterface = await setupWebSocket(httpServer, sessionParser, createPubSub());
 
     // Register routes with WebSocket interface
     registerRoutes(app, wsInterface);
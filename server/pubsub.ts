@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import { Client } from "@neondatabase/serverless";
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+import { log } from "./vite";
+import type { Audience, NotificationMessage } from "./websocket";
+
+// An event on its way to every instance's sockets, with who may receive it
+export interface PublishedEvent {
+  message: NotificationMessage;
+  audience: Audience;
+}
+
+export type PubSubHandler = (event: PublishedEvent) => void;
+
+/**
+ * Carries websocket events between server instances. Every subscriber,
+ * including the publishing instance's own, receives each published event.
+ * `onGap` is called when events may have been missed, e.g. after the
+ * transport lost its connection.
+ */
+export interface PubSubTransport {
+  readonly name: string;
+  publish(event: PublishedEvent): Promise<void>;
+  subscribe(handler: PubSubHandler, onGap?: () => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * The single-instance default: events go straight to this process's
+ * subscribers
+ */
+export class InProcessPubSub implements PubSubTransport {
+  readonly name = 'in-process';
+  private handlers = new Set<PubSubHandler>();
+
+  async publish(event: PublishedEvent) {
+    this.handlers.forEach(handler => handler(event));
+  }
+
+  async subscribe(handler: PubSubHandler) {
+    this.handlers.add(handler);
+  }
+
+  async close() {
+    this.handlers.clear();
+  }
+}
+
+// NOTIFY payloads must stay under 8000 bytes; larger events are split into
+// parts of at most this many characters, which stay under the limit even if
+// every character takes four bytes or is escaped again when wrapped
+const NOTIFY_MAX_BYTES = 7900;
+const NOTIFY_PART_CHARS = 1900;
+// Parts of an event that never completes are dropped after this long
+const PARTIAL_TTL_MS = 30 * 1000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+interface NotifyPart {
+  id: string;
+  part: number;
+  parts: number;
+  data: string;
+}
+
+/**
+ * Fans events out to every instance with Postgres LISTEN/NOTIFY. Publishing
+ * goes through the shared pool; listening needs its own long-lived
+ * connection, which is re-established with backoff when it drops. If a
+ * publish fails, the event is still delivered to this instance's sockets.
+ */
+export class PostgresPubSub implements PubSubTransport {
+  readonly name = 'postgres';
+  private handlers = new Set<PubSubHandler>();
+  private gapHandlers = new Set<() => void>();
+  private listener: Client | null = null;
+  private partials = new Map<string, { parts: string[]; received: number; startedAt: number }>();
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private closed = false;
+
+  constructor(
+    private connectionString: string,
+    private channel = 'websocket_events'
+  ) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+      throw new Error(`Invalid LISTEN channel name: ${channel}`);
+    }
+  }
+
+  async publish(event: PublishedEvent) {
+    const payload = JSON.stringify(event);
+    const id = randomUUID();
+    const wrap = (data: string, part: number, parts: number) => JSON.stringify({ id, part, parts, data });
+
+    let notifications = [wrap(payload, 0, 1)];
+    if (Buffer.byteLength(notifications[0]) > NOTIFY_MAX_BYTES) {
+      const parts: string[] = [];
+      for (let i = 0; i < payload.length; i += NOTIFY_PART_CHARS) {
+        parts.push(payload.slice(i, i + NOTIFY_PART_CHARS));
+      }
+      notifications = parts.map((data, part) => wrap(data, part, parts.length));
+    }
+
+    try {
+      // One statement, so all parts are sent together when it commits
+      await db.execute(sql`select ${sql.join(
+        notifications.map(notification => sql`pg_notify(${this.channel}, ${notification})`),
+        sql`, `
+      )}`);
+    } catch (error) {
+      console.error('Failed to publish websocket event, delivering locally only:', error);
+      this.dispatch(event);
+    }
+  }
+
+  async subscribe(handler: PubSubHandler, onGap?: () => void) {
+    this.handlers.add(handler);
+    if (onGap) this.gapHandlers.add(onGap);
+    if (!this.listener) {
+      await this.listen();
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    this.handlers.clear();
+    this.gapHandlers.clear();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+
+    const listener = this.listener;
+    this.listener = null;
+    await listener?.end().catch(error => console.error('Error closing LISTEN connection:', error));
+  }
+
+  private async listen() {
+    const client = new Client(this.connectionString);
+    this.listener = client;
+
+    client.on('notification', (notification) => {
+      if (notification.channel === this.channel && notification.payload) {
+        this.receive(notification.payload);
+      }
+    });
+    client.on('error', (error) => {
+      console.error('LISTEN connection error:', error);
+      this.reconnect(client);
+    });
+    client.on('end', () => this.reconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${this.channel}`);
+      log(`Listening for websocket events on ${this.channel}`);
+
+      // Anything published while the connection was down never arrived
+      if (this.attempts > 0) {
+        this.attempts = 0;
+        this.gapHandlers.forEach(onGap => onGap());
+      }
+    } catch (error) {
+      console.error('Failed to LISTEN for websocket events:', error);
+      this.reconnect(client);
+    }
+  }
+
+  private reconnect(client: Client) {
+    if (this.closed || this.listener !== client) return;
+    this.listener = null;
+    client.end().catch(() => undefined);
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts, RECONNECT_MAX_MS);
+    this.attempts++;
+    log(`Reconnecting LISTEN connection in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.listen();
+    }, delay);
+  }
+
+  private receive(payload: string) {
+    try {
+      const part: NotifyPart = JSON.parse(payload);
+      if (part.parts === 1) {
+        this.dispatch(JSON.parse(part.data));
+        return;
+      }
+
+      const now = Date.now();
+      this.partials.forEach((partial, id) => {
+        if (now - partial.startedAt > PARTIAL_TTL_MS) this.partials.delete(id);
+      });
+
+      const partial = this.partials.get(part.id) ?? { parts: new Array(part.parts), received: 0, startedAt: now };
+      if (partial.parts[part.part] === undefined) {
+        partial.parts[part.part] = part.data;
+        partial.received++;
+      }
+
+      if (partial.received < part.parts) {
+        this.partials.set(part.id, partial);
+        return;
+      }
+
+      this.partials.delete(part.id);
+      this.dispatch(JSON.parse(partial.parts.join('')));
+    } catch (error) {
+      console.error('Ignoring malformed websocket event notification:', error);
+    }
+  }
+
+  private dispatch(event: PublishedEvent) {
+    this.handlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error('Websocket event handler error:', error);
+      }
+    });
+  }
+}
+
+/**
+ * The transport named by WEBSOCKET_PUBSUB: 'postgres' for deployments with
+ * more than one instance, otherwise the in-process default
+ */
+export function createPubSub(kind = process.env.WEBSOCKET_PUBSUB): PubSubTransport {
+  switch (kind) {
+    case 'postgres':
+      return new PostgresPubSub(process.env.DATABASE_URL!);
+    case undefined:
+    case '':
+    case 'in-process':
+      return new InProcessPubSub();
+    default:
+      throw new Error(`Unknown WEBSOCKET_PUBSUB transport '${kind}'. Expected 'in-process' or 'postgres'.`);
+  }
+}
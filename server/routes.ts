@@ -1,19 +1,64 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { log } from './vite';
 import { db } from "@db";
 import os from 'os';
-import { type WebSocketInterface } from './websocket';
+import { type NotificationMessage, type WebSocketInterface } from './websocket';
+import {
+  requireAuth,
+  requireRole,
+  canActFor,
+  hasRole,
+  hashPassword,
+  toPublicUser,
+  MIN_PASSWORD_LENGTH
+} from './auth';
 import { OpenAIChatHandler } from './openai-handler';
+import { analyticsService, TimeRange } from './services/analytics';
+import { conflictResolutionService } from './services/conflict-resolution';
+import {
+  patternAnalysisService,
+  DEFAULT_LOOKBACK_DAYS,
+  MAX_LOOKBACK_DAYS
+} from './services/pattern-analysis';
+import { icalExportService, type ScheduleExportFilters } from './services/ical-export';
+import { userDirectory } from './services/user-directory';
+import { swapRequestService, SwapRequestError, supersedeRequests } from './services/swap-requests';
+import { swapChainService } from './services/swap-chains';
+import { shiftMarketplaceService } from './services/shift-marketplace';
+import { swapScoringService, resolveWeights, SwapScoringError } from './services/swap-scoring';
+import { swapApprovalConditionsSchema } from './services/swap-approval';
+import { scheduleGenerator, ScheduleGenerationError } from './services/schedule-generator';
+import { schedulePeriodService, SchedulePeriodError } from './services/schedule-periods';
+import { scheduleSnapshotService, ScheduleSnapshotError } from './services/schedule-snapshots';
+import { shiftAuditService, ShiftAuditError, removeShift, type AuditContext, type ShiftChange } from './services/shift-audit';
+import { shiftBatchService, MAX_BATCH_SIZE, type ShiftOperation } from './services/shift-batch';
+import { isDateString } from './services/shift-dates';
+import { notificationService } from './services/notification';
 import {
   shifts,
   swapRequests,
   chatRooms,
   users,
   roomMembers,
-  messages
+  messages,
+  timeOffRequests,
+  insertTimeOffRequestSchema,
+  insertUserSchema,
+  UserRole,
+  TimeOffRequestStatus,
+  UserType,
+  ConflictStatus,
+  ConflictType,
+  ResolutionStrategy,
+  userPreferences,
+  insertUserPreferencesSchema,
+  schedulingRules,
+  insertSchedulingRuleSchema,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type Shift
 } from "@db/schema";
-import { eq, and, or, gte, asc } from "drizzle-orm";
-import { format, parseISO } from "date-fns"; // Added import
+import { eq, ne, and, or, gt, gte, lte, asc, desc, sql } from "drizzle-orm";
+import { addDays, format, parseISO } from "date-fns"; // Added import
 import { notify } from './websocket';
 import { createServer, type Server } from "http";
 import ical from 'node-ical'; // Added import
@@ -44,6 +89,12 @@ let metrics: ServerMetrics = {
 };
 
 let metricsInterval: NodeJS.Timeout;
+let swapExpiryInterval: NodeJS.Timeout;
+
+const SWAP_EXPIRY_SWEEP_MS = 5 * 60 * 1000;
+
+// require_approval rules hold swaps for sign-off; they cannot resolve a conflict
+const CONFLICT_STRATEGIES = ResolutionStrategy.filter(strategy => strategy !== 'require_approval');
 
 export async function initializeServer(app: Express): Promise<Server> {
   // Clear existing intervals if they exist
@@ -58,12 +109,38 @@ export async function initializeServer(app: Express): Promise<Server> {
     if (metricsInterval) {
       clearInterval(metricsInterval);
     }
+    if (swapExpiryInterval) {
+      clearInterval(swapExpiryInterval);
+    }
   });
 
   return httpServer;
 }
 
 export function registerRoutes(app: Express, ws: WebSocketInterface) {
+  userDirectory.registerWebSocket(ws);
+  swapRequestService.registerWebSocket(ws);
+  swapChainService.registerWebSocket(ws);
+  shiftMarketplaceService.registerWebSocket(ws);
+  notificationService.registerWebSocket(ws);
+  scheduleGenerator.registerWebSocket(ws);
+  schedulePeriodService.registerWebSocket(ws);
+  scheduleSnapshotService.registerWebSocket(ws);
+  shiftAuditService.registerWebSocket(ws);
+  shiftBatchService.registerWebSocket(ws);
+  conflictResolutionService.registerWebSocket(ws);
+
+  if (swapExpiryInterval) {
+    clearInterval(swapExpiryInterval);
+  }
+  swapExpiryInterval = setInterval(() => {
+    swapRequestService.expireOverdue()
+      .then(count => {
+        if (count) log(`Expired ${count} swap request(s)`);
+      })
+      .catch(error => console.error('Error expiring swap requests:', error));
+  }, SWAP_EXPIRY_SWEEP_MS);
+
   // Setup metrics update interval
   metricsInterval = setInterval(() => {
     const totalMem = os.totalmem();
@@ -81,8 +158,8 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
       lastUpdated: new Date().toISOString()
     };
 
-    // Broadcast metrics update
-    ws.broadcast({
+    // Server health is an admin page
+    ws.sendToRole('admin', {
       type: 'metrics_update',
       data: metrics,
       timestamp: new Date().toISOString()
@@ -99,38 +176,81 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     res.json(metrics);
   });
 
-  // Analytics endpoints
-  app.get("/api/analytics/workload", (_req, res) => {
-    // Mock workload data
-    const workloadData = [
-      { name: "Dr. Smith", actualDays: 15, targetDays: 20, utilization: 75 },
-      { name: "Dr. Johnson", actualDays: 18, targetDays: 15, utilization: 120 },
-      { name: "Dr. Williams", actualDays: 12, targetDays: 12, utilization: 100 }
-    ];
-    res.json(workloadData);
+  // Analytics endpoints. `timeRange` picks the current week/month/quarter/year;
+  // explicit `startDate` and `endDate` (inclusive) override it.
+  const getAnalyticsWindow = (req: Request) => {
+    const timeRange = (req.query.timeRange as string | undefined) ?? 'month';
+    if (!TimeRange.includes(timeRange as TimeRange)) return null;
+
+    return analyticsService.resolveWindow(
+      timeRange as TimeRange,
+      req.query.startDate as string | undefined,
+      req.query.endDate as string | undefined
+    );
+  };
+
+  app.get("/api/analytics/workload", requireAuth, async (req, res) => {
+    try {
+      const window = getAnalyticsWindow(req);
+      if (!window) {
+        return res.status(400).json({
+          error: "Invalid time range",
+          details: `timeRange must be one of: ${TimeRange.join(', ')}`
+        });
+      }
+
+      res.json(await analyticsService.getWorkload(window));
+    } catch (error) {
+      console.error('Error computing workload analytics:', error);
+      res.status(500).json({
+        error: "Failed to compute workload analytics",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   });
 
-  app.get("/api/analytics/distribution", (_req, res) => {
-    // Mock distribution data
-    const distributionData = [
-      { type: "Physician", totalDays: 45, shiftCount: 15, avgShiftLength: 3 },
-      { type: "APP", totalDays: 30, shiftCount: 10, avgShiftLength: 3 }
-    ];
-    res.json(distributionData);
+  app.get("/api/analytics/distribution", requireAuth, async (req, res) => {
+    try {
+      const window = getAnalyticsWindow(req);
+      if (!window) {
+        return res.status(400).json({
+          error: "Invalid time range",
+          details: `timeRange must be one of: ${TimeRange.join(', ')}`
+        });
+      }
+
+      res.json(await analyticsService.getDistribution(window));
+    } catch (error) {
+      console.error('Error computing distribution analytics:', error);
+      res.status(500).json({
+        error: "Failed to compute distribution analytics",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   });
 
-  app.get("/api/analytics/fatigue", (_req, res) => {
-    // Mock fatigue data
-    const fatigueData = [
-      { name: "Dr. Smith", maxAllowed: 5, currentConsecutive: 3, fatigueRisk: "low" },
-      { name: "Dr. Johnson", maxAllowed: 5, currentConsecutive: 4, fatigueRisk: "medium" },
-      { name: "Dr. Williams", maxAllowed: 5, currentConsecutive: 2, fatigueRisk: "low" }
-    ];
-    res.json(fatigueData);
+  app.get("/api/analytics/fatigue", requireAuth, async (req, res) => {
+    try {
+      const window = getAnalyticsWindow(req);
+      if (!window) {
+        return res.status(400).json({
+          error: "Invalid time range",
+          details: `timeRange must be one of: ${TimeRange.join(', ')}`
+        });
+      }
+
+      res.json(await analyticsService.getFatigue(window));
+    } catch (error) {
+      console.error('Error computing fatigue analytics:', error);
+      res.status(500).json({
+        error: "Failed to compute fatigue analytics",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   });
 
   // Get all shifts - with proper implementation
-  app.get("/api/shifts", async (_req, res) => {
+  app.get("/api/shifts", async (req, res) => {
     try {
       const now = new Date();
       const currentDateStr = format(now, 'yyyy-MM-dd');
@@ -138,12 +258,16 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
       const allShifts = await db.select()
         .from(shifts)
         .where(
-          or(
-            gte(shifts.startDate, currentDateStr),
-            and(
-              gte(shifts.endDate, currentDateStr),
-              eq(shifts.status, "confirmed")
-            )
+          and(
+            or(
+              gte(shifts.startDate, currentDateStr),
+              and(
+                gte(shifts.endDate, currentDateStr),
+                eq(shifts.status, "confirmed")
+              )
+            ),
+            ne(shifts.status, 'archived'),
+            hiddenDrafts(req)
           )
         )
         .orderBy(shifts.startDate);
@@ -169,8 +293,51 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     }
   });
 
+  // Ranked colleagues who could take the shift, with each factor's value,
+  // weight and points. Weights can be overridden per request, either as
+  // ?weights[workloadBalance]=0.4 or ?weights={"workloadBalance":0.4}.
+  app.get("/api/shifts/:id/swap-candidates", requireAuth, async (req, res) => {
+    try {
+      const shiftId = parseInt(req.params.id);
+      const [shift] = isNaN(shiftId)
+        ? []
+        : await db.select().from(shifts).where(and(eq(shifts.id, shiftId), hiddenDrafts(req)));
+
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      let overrides = req.query.weights ?? {};
+      if (typeof overrides === 'string') {
+        try {
+          overrides = JSON.parse(overrides);
+        } catch {
+          return res.status(400).json({ error: "Invalid weights", details: "weights must be a JSON object" });
+        }
+      }
+      if (typeof overrides !== 'object' || Array.isArray(overrides) || overrides === null) {
+        return res.status(400).json({ error: "Invalid weights", details: "weights must be an object of factor weights" });
+      }
+
+      const weights = resolveWeights(overrides as Record<string, unknown>);
+      const candidates = await swapScoringService.rankCandidates(shift, weights);
+
+      res.json({ shiftId: shift.id, weights, candidates });
+    } catch (error) {
+      if (error instanceof SwapScoringError) {
+        return res.status(400).json({ error: "Invalid weights", details: error.message });
+      }
+
+      console.error('Error ranking swap candidates:', error);
+      res.status(500).json({
+        error: "Failed to rank swap candidates",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Add shift creation endpoint
-  app.post("/api/shifts", async (req, res) => {
+  app.post("/api/shifts", requireRole('scheduler'), async (req, res) => {
     try {
       // Enhanced validation with detailed error messages
       const { userId, startDate, endDate, status, source, schedulingNotes } = req.body;
@@ -187,21 +354,21 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         });
       }
 
-      // Validate user exists
-      const users = [
-        { id: 1, name: "Dr. Smith", title: "Physician", color: "#0088FE", userType: "physician" },
-        { id: 2, name: "Dr. Johnson", title: "Physician", color: "#00C49F", userType: "physician" },
-        { id: 3, name: "Dr. Williams", title: "Physician", color: "#FFBB28", userType: "physician" },
-        { id: 4, name: "Sarah Brown", title: "APP", color: "#FF8042", userType: "app" },
-        { id: 5, name: "Mike Davis", title: "APP", color: "#8884d8", userType: "app" }
-      ];
-
-      const userExists = users.some(user => user.id === parseInt(userId));
-      if (!userExists) {
+      // Validate user exists and can still be scheduled
+      if (!await userDirectory.getActive(parseInt(userId))) {
         return res.status(400).json({
           success: false,
           error: "Invalid user",
-          details: "The specified user does not exist"
+          details: "The specified user does not exist or has been deactivated"
+        });
+      }
+
+      // Drafts come from schedule periods, other statuses from later workflows
+      if (status !== undefined && status !== 'confirmed') {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid status",
+          details: "New shifts can only be created as confirmed"
         });
       }
 
@@ -225,29 +392,70 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         });
       }
 
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
+      if (conflictMode === 'reject') {
+        const detected = await conflictResolutionService.evaluateShift({
+          userId: parseInt(userId),
+          startDate,
+          endDate
+        });
+
+        if (detected.length) {
+          return res.status(409).json({
+            success: false,
+            error: "Schedule conflict",
+            details: detected.map(c => c.description).join('; '),
+            conflicts: detected
+          });
+        }
+      }
+
+      // Shifts created inside a draft period stay hidden until it is published
+      const period = await schedulePeriodService.draftPeriodFor(startDate);
+
       const newShift = {
         userId: parseInt(userId),
         startDate,
         endDate,
-        status: status || 'confirmed',
+        status: period ? 'draft' as const : 'confirmed' as const,
+        periodId: period?.id ?? null,
         source: source || 'manual',
         schedulingNotes: schedulingNotes || {},
         createdAt: new Date()
       };
 
-      const result = await db.insert(shifts).values(newShift).returning();
+      const result = await db.transaction(async (tx) => {
+        const inserted = await tx.insert(shifts).values(newShift).returning();
+        await shiftAuditService.record(tx, auditContext(req), inserted.map(shift => ({
+          action: 'create' as const,
+          before: null,
+          after: shift,
+        })));
+        return inserted;
+      });
 
       if (!result.length) {
         throw new Error('Failed to create shift - no result returned');
       }
 
-      // Broadcast the new shift to all connected clients
-      ws.broadcast(notify.shiftChange('created', result[0]));
+      const detectedConflicts = await conflictResolutionService.recordConflicts(result[0].id);
+
+      // Tell everyone who can see the shift; drafts only reach schedulers
+      ws.sendShiftChange('created', result[0]);
 
       res.status(201).json({
         success: true,
         message: "Shift created successfully",
-        shift: result[0]
+        shift: result[0],
+        conflicts: detectedConflicts
       });
     } catch (error: any) {
       console.error('Error creating shift:', error);
@@ -260,30 +468,101 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
   });
 
   // Update shift endpoint
-  app.put("/api/shifts/:id", async (req, res) => {
+  app.put("/api/shifts/:id", requireRole('scheduler'), async (req, res) => {
     try {
       const shiftId = parseInt(req.params.id);
       if (!shiftId) {
         return res.status(400).json({ error: "Invalid shift ID" });
       }
 
-      const result = await db.update(shifts)
-        .set({
-          startDate: req.body.startDate,
-          endDate: req.body.endDate,
-          updatedAt: new Date()
-        })
-        .where(eq(shifts.id, shiftId))
-        .returning();
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
 
-      if (!result.length) {
-        return res.status(404).json({ error: "Shift not found" });
+      const { startDate, endDate } = req.body ?? {};
+      if ([startDate, endDate].some(date => date !== undefined && !isDateString(date))) {
+        return res.status(400).json({
+          error: "Invalid dates",
+          details: "startDate and endDate must be yyyy-MM-dd dates"
+        });
+      }
+
+      const outcome = await db.transaction(async (tx) => {
+        const [existing] = await tx.select()
+          .from(shifts)
+          .where(eq(shifts.id, shiftId))
+          .for('update');
+        if (!existing || existing.status === 'archived') {
+          return { status: 404, body: { error: "Shift not found" } } as const;
+        }
+
+        const candidate = {
+          id: existing.id,
+          startDate: startDate ?? existing.startDate,
+          endDate: endDate ?? existing.endDate
+        };
+        if (candidate.endDate <= candidate.startDate) {
+          return { status: 400, body: { error: "Invalid date range", details: "endDate must be after startDate" } } as const;
+        }
+
+        if (conflictMode === 'reject' && existing.userId) {
+          const detected = await conflictResolutionService.evaluateShift({ ...candidate, userId: existing.userId });
+          if (detected.length) {
+            return {
+              status: 409,
+              body: {
+                error: "Schedule conflict",
+                details: detected.map(c => c.description).join('; '),
+                conflicts: detected
+              }
+            } as const;
+          }
+        }
+
+        const moved = candidate.startDate !== existing.startDate || candidate.endDate !== existing.endDate;
+        if (moved && existing.status === 'draft') {
+          const period = await schedulePeriodService.draftPeriodFor(candidate.startDate, tx);
+          if (period?.id !== existing.periodId) {
+            return { status: 400, body: { error: "Invalid date range", details: "A draft shift has to stay within its schedule period" } } as const;
+          }
+        }
+
+        // Open swap requests were made for the old dates
+        const transitions = moved ? await supersedeRequests(tx, [shiftId]) : [];
+
+        const [updated] = await tx.update(shifts)
+          .set({
+            startDate: candidate.startDate,
+            endDate: candidate.endDate,
+            sequence: sql`${shifts.sequence} + 1`,
+            updatedAt: new Date()
+          })
+          .where(eq(shifts.id, shiftId))
+          .returning();
+
+        await shiftAuditService.record(tx, auditContext(req), [{
+          action: 'update',
+          before: existing,
+          after: updated,
+        }]);
+        return { status: 200, shift: updated, transitions } as const;
+      });
+
+      if (outcome.status !== 200) {
+        return res.status(outcome.status).json(outcome.body);
       }
 
-      // Broadcast the updated shift to all connected clients
-      ws.broadcast(notify.shiftChange('updated', result[0]));
+      await swapRequestService.announce(outcome.transitions);
+      const detectedConflicts = await conflictResolutionService.recordConflicts(shiftId);
 
-      res.json(result[0]);
+      // Tell everyone who can see the updated shift
+      ws.sendShiftChange('updated', outcome.shift);
+
+      res.json({ ...outcome.shift, conflicts: detectedConflicts });
     } catch (error: any) {
       console.error('Error updating shift:', error);
       res.status(500).json({
@@ -294,7 +573,7 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
   });
 
   // Add shift deletion endpoint
-  app.delete("/api/shifts/:id", async (req, res) => {
+  app.delete("/api/shifts/:id", requireRole('scheduler'), async (req, res) => {
     try {
       const shiftId = parseInt(req.params.id);
       if (!shiftId) {
@@ -304,24 +583,40 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         });
       }
 
-      const result = await db.delete(shifts)
-        .where(eq(shifts.id, shiftId))
-        .returning();
+      const result = await db.transaction(async (tx) => {
+        const [shift] = await tx.select()
+          .from(shifts)
+          .where(eq(shifts.id, shiftId))
+          .for('update');
+        if (!shift || shift.status === 'archived') return null;
+
+        // Open requests for the shift can no longer go through
+        const transitions = await supersedeRequests(tx, [shift.id]);
+        const removed = await removeShift(tx, shift);
+
+        await shiftAuditService.record(tx, auditContext(req), [{
+          action: 'delete',
+          before: shift,
+          after: removed,
+        }]);
+        return { shift, transitions };
+      });
 
-      if (!result.length) {
+      if (!result) {
         return res.status(404).json({
           success: false,
           error: "Shift not found"
         });
       }
 
-      // Broadcast the deleted shift to all connected clients
-      ws.broadcast(notify.shiftChange('deleted', result[0]));
+      await swapRequestService.announce(result.transitions);
+      // Tell everyone who could see the deleted shift
+      ws.sendShiftChange('deleted', result.shift);
 
       res.json({
         success: true,
         message: "Shift deleted successfully",
-        deletedShift: result[0]
+        deletedShift: result.shift
       });
     } catch (error: any) {
       console.error('Error deleting shift:', error);
@@ -333,8 +628,65 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     }
   });
 
+  // Creates, updates and deletes shifts in one transaction. Every operation
+  // is validated before anything is written; the response has one result per
+  // operation, in order.
+  app.post("/api/shifts/batch", requireRole('scheduler'), async (req, res) => {
+    try {
+      const { operations } = req.body ?? {};
+      if (!Array.isArray(operations) || !operations.length) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: "operations must be a non-empty array"
+        });
+      }
+      if (operations.length > MAX_BATCH_SIZE) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: `A batch can hold at most ${MAX_BATCH_SIZE} operations`
+        });
+      }
+
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
+      const outcome = await shiftBatchService.apply(operations, { conflictMode, audit: auditContext(req) });
+
+      if (!outcome.applied) {
+        const invalid = outcome.results.filter(result => result.errors.length).length;
+        return res.status(invalid ? 400 : 409).json({
+          success: false,
+          error: invalid ? "Invalid operations" : "Schedule conflict",
+          details: invalid
+            ? `${invalid} operation(s) are invalid; nothing was changed`
+            : `${outcome.results.filter(result => result.conflicts.length).length} operation(s) would conflict; nothing was changed`,
+          results: outcome.results
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `${outcome.results.length} operation(s) applied`,
+        results: outcome.results,
+        conflicts: outcome.conflicts
+      });
+    } catch (error) {
+      console.error('Error applying shift batch:', error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to apply shift operations",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Add the clear all shifts endpoint to the existing routes
-  app.delete("/api/shifts", async (_req, res) => {
+  app.delete("/api/shifts", requireRole('admin'), async (req, res) => {
     try {
       console.log('Attempting to clear all shifts...');
 
@@ -342,55 +694,74 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
       const currentDateStr = format(now, 'yyyy-MM-dd');
 
       // Start a transaction to ensure both operations complete or neither does
-      await db.transaction(async (tx) => {
+      const outcome = await db.transaction(async (tx) => {
         // First, get all future shifts - include shifts that end after current date
         const futureShifts = await tx.select()
           .from(shifts)
           .where(
-            or(
-              gte(shifts.startDate, currentDateStr),
-              gte(shifts.endDate, currentDateStr)
-            )
-          );
-
-        console.log(`Found ${futureShifts.length} shifts to clear`);
-
-        if (futureShifts.length > 0) {
-          // Delete associated swap requests first
-          await tx.delete(swapRequests)
-            .where(
-              or(
-                ...futureShifts.map(shift =>
-                  eq(swapRequests.shiftId, shift.id)
-                )
-              )
-            );
-
-          // Then delete the shifts
-          const result = await tx.delete(shifts)
-            .where(
+            and(
+              ne(shifts.status, 'archived'),
               or(
                 gte(shifts.startDate, currentDateStr),
                 gte(shifts.endDate, currentDateStr)
               )
             )
-            .returning();
+          )
+          .orderBy(shifts.id)
+          .for('update');
 
-          console.log(`Successfully cleared ${result.length} shifts`);
+        console.log(`Found ${futureShifts.length} shifts to clear`);
 
-          // Broadcast the deletion
-          ws.broadcast({
-            type: 'shift_change',
-            event: 'cleared',
-            data: result,
-            timestamp: new Date().toISOString()
-          });
+        if (!futureShifts.length) {
+          return null;
+        }
+
+        // Keep a copy of what is cleared so it can be rolled back
+        const startDate = futureShifts.map(shift => shift.startDate).sort()[0];
+        const endDate = futureShifts.map(shift => shift.endDate).sort().reverse()[0];
+        const snapshot = await scheduleSnapshotService.capture({
+          name: `Before clearing shifts on ${currentDateStr}`,
+          startDate,
+          endDate: endDate > startDate ? endDate : format(addDays(parseISO(startDate), 1), 'yyyy-MM-dd'),
+          createdBy: req.user!.id,
+        }, tx);
+
+        // Open requests for cleared shifts are cancelled; their history stays
+        const transitions = await supersedeRequests(tx, futureShifts.map(shift => shift.id));
+
+        // Then remove the shifts, archiving those that requests point at
+        const changes: ShiftChange[] = [];
+        for (const shift of futureShifts) {
+          changes.push({ action: 'delete', before: shift, after: await removeShift(tx, shift) });
         }
+
+        console.log(`Successfully cleared ${changes.length} shifts`);
+
+        await shiftAuditService.record(tx, auditContext(req), changes);
+
+        return { snapshot, cleared: futureShifts, transitions };
       });
 
+      if (outcome) {
+        await swapRequestService.announce(outcome.transitions);
+
+        // Broadcast the deletion; cleared drafts only go to schedulers
+        const clearedEvent = (data: Shift[]): NotificationMessage => ({
+          type: 'shift_change',
+          event: 'cleared',
+          data,
+          timestamp: new Date().toISOString()
+        });
+        const drafts = outcome.cleared.filter(shift => shift.status === 'draft');
+        const live = outcome.cleared.filter(shift => shift.status !== 'draft');
+        if (drafts.length) ws.sendToRole('scheduler', clearedEvent(drafts));
+        if (live.length) ws.broadcast(clearedEvent(live));
+      }
+
       res.json({
         success: true,
         message: 'Successfully cleared all future shifts',
+        snapshotId: outcome?.snapshot.id ?? null,
       });
     } catch (error) {
       console.error('Error clearing shifts:', error);
@@ -402,344 +773,1845 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     }
   });
 
-  // Get all users - with proper implementation
-  app.post("/api/users", async (req, res) => {
+  // iCalendar export endpoints. `/ical` downloads a file, `/feed` and
+  // `/export/all` are meant to be subscribed to from calendar apps.
+  const parseExportFilters = (query: Request['query']): ScheduleExportFilters | string => {
+    const filters: ScheduleExportFilters = {};
+    const isDate = (value: unknown) =>
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    if (query.userType) {
+      if (!UserType.includes(query.userType as UserType)) {
+        return `userType must be one of: ${UserType.join(', ')}`;
+      }
+      filters.userType = query.userType as UserType;
+    }
+    if (query.userId) {
+      filters.userId = parseInt(query.userId as string);
+      if (isNaN(filters.userId)) return "userId must be a number";
+    }
+    if (query.startDate) {
+      if (!isDate(query.startDate)) return "startDate must be formatted as yyyy-MM-dd";
+      filters.startDate = query.startDate as string;
+    }
+    if (query.endDate) {
+      if (!isDate(query.endDate)) return "endDate must be formatted as yyyy-MM-dd";
+      filters.endDate = query.endDate as string;
+    }
+
+    return filters;
+  };
+
+  const sendCalendar = async (
+    req: Request,
+    res: Response,
+    options: { userId?: number; download: boolean }
+  ) => {
     try {
-      const [newUser] = await db.insert(users).values({
-        ...req.body,
-        createdAt: new Date(),
-      }).returning();
-      res.status(201).json(newUser);
+      // Calendar apps can't send the session cookie, so feeds also accept the
+      // reader's calendar token
+      const reader = req.user ?? (typeof req.query.token === 'string'
+        ? await icalExportService.userForToken(req.query.token)
+        : undefined);
+      if (!reader) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (options.userId !== undefined && reader.id !== options.userId && !hasRole(reader, 'scheduler')) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only export your own schedule" });
+      }
+
+      const filters = parseExportFilters(req.query);
+      if (typeof filters === 'string') {
+        return res.status(400).json({ error: "Invalid export filters", details: filters });
+      }
+
+      let calendarName = 'ICU Schedule';
+      let fileName = 'icu-schedule.ics';
+
+      if (options.userId !== undefined) {
+        if (isNaN(options.userId)) {
+          return res.status(400).json({ error: "Invalid user ID" });
+        }
+
+        const user = await userDirectory.get(options.userId);
+
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        filters.userId = options.userId;
+        calendarName = `ICU Schedule - ${user.name}`;
+        fileName = `icu-schedule-${options.userId}.ics`;
+      }
+
+      const calendar = await icalExportService.buildCalendar(calendarName, filters);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `${options.download ? 'attachment' : 'inline'}; filename="${fileName}"`
+      );
+      res.send(calendar);
     } catch (error) {
-      console.error('Error creating user:', error);
-      res.status(500).json({ error: "Failed to create user" });
+      console.error('Error exporting schedule:', error);
+      res.status(500).json({
+        error: "Failed to export schedule",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  // The session user's calendar token, for building subscription URLs.
+  // POST replaces it, which stops every URL built from the old one.
+  app.get("/api/schedules/feed-token", requireAuth, async (req, res) => {
+    try {
+      res.json({ token: await icalExportService.feedToken(req.user!.id) });
+    } catch (error) {
+      console.error('Error fetching calendar token:', error);
+      res.status(500).json({ error: "Failed to fetch calendar token" });
     }
   });
 
-  app.get("/api/users", async (_req, res) => {
+  app.post("/api/schedules/feed-token", requireAuth, async (req, res) => {
     try {
-      const allUsers = await db.select().from(users);
-      res.json(allUsers);
+      res.json({ token: await icalExportService.feedToken(req.user!.id, true) });
     } catch (error) {
-      console.error('Error fetching users:', error);
-      res.status(500).json({ error: "Failed to fetch users" });
+      console.error('Error resetting calendar token:', error);
+      res.status(500).json({ error: "Failed to reset calendar token" });
     }
   });
 
-  // Historical patterns endpoint
-  app.get("/api/scheduling/historical-patterns", async (_req, res) => {
+  app.get("/api/schedules/export/all", async (req, res) => {
+    await sendCalendar(req, res, { download: false });
+  });
+
+  app.get("/api/schedules/:userId/ical", async (req, res) => {
+    await sendCalendar(req, res, { userId: parseInt(req.params.userId), download: true });
+  });
+
+  app.get("/api/schedules/:userId/feed", async (req, res) => {
+    await sendCalendar(req, res, { userId: parseInt(req.params.userId), download: false });
+  });
+
+  // Conflict endpoints backed by ConflictResolutionService
+  app.get("/api/conflicts", requireAuth, async (req, res) => {
     try {
-      const now = new Date();
-      const currentDateStr = format(now, 'yyyy-MM-dd');
-      const thirtyDaysAgo = new Date(now.setDate(now.getDate() - 30));
-      const thirtyDaysAgoStr = format(thirtyDaysAgo, 'yyyy-MM-dd');
+      const { status, type, shiftId, userId } = req.query;
+      const requestedUserId = userId ? parseInt(userId as string) : undefined;
 
-      const shiftPatterns = await db.select()
-        .from(shifts)
-        .where(
-          or(
-            gte(shifts.startDate, currentDateStr),
-            and(
-              gte(shifts.startDate, thirtyDaysAgoStr),
-              eq(shifts.status, "confirmed")
-            )
-          )
-        )
-        .orderBy(shifts.startDate);
+      if (requestedUserId !== undefined && !canActFor(req, requestedUserId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view your own conflicts" });
+      }
 
-      const patterns = {
-        preferredShifts: analyzePreferredShifts(shiftPatterns),
-        currentAndUpcomingShifts: shiftPatterns.map(shift => {
-          const startDate = new Date(shift.startDate);
-          const endDate = new Date(shift.endDate);
-          return {
-            ...shift,
-            isUpcoming: startDate > now,
-            isCurrent: startDate <= now && endDate >= now
-          };
-        })
-      };
+      if (status && !ConflictStatus.includes(status as ConflictStatus)) {
+        return res.status(400).json({
+          error: "Invalid status",
+          details: `Status must be one of: ${ConflictStatus.join(', ')}`
+        });
+      }
+
+      if (type && !ConflictType.includes(type as ConflictType)) {
+        return res.status(400).json({
+          error: "Invalid conflict type",
+          details: `Type must be one of: ${ConflictType.join(', ')}`
+        });
+      }
+
+      const result = await conflictResolutionService.listConflicts({
+        status: status as ConflictStatus | undefined,
+        type: type as ConflictType | undefined,
+        shiftId: shiftId ? parseInt(shiftId as string) : undefined,
+        // Providers only see the conflicts they are part of
+        userId: hasRole(req.user, 'scheduler') ? requestedUserId : req.user!.id,
+      });
 
-      res.json(patterns);
+      res.json(result);
     } catch (error) {
-      console.error('Error fetching historical patterns:', error);
+      console.error('Error fetching conflicts:', error);
       res.status(500).json({
-        error: "Failed to fetch historical patterns",
+        error: "Failed to fetch conflicts",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
-  // Add chat endpoint with proper error handling
-  app.post("/api/chat", async (req, res) => {
+  app.get("/api/conflicts/:id", requireAuth, async (req, res) => {
     try {
-      if (!req.body?.message) {
-        return res.status(400).json({
-          error: "Missing message in request body",
-          content: null
-        });
+      const conflictId = parseInt(req.params.id);
+      if (isNaN(conflictId)) {
+        return res.status(400).json({ error: "Invalid conflict ID" });
       }
 
-      const openAIHandler = new OpenAIChatHandler();
+      const conflict = await conflictResolutionService.getConflict(conflictId);
+      if (!conflict) {
+        return res.status(404).json({ error: "Conflict not found" });
+      }
+
+      if (!hasRole(req.user, 'scheduler') && !conflict.affectedUserIds?.includes(req.user!.id)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view your own conflicts" });
+      }
+
+      res.json(conflict);
+    } catch (error) {
+      console.error('Error fetching conflict:', error);
+      res.status(500).json({
+        error: "Failed to fetch conflict",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/conflicts/detect", requireRole('scheduler'), async (req, res) => {
+    try {
+      const shiftId = parseInt(req.body?.shiftId);
+      if (isNaN(shiftId)) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          details: "shiftId is required"
+        });
+      }
+
+      const [shift] = await db.select({ id: shifts.id })
+        .from(shifts)
+        .where(eq(shifts.id, shiftId));
+
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      const detected = await conflictResolutionService.recordConflicts(shiftId);
+
+      res.json({
+        shiftId,
+        conflicts: detected
+      });
+    } catch (error) {
+      console.error('Error detecting conflicts:', error);
+      res.status(500).json({
+        error: "Failed to detect conflicts",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/conflicts/batch-resolve", requireRole('scheduler'), async (req, res) => {
+    try {
+      const { conflictIds, strategy } = req.body;
+
+      if (!Array.isArray(conflictIds) || !conflictIds.length ||
+          conflictIds.some(id => !Number.isInteger(id))) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: "conflictIds must be a non-empty array of conflict IDs"
+        });
+      }
+
+      if (!CONFLICT_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({
+          error: "Invalid strategy",
+          details: `Strategy must be one of: ${CONFLICT_STRATEGIES.join(', ')}`
+        });
+      }
+
+      const results = await conflictResolutionService.resolveConflicts(conflictIds, strategy, auditContext(req));
+
+      res.json({
+        success: results.every(r => r.successful),
+        resolved: results.filter(r => r.successful).length,
+        failed: results.filter(r => !r.successful).length,
+        results
+      });
+    } catch (error) {
+      console.error('Error batch resolving conflicts:', error);
+      res.status(500).json({
+        error: "Failed to resolve conflicts",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/conflicts/:id/resolve", requireRole('scheduler'), async (req, res) => {
+    try {
+      const conflictId = parseInt(req.params.id);
+      const { strategy } = req.body;
+
+      if (isNaN(conflictId)) {
+        return res.status(400).json({ error: "Invalid conflict ID" });
+      }
+
+      if (!CONFLICT_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({
+          error: "Invalid strategy",
+          details: `Strategy must be one of: ${CONFLICT_STRATEGIES.join(', ')}`
+        });
+      }
+
+      const existing = await conflictResolutionService.getConflict(conflictId);
+      if (!existing) {
+        return res.status(404).json({ error: "Conflict not found" });
+      }
+
+      if (existing.status === 'resolved') {
+        return res.status(409).json({
+          error: "Conflict already resolved",
+          details: `Conflict ${conflictId} was resolved at ${existing.resolvedAt?.toISOString()}`
+        });
+      }
+
+      const successful = await conflictResolutionService.resolveConflict(conflictId, strategy, auditContext(req));
+      const conflict = await conflictResolutionService.getConflict(conflictId);
+
+      res.status(successful ? 200 : 422).json({
+        success: successful,
+        message: successful
+          ? `Conflict handled with strategy ${strategy}`
+          : `Strategy ${strategy} could not resolve the conflict`,
+        conflict
+      });
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      res.status(500).json({
+        error: "Failed to resolve conflict",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // User management. Users are never hard-deleted: DELETE deactivates the
+  // account so past shifts, swaps and audit history keep their owner.
+  const userCreateSchema = insertUserSchema.omit({ id: true, isActive: true, deactivatedAt: true });
+  const userUpdateSchema = userCreateSchema.partial();
+
+  const validateUserFields = (data: { password?: string; userType?: string; role?: string }) => {
+    if (data.password !== undefined && data.password.length < MIN_PASSWORD_LENGTH) {
+      return `password: must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    if (data.userType !== undefined && !UserType.includes(data.userType as UserType)) {
+      return `userType: must be one of ${UserType.join(', ')}`;
+    }
+    if (data.role !== undefined && !UserRole.includes(data.role as UserRole)) {
+      return `role: must be one of ${UserRole.join(', ')}`;
+    }
+    return null;
+  };
+
+  const findUsernameOwner = async (username: string) => {
+    const [owner] = await db.select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, username));
+    return owner;
+  };
+
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const result = userCreateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid user",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      const invalid = validateUserFields(result.data);
+      if (invalid) {
+        return res.status(400).json({ error: "Invalid user", details: invalid });
+      }
+
+      if (await findUsernameOwner(result.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const [newUser] = await db.insert(users)
+        .values({
+          ...result.data,
+          password: await hashPassword(result.data.password),
+        })
+        .returning();
+
+      userDirectory.invalidate(newUser.id);
+
+      res.status(201).json(toPublicUser(newUser));
+    } catch (error) {
+      console.error('Error creating user:', error);
+      res.status(500).json({
+        error: "Failed to create user",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.get("/api/users", requireAuth, async (req, res) => {
+    try {
+      const { active } = req.query;
+      const allUsers = await userDirectory.list({
+        active: active === undefined ? undefined : active === 'true'
+      });
+
+      res.json(allUsers);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.put("/api/users/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const result = userUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid user",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      // The edit form sends an empty password when it should stay unchanged
+      const { password, ...changes } = result.data;
+      const newPassword = password || undefined;
+
+      const invalid = validateUserFields({ ...changes, password: newPassword });
+      if (invalid) {
+        return res.status(400).json({ error: "Invalid user", details: invalid });
+      }
+
+      // Guard against an admin locking everyone out by demoting themselves
+      if (userId === req.user!.id && changes.role && changes.role !== 'admin') {
+        return res.status(409).json({
+          error: "Cannot change own role",
+          details: "Ask another admin to change your role"
+        });
+      }
+
+      if (changes.username) {
+        const owner = await findUsernameOwner(changes.username);
+        if (owner && owner.id !== userId) {
+          return res.status(409).json({ error: "Username already exists" });
+        }
+      }
+
+      const [updatedUser] = await db.update(users)
+        .set({
+          ...changes,
+          ...(newPassword ? { password: await hashPassword(newPassword) } : {}),
+        })
+        .where(eq(users.id, userId))
+        .returning();
+
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      userDirectory.invalidate(userId);
+
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({
+        error: "Failed to update user",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Soft delete. The response lists the provider's shifts that have not
+  // ended yet; they stay assigned until a scheduler reassigns them.
+  app.delete("/api/users/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      if (userId === req.user!.id) {
+        return res.status(409).json({
+          error: "Cannot deactivate own account",
+          details: "Ask another admin to deactivate your account"
+        });
+      }
+
+      const [deactivatedUser] = await db.update(users)
+        .set({ isActive: false, deactivatedAt: new Date() })
+        .where(and(eq(users.id, userId), eq(users.isActive, true)))
+        .returning();
+
+      if (!deactivatedUser) {
+        return await userDirectory.get(userId)
+          ? res.status(409).json({ error: "User already deactivated" })
+          : res.status(404).json({ error: "User not found" });
+      }
+
+      userDirectory.invalidate(userId);
+
+      const futureShifts = await getFutureShifts(userId);
+
+      res.json({
+        success: true,
+        message: futureShifts.length
+          ? `User deactivated; ${futureShifts.length} upcoming shift(s) need reassignment`
+          : "User deactivated successfully",
+        user: toPublicUser(deactivatedUser),
+        futureShifts,
+      });
+    } catch (error) {
+      console.error('Error deactivating user:', error);
+      res.status(500).json({
+        error: "Failed to deactivate user",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Upcoming shifts still owned by a user, used to reassign a deactivated
+  // provider's schedule
+  app.get("/api/users/:id/future-shifts", requireRole('scheduler'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      res.json(await getFutureShifts(userId));
+    } catch (error) {
+      console.error('Error fetching future shifts:', error);
+      res.status(500).json({
+        error: "Failed to fetch future shifts",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // User preference endpoints. `/me` resolves to the session user; the
+  // `/:userId` variants are used by the admin screens.
+  const userPreferencesUpdateSchema = insertUserPreferencesSchema
+    .omit({ id: true, userId: true, createdAt: true, updatedAt: true })
+    .partial();
+
+  const getPreferencesForUser = async (userId: number, res: Response) => {
+    try {
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const [preferences] = await db.select()
+        .from(userPreferences)
+        .where(eq(userPreferences.userId, userId));
+
+      if (preferences) {
+        return res.json(preferences);
+      }
+
+      // No row yet - hand back the column defaults so forms can render
+      res.json({
+        id: null,
+        userId,
+        preferredShiftLength: 7,
+        maxShiftsPerWeek: 1,
+        minDaysBetweenShifts: 0,
+        preferredDaysOfWeek: [],
+        avoidedDaysOfWeek: [],
+        preferredCoworkers: [],
+        preferredHolidays: [],
+        defaultView: 'dayGridMonth',
+        notificationPreferences: DEFAULT_NOTIFICATION_PREFERENCES,
+      });
+    } catch (error) {
+      console.error('Error fetching user preferences:', error);
+      res.status(500).json({
+        error: "Failed to fetch user preferences",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  const upsertPreferencesForUser = async (userId: number, body: unknown, res: Response) => {
+    try {
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const result = userPreferencesUpdateSchema.safeParse(body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid preferences",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      if (!await userDirectory.get(userId)) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const values = {
+        ...result.data,
+        notificationPreferences: result.data.notificationPreferences
+          ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...result.data.notificationPreferences }
+          : undefined,
+      };
+
+      const [preferences] = await db.insert(userPreferences)
+        .values({ ...values, userId })
+        .onConflictDoUpdate({
+          target: userPreferences.userId,
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+
+      res.json(preferences);
+    } catch (error) {
+      console.error('Error updating user preferences:', error);
+      res.status(500).json({
+        error: "Failed to update user preferences",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  app.get("/api/user-preferences/me", requireAuth, async (req, res) => {
+    await getPreferencesForUser(req.user!.id, res);
+  });
+
+  app.get("/api/user-preferences/:userId", requireAuth, async (req, res) => {
+    const userId = parseInt(req.params.userId);
+    if (!canActFor(req, userId)) {
+      return res.status(403).json({ error: "Forbidden", details: "You can only view your own preferences" });
+    }
+    await getPreferencesForUser(userId, res);
+  });
+
+  app.patch("/api/user-preferences/me", requireAuth, async (req, res) => {
+    await upsertPreferencesForUser(req.user!.id, req.body, res);
+  });
+
+  app.patch("/api/user-preferences/:userId", requireAuth, async (req, res) => {
+    const userId = parseInt(req.params.userId);
+    if (!canActFor(req, userId, 'admin')) {
+      return res.status(403).json({ error: "Forbidden", details: "You can only edit your own preferences" });
+    }
+    await upsertPreferencesForUser(userId, req.body, res);
+  });
+
+  // Historical patterns endpoint. `lookbackDays` controls how far back the
+  // pattern analysis reaches; current and upcoming shifts are always included.
+  app.get("/api/scheduling/historical-patterns", requireAuth, async (req, res) => {
+    try {
+      const lookbackDays = req.query.lookbackDays
+        ? parseInt(req.query.lookbackDays as string)
+        : DEFAULT_LOOKBACK_DAYS;
+
+      if (isNaN(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_LOOKBACK_DAYS) {
+        return res.status(400).json({
+          error: "Invalid lookback",
+          details: `lookbackDays must be between 1 and ${MAX_LOOKBACK_DAYS}`
+        });
+      }
+
+      const now = new Date();
+      const currentDateStr = format(now, 'yyyy-MM-dd');
+
+      const [analysis, currentShifts] = await Promise.all([
+        patternAnalysisService.analyze(lookbackDays),
+        db.select()
+          .from(shifts)
+          .where(
+            and(
+              gte(shifts.endDate, currentDateStr),
+              ne(shifts.status, 'archived'),
+              hiddenDrafts(req)
+            )
+          )
+          .orderBy(shifts.startDate)
+      ]);
+
+      res.json({
+        ...analysis,
+        currentAndUpcomingShifts: currentShifts.map(shift => {
+          const startDate = new Date(shift.startDate);
+          const endDate = new Date(shift.endDate);
+          return {
+            ...shift,
+            isUpcoming: startDate > now,
+            isCurrent: startDate <= now && endDate >= now
+          };
+        })
+      });
+    } catch (error) {
+      console.error('Error fetching historical patterns:', error);
+      res.status(500).json({
+        error: "Failed to fetch historical patterns",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Add chat endpoint with proper error handling
+  app.post("/api/chat", requireAuth, async (req, res) => {
+    try {
+      if (!req.body?.message) {
+        return res.status(400).json({
+          error: "Missing message in request body",
+          content: null
+        });
+      }
+
+      const openAIHandler = new OpenAIChatHandler();
       const response = await openAIHandler.handleChat(
         req.body.message,
         req.body.pageContext || {}
       );
 
-      if (!response) {
-        throw new Error('Failed to get response from AI handler');
+      if (!response) {
+        throw new Error('Failed to get response from AI handler');
+      }
+
+      res.json({ content: response });
+
+    } catch (error: any) {
+      console.error('Chat API Error:', error);
+      res.status(500).json({
+        error: error.message || 'Internal server error',
+        content: null
+      });
+    }
+  });
+
+  // Add swap requests endpoints
+  app.get("/api/swap-requests", requireAuth, async (req, res) => {
+    try {
+      const requestedUserId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      if (requestedUserId !== undefined && !canActFor(req, requestedUserId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view your own swap requests" });
+      }
+
+      // Providers only see the requests they are part of
+      const userId = hasRole(req.user, 'scheduler') ? requestedUserId : req.user!.id;
+
+      // Get all swap requests with their associated shifts
+      const requests = await db.query.swapRequests.findMany({
+        where: userId ?
+          or(
+            eq(swapRequests.requestorId, userId),
+            eq(swapRequests.recipientId, userId)
+          ) : undefined,
+        with: {
+          shift: true, // Include the related shift data
+          requestedShift: true
+        }
+      });
+
+      const enhancedRequests = await Promise.all(requests.map(async request => ({
+        ...request,
+        requestor: await userDirectory.summarize(request.requestorId),
+        recipient: await userDirectory.summarize(request.recipientId),
+      })));
+
+      res.setHeader('Content-Type', 'application/json');
+      res.json(enhancedRequests);
+    } catch (error) {
+      console.error('Error fetching swap requests:', error);
+      res.status(500).json({
+        error: "Failed to fetch swap requests",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/swap-requests", requireAuth, async (req, res) => {
+    try {
+      const { requestorId, recipientId, shiftId, requestedShiftId, reason, notes, expiresAt } = req.body;
+
+      if (!requestorId || !recipientId || !shiftId) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          details: "requestorId, recipientId, and shiftId are required"
+        });
+      }
+
+      if (!canActFor(req, requestorId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only request swaps for yourself" });
+      }
+
+      const deadline = expiresAt ? new Date(expiresAt) : null;
+      if (deadline && isNaN(deadline.getTime())) {
+        return res.status(400).json({ error: "Invalid expiry", details: "expiresAt must be a valid date" });
+      }
+
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
+      // With a requestedShiftId this is a two-way exchange, otherwise a giveaway
+      const outcome = await swapRequestService.create({
+        requestorId: parseInt(requestorId),
+        recipientId: parseInt(recipientId),
+        shiftId: parseInt(shiftId),
+        requestedShiftId: requestedShiftId ? parseInt(requestedShiftId) : null,
+        reason: reason ?? notes ?? null,
+        expiresAt: deadline,
+      }, conflictMode);
+
+      if (outcome.rejectedConflicts) {
+        return res.status(409).json({
+          error: "Schedule conflict",
+          details: outcome.rejectedConflicts.map(c => c.description).join('; '),
+          conflicts: outcome.rejectedConflicts
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      res.status(201).json(outcome.request);
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to create swap request");
+    }
+  });
+
+  // Generic transition endpoint. `expired` is reserved for the sweep, and
+  // accepting or rejecting goes through the same checks as /respond.
+  app.put("/api/swap-requests/:id", requireAuth, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { status } = req.body;
+
+      if (!requestId || !status) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          details: "request ID and status are required"
+        });
+      }
+
+      if (!['accepted', 'rejected', 'cancelled'].includes(status)) {
+        return res.status(400).json({
+          error: "Invalid status",
+          details: "Status must be one of: accepted, rejected, cancelled"
+        });
+      }
+
+      if (status === 'cancelled') {
+        await cancelSwapRequest(req, res, requestId);
+      } else {
+        await respondToSwapRequest(req, res, requestId, status);
+      }
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to update swap request");
+    }
+  });
+
+  // Requests are kept for history; DELETE withdraws (cancels) an open one
+  app.delete("/api/swap-requests/:id", requireAuth, async (req, res) => {
+    try {
+      await cancelSwapRequest(req, res, parseInt(req.params.id));
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to cancel swap request");
+    }
+  });
+
+  app.post("/api/swap-requests/:id/respond", requireAuth, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { status } = req.body;
+
+      if (!requestId || !status || !['accepted', 'rejected'].includes(status)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: "Request ID and valid status (accepted/rejected) are required"
+        });
+      }
+
+      await respondToSwapRequest(req, res, requestId, status);
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to process swap request response");
+    }
+  });
+
+  const findSwapRequest = async (requestId: number) => {
+    if (isNaN(requestId)) return undefined;
+    const [request] = await db.select()
+      .from(swapRequests)
+      .where(eq(swapRequests.id, requestId));
+    return request;
+  };
+
+  const cancelSwapRequest = async (req: Request, res: Response, requestId: number) => {
+    const existing = await findSwapRequest(requestId);
+    if (!existing) {
+      return res.status(404).json({ error: "Swap request not found" });
+    }
+
+    if (!canActFor(req, existing.requestorId)) {
+      return res.status(403).json({ error: "Forbidden", details: "Only the requestor can withdraw a swap request" });
+    }
+
+    const request = await swapRequestService.cancel(requestId);
+
+    res.setHeader('Content-Type', 'application/json');
+    res.json({ success: true, message: "Swap request cancelled successfully", request });
+  };
+
+  const respondToSwapRequest = async (
+    req: Request,
+    res: Response,
+    requestId: number,
+    status: 'accepted' | 'rejected'
+  ) => {
+    const conflictMode = getConflictMode(req);
+    if (!conflictMode) {
+      return res.status(400).json({
+        error: "Invalid conflict mode",
+        details: "conflictMode must be either 'reject' or 'warn'"
+      });
+    }
+
+    const existing = await findSwapRequest(requestId);
+    if (!existing) {
+      return res.status(404).json({ error: "Swap request not found" });
+    }
+
+    if (!canActFor(req, existing.recipientId)) {
+      return res.status(403).json({ error: "Forbidden", details: "Only the recipient can respond to a swap request" });
+    }
+
+    const outcome = await swapRequestService.respond(requestId, status, conflictMode, auditContext(req));
+
+    if (outcome.rejectedConflicts) {
+      return res.status(409).json({
+        error: "Schedule conflict",
+        details: outcome.rejectedConflicts.map(c => c.description).join('; '),
+        conflicts: outcome.rejectedConflicts
+      });
+    }
+
+    res.json({
+      success: true,
+      message: outcome.request.status === 'awaiting_approval'
+        ? "Swap accepted and sent for admin approval"
+        : `Swap request ${status}`,
+      request: outcome.request,
+      conflicts: outcome.conflicts
+    });
+  };
+
+  // Swap chains. Intents are swap requests of kind 'intent': "I offer this
+  // shift and want that one". They are withdrawn like any other request, via
+  // DELETE /api/swap-requests/:id, and settled only through a chain.
+  app.post("/api/swap-intents", requireAuth, async (req, res) => {
+    try {
+      const { shiftId, wantedShiftId, reason, expiresAt } = req.body;
+      const userId = req.body.userId ? parseInt(req.body.userId) : req.user!.id;
+
+      if (!shiftId || !wantedShiftId) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          details: "shiftId and wantedShiftId are required"
+        });
+      }
+
+      if (!canActFor(req, userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only post intents for yourself" });
+      }
+
+      const deadline = expiresAt ? new Date(expiresAt) : null;
+      if (deadline && isNaN(deadline.getTime())) {
+        return res.status(400).json({ error: "Invalid expiry", details: "expiresAt must be a valid date" });
+      }
+
+      const outcome = await swapChainService.postIntent({
+        userId,
+        shiftId: parseInt(shiftId),
+        wantedShiftId: parseInt(wantedShiftId),
+        reason: reason ?? null,
+        expiresAt: deadline,
+      });
+
+      res.status(201).json(outcome);
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to post swap intent");
+    }
+  });
+
+  // Providers see the chains they are part of; schedulers see all of them
+  app.get("/api/swap-chains", requireAuth, async (req, res) => {
+    try {
+      const userId = hasRole(req.user, 'scheduler')
+        ? (req.query.userId ? parseInt(req.query.userId as string) : undefined)
+        : req.user!.id;
+
+      if (userId !== undefined && isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      res.json(await swapChainService.list({ userId }));
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to fetch swap chains");
+    }
+  });
+
+  app.get("/api/swap-chains/:id", requireAuth, async (req, res) => {
+    try {
+      const chain = await swapChainService.get(parseInt(req.params.id));
+      if (!chain) {
+        return res.status(404).json({ error: "Swap chain not found" });
+      }
+
+      const isParticipant = chain.participants.some(p => p.userId === req.user!.id);
+      if (!isParticipant && !hasRole(req.user, 'scheduler')) {
+        return res.status(403).json({ error: "Forbidden", details: "You are not part of this swap chain" });
+      }
+
+      res.json(chain);
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to fetch swap chain");
+    }
+  });
+
+  app.post("/api/swap-chains/:id/respond", requireAuth, async (req, res) => {
+    try {
+      const chainId = parseInt(req.params.id);
+      const { response } = req.body;
+      const userId = req.body.userId ? parseInt(req.body.userId) : req.user!.id;
+
+      if (!chainId || !['accepted', 'declined'].includes(response)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: "Chain ID and valid response (accepted/declined) are required"
+        });
+      }
+
+      if (!canActFor(req, userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only respond for yourself" });
+      }
+
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
+      const outcome = await swapChainService.respond(chainId, userId, response, conflictMode, auditContext(req));
+
+      if (outcome.rejectedConflicts) {
+        return res.status(409).json({
+          error: "Schedule conflict",
+          details: outcome.rejectedConflicts.map(c => c.description).join('; '),
+          conflicts: outcome.rejectedConflicts
+        });
+      }
+
+      res.json({
+        success: true,
+        message: outcome.chain.status === 'committed'
+          ? "Swap chain committed"
+          : outcome.chain.status === 'awaiting_approval'
+            ? "Swap chain accepted and sent for admin approval"
+            : `Swap chain ${response}`,
+        chain: outcome.chain,
+        conflicts: outcome.conflicts
+      });
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to respond to swap chain");
+    }
+  });
+
+  // Giveaway board. Schedulers see every open posting; providers see their
+  // own plus the ones they are eligible to claim.
+  app.get("/api/open-shifts", requireAuth, async (req, res) => {
+    try {
+      const viewerId = hasRole(req.user, 'scheduler') ? undefined : req.user!.id;
+      res.json(await shiftMarketplaceService.listOpen(viewerId));
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to fetch open shifts");
+    }
+  });
+
+  app.post("/api/open-shifts", requireAuth, async (req, res) => {
+    try {
+      const { shiftId, reason, expiresAt } = req.body;
+
+      if (!shiftId) {
+        return res.status(400).json({ error: "Missing required fields", details: "shiftId is required" });
+      }
+
+      const [shift] = await db.select().from(shifts).where(eq(shifts.id, parseInt(shiftId)));
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      if (!canActFor(req, shift.userId, 'admin')) {
+        return res.status(403).json({ error: "Forbidden", details: "Only the shift's owner or an admin can post it" });
+      }
+
+      const deadline = expiresAt ? new Date(expiresAt) : null;
+      if (deadline && isNaN(deadline.getTime())) {
+        return res.status(400).json({ error: "Invalid expiry", details: "expiresAt must be a valid date" });
+      }
+
+      const posting = await shiftMarketplaceService.post({
+        shiftId: shift.id,
+        reason: reason ?? null,
+        expiresAt: deadline,
+      });
+
+      res.status(201).json(posting);
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to post open shift");
+    }
+  });
+
+  app.post("/api/open-shifts/:id/claim", requireAuth, async (req, res) => {
+    try {
+      const userId = req.body.userId ? parseInt(req.body.userId) : req.user!.id;
+
+      if (!canActFor(req, userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only claim shifts for yourself" });
+      }
+
+      const outcome = await shiftMarketplaceService.claim(parseInt(req.params.id), userId, auditContext(req));
+
+      res.json({
+        success: true,
+        message: outcome.request.status === 'awaiting_approval' ? "Claim sent for admin approval" : "Shift claimed",
+        ...outcome
+      });
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to claim open shift");
+    }
+  });
+
+  // Withdrawing a posting is an ordinary swap request cancellation
+  app.delete("/api/open-shifts/:id", requireAuth, async (req, res) => {
+    try {
+      await cancelSwapRequest(req, res, parseInt(req.params.id));
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to withdraw open shift");
+    }
+  });
+
+  // Swaps both parties accepted but a require_approval scheduling rule held
+  // back, including open shift claims and whole swap chains. Nothing is
+  // reassigned until an admin approves.
+  app.get("/api/swap-approvals", requireRole('admin'), async (_req, res) => {
+    try {
+      const held = await db.query.swapRequests.findMany({
+        where: eq(swapRequests.status, 'awaiting_approval'),
+        with: {
+          shift: true,
+          requestedShift: true,
+          approvalRule: true
+        },
+        orderBy: asc(swapRequests.updatedAt)
+      });
+
+      // A held chain is listed once, through one of its intents
+      const chainIds = new Set<number>();
+      const listed = held.filter(request => {
+        if (request.kind !== 'intent' || !request.chainId) return true;
+        if (chainIds.has(request.chainId)) return false;
+        chainIds.add(request.chainId);
+        return true;
+      });
+
+      res.json(await Promise.all(listed.map(async request => ({
+        ...request,
+        requestor: await userDirectory.summarize(request.requestorId),
+        recipient: await userDirectory.summarize(request.recipientId),
+        chain: request.chainId ? await swapChainService.get(request.chainId) ?? null : null,
+      }))));
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to fetch swap approvals");
+    }
+  });
+
+  const reviewSwapRequest = async (req: Request, res: Response, decision: 'accepted' | 'rejected') => {
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ error: "Invalid request ID" });
+      }
+
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
+      const outcome = await swapRequestService.review(requestId, req.user!.id, decision, conflictMode, auditContext(req));
+
+      if (outcome.rejectedConflicts) {
+        return res.status(409).json({
+          error: "Schedule conflict",
+          details: outcome.rejectedConflicts.map(c => c.description).join('; '),
+          conflicts: outcome.rejectedConflicts
+        });
+      }
+
+      res.json({
+        success: true,
+        message: decision === 'accepted' ? "Swap approved" : "Swap rejected",
+        request: outcome.request,
+        conflicts: outcome.conflicts
+      });
+    } catch (error) {
+      sendSwapRequestError(res, error, "Failed to review swap request");
+    }
+  };
+
+  app.post("/api/swap-approvals/:id/approve", requireRole('admin'), async (req, res) => {
+    await reviewSwapRequest(req, res, 'accepted');
+  });
+
+  app.post("/api/swap-approvals/:id/reject", requireRole('admin'), async (req, res) => {
+    await reviewSwapRequest(req, res, 'rejected');
+  });
+
+  // Scheduling rules. Rules are referenced by conflicts and held swaps, so
+  // DELETE deactivates rather than removes them.
+  const ruleCreateSchema = insertSchedulingRuleSchema.omit({ id: true, createdAt: true, updatedAt: true });
+  const ruleUpdateSchema = ruleCreateSchema.partial();
+
+  const validateRuleConditions = (strategy: ResolutionStrategy, conditions: unknown) => {
+    if (strategy !== 'require_approval') return null;
+    const result = swapApprovalConditionsSchema.safeParse(conditions);
+    return result.success
+      ? null
+      : result.error.issues.map(i => `conditions${i.path.length ? '.' + i.path.join('.') : ''}: ${i.message}`).join(", ");
+  };
+
+  app.get("/api/scheduling-rules", requireRole('scheduler'), async (_req, res) => {
+    try {
+      const rules = await db.select()
+        .from(schedulingRules)
+        .orderBy(desc(schedulingRules.priority));
+      res.json(rules);
+    } catch (error) {
+      console.error('Error fetching scheduling rules:', error);
+      res.status(500).json({ error: "Failed to fetch scheduling rules" });
+    }
+  });
+
+  app.post("/api/scheduling-rules", requireRole('admin'), async (req, res) => {
+    try {
+      const result = ruleCreateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid scheduling rule",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      const invalid = validateRuleConditions(result.data.strategy, result.data.conditions);
+      if (invalid) {
+        return res.status(400).json({ error: "Invalid scheduling rule", details: invalid });
+      }
+
+      const [rule] = await db.insert(schedulingRules)
+        .values(result.data)
+        .returning();
+
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error('Error creating scheduling rule:', error);
+      res.status(500).json({
+        error: "Failed to create scheduling rule",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.put("/api/scheduling-rules/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const ruleId = parseInt(req.params.id);
+      if (isNaN(ruleId)) {
+        return res.status(400).json({ error: "Invalid rule ID" });
+      }
+
+      const result = ruleUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid scheduling rule",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      const [existing] = await db.select()
+        .from(schedulingRules)
+        .where(eq(schedulingRules.id, ruleId));
+
+      if (!existing) {
+        return res.status(404).json({ error: "Scheduling rule not found" });
+      }
+
+      const invalid = validateRuleConditions(
+        result.data.strategy ?? existing.strategy,
+        result.data.conditions ?? existing.conditions
+      );
+      if (invalid) {
+        return res.status(400).json({ error: "Invalid scheduling rule", details: invalid });
+      }
+
+      const [rule] = await db.update(schedulingRules)
+        .set({ ...result.data, updatedAt: new Date() })
+        .where(eq(schedulingRules.id, ruleId))
+        .returning();
+
+      res.json(rule);
+    } catch (error) {
+      console.error('Error updating scheduling rule:', error);
+      res.status(500).json({
+        error: "Failed to update scheduling rule",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.delete("/api/scheduling-rules/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const ruleId = parseInt(req.params.id);
+      if (isNaN(ruleId)) {
+        return res.status(400).json({ error: "Invalid rule ID" });
+      }
+
+      const [rule] = await db.update(schedulingRules)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(schedulingRules.id, ruleId))
+        .returning();
+
+      if (!rule) {
+        return res.status(404).json({ error: "Scheduling rule not found" });
+      }
+
+      res.json({ success: true, message: "Scheduling rule deactivated", rule });
+    } catch (error) {
+      console.error('Error deactivating scheduling rule:', error);
+      res.status(500).json({
+        error: "Failed to deactivate scheduling rule",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Fills a planning period's weeks with generated shifts. With dryRun the
+  // proposal and report are returned without writing anything.
+  app.post("/api/schedule/generate", requireRole('scheduler'), async (req, res) => {
+    try {
+      const { startDate, endDate, dryRun } = req.body ?? {};
+      if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+        return res.status(400).json({
+          error: "Missing required fields",
+          details: "startDate and endDate are required"
+        });
+      }
+
+      const result = await scheduleGenerator.generate({ startDate, endDate }, auditContext(req), { dryRun: dryRun === true });
+      res.status(dryRun === true ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof ScheduleGenerationError) {
+        return res.status(400).json({ error: "Invalid planning period", details: error.message });
+      }
+
+      console.error('Error generating schedule:', error);
+      res.status(500).json({
+        error: "Failed to generate schedule",
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Schedule periods: stretches of the schedule planned as drafts and
+  // published in one go
+  app.get("/api/schedule-periods", requireRole('scheduler'), async (_req, res) => {
+    try {
+      res.json(await schedulePeriodService.list());
+    } catch (error) {
+      sendSchedulePeriodError(res, error, "Failed to fetch schedule periods");
+    }
+  });
+
+  app.post("/api/schedule-periods", requireRole('scheduler'), async (req, res) => {
+    try {
+      const { name, startDate, endDate } = req.body ?? {};
+      const period = await schedulePeriodService.create({
+        name,
+        startDate,
+        endDate,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(period);
+    } catch (error) {
+      sendSchedulePeriodError(res, error, "Failed to create schedule period");
+    }
+  });
+
+  app.post("/api/schedule-periods/:id/publish", requireRole('scheduler'), async (req, res) => {
+    try {
+      res.json(await schedulePeriodService.publish(parseInt(req.params.id), auditContext(req)));
+    } catch (error) {
+      sendSchedulePeriodError(res, error, "Failed to publish schedule period");
+    }
+  });
+
+  // Discards a draft period and its draft shifts
+  app.delete("/api/schedule-periods/:id", requireRole('scheduler'), async (req, res) => {
+    try {
+      res.json(await schedulePeriodService.discard(parseInt(req.params.id), auditContext(req)));
+    } catch (error) {
+      sendSchedulePeriodError(res, error, "Failed to discard schedule period");
+    }
+  });
+
+  // Schedule snapshots: named copies of a date range to compare against and
+  // roll back to
+  app.get("/api/schedule-snapshots", requireRole('scheduler'), async (_req, res) => {
+    try {
+      res.json(await scheduleSnapshotService.list());
+    } catch (error) {
+      sendScheduleSnapshotError(res, error, "Failed to fetch snapshots");
+    }
+  });
+
+  app.post("/api/schedule-snapshots", requireRole('scheduler'), async (req, res) => {
+    try {
+      const { name, startDate, endDate } = req.body ?? {};
+      const snapshot = await scheduleSnapshotService.capture({
+        name,
+        startDate,
+        endDate,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(snapshot);
+    } catch (error) {
+      sendScheduleSnapshotError(res, error, "Failed to create snapshot");
+    }
+  });
+
+  // Compares the snapshot with ?against=<snapshot id>, or with the live
+  // schedule when omitted
+  app.get("/api/schedule-snapshots/:id/diff", requireRole('scheduler'), async (req, res) => {
+    try {
+      const against = req.query.against;
+      const diff = await scheduleSnapshotService.diff(
+        parseInt(req.params.id),
+        against === undefined || against === 'live' ? 'live' : parseInt(String(against))
+      );
+      res.json(diff);
+    } catch (error) {
+      sendScheduleSnapshotError(res, error, "Failed to compare snapshots");
+    }
+  });
+
+  app.post("/api/schedule-snapshots/:id/rollback", requireRole('scheduler'), async (req, res) => {
+    try {
+      res.json(await scheduleSnapshotService.rollback(parseInt(req.params.id), auditContext(req)));
+    } catch (error) {
+      sendScheduleSnapshotError(res, error, "Failed to roll back to snapshot");
+    }
+  });
+
+  app.delete("/api/schedule-snapshots/:id", requireRole('scheduler'), async (req, res) => {
+    try {
+      await scheduleSnapshotService.remove(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      sendScheduleSnapshotError(res, error, "Failed to delete snapshot");
+    }
+  });
+
+  // Shift audit log: every change to a shift with who made it and how, and
+  // one-step undo of the latest change
+  app.get("/api/shifts/:id/audit", requireAuth, async (req, res) => {
+    try {
+      const shiftId = parseInt(req.params.id);
+      if (!shiftId) {
+        return res.status(400).json({ error: "Invalid shift ID" });
       }
 
-      res.json({ content: response });
+      const isScheduler = hasRole(req.user, 'scheduler');
+      const entries = await shiftAuditService.forShift(shiftId, { includeDrafts: isScheduler });
 
-    } catch (error: any) {
-      console.error('Chat API Error:', error);
-      res.status(500).json({
-        error: error.message || 'Internal server error',
-        content: null
-      });
+      // Providers can follow shifts they have held at some point
+      if (!isScheduler && !entries.some(entry => entry.userIds.includes(req.user!.id))) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view the history of your own shifts" });
+      }
+
+      res.json(entries);
+    } catch (error) {
+      sendShiftAuditError(res, error, "Failed to fetch shift history");
     }
   });
 
-  // Add swap requests endpoints
-  app.get("/api/swap-requests", async (req, res) => {
+  app.get("/api/users/:id/shift-audit", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+      if (!canActFor(req, userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view your own shift history" });
+      }
 
-      // Mock user data for now since we haven't implemented the full user system
-      const users = [
-        { id: 1, name: "Dr. Smith", title: "Physician" },
-        { id: 2, name: "Dr. Johnson", title: "Physician" },
-        { id: 3, name: "Dr. Williams", title: "Physician" },
-        { id: 4, name: "Sarah Brown", title: "APP" },
-        { id: 5, name: "Mike Davis", title: "APP" }
-      ];
+      res.json(await shiftAuditService.forProvider(userId, {
+        includeDrafts: hasRole(req.user, 'scheduler'),
+      }));
+    } catch (error) {
+      sendShiftAuditError(res, error, "Failed to fetch shift history");
+    }
+  });
 
-      // Get all swap requests with their associated shifts
-      const requests = await db.query.swapRequests.findMany({
-        where: userId ?
-          or(
-            eq(swapRequests.requestorId, userId),
-            eq(swapRequests.recipientId, userId)
-          ) : undefined,
-        with: {
-          shift: true // Include the related shift data
+  app.post("/api/shift-audit/:id/revert", requireRole('scheduler'), async (req, res) => {
+    try {
+      res.json(await shiftAuditService.revert(parseInt(req.params.id), auditContext(req)));
+    } catch (error) {
+      sendShiftAuditError(res, error, "Failed to revert change");
+    }
+  });
+
+  // Time-off request endpoints
+  app.get("/api/time-off-requests", requireAuth, async (req, res) => {
+    try {
+      const { userId, status, startDate, endDate } = req.query;
+      const conditions = [];
+
+      if (userId) {
+        const parsedUserId = parseInt(userId as string);
+        if (isNaN(parsedUserId)) {
+          return res.status(400).json({ error: "Invalid user ID" });
         }
-      });
+        if (!canActFor(req, parsedUserId)) {
+          return res.status(403).json({ error: "Forbidden", details: "You can only view your own requests" });
+        }
+        conditions.push(eq(timeOffRequests.userId, parsedUserId));
+      } else if (!hasRole(req.user, 'scheduler')) {
+        // Providers only see their own requests
+        conditions.push(eq(timeOffRequests.userId, req.user!.id));
+      }
 
-      // Enhance the requests with user data and ensure proper date formatting
-      const enhancedRequests = requests.map(request => {
-        // Format the shift dates if they exist
-        const formattedShift = request.shift ? {
-          ...request.shift,
-          // Ensure dates are properly formatted strings
-          startDate: request.shift.startDate,
-          endDate: request.shift.endDate
-        } : null;
+      if (status) {
+        if (!TimeOffRequestStatus.includes(status as TimeOffRequestStatus)) {
+          return res.status(400).json({
+            error: "Invalid status",
+            details: `Status must be one of: ${TimeOffRequestStatus.join(', ')}`
+          });
+        }
+        conditions.push(eq(timeOffRequests.status, status as TimeOffRequestStatus));
+      }
 
-        return {
-          ...request,
-          shift: formattedShift,
-          requestor: users.find(u => u.id === request.requestorId) || {
-            id: request.requestorId,
-            name: `User ${request.requestorId}`,
-            title: "Unknown"
-          },
-          recipient: users.find(u => u.id === request.recipientId) || {
-            id: request.recipientId,
-            name: `User ${request.recipientId}`,
-            title: "Unknown"
-          }
-        };
+      // Return every request that overlaps the given window
+      if (startDate) {
+        conditions.push(gte(timeOffRequests.endDate, startDate as string));
+      }
+      if (endDate) {
+        conditions.push(lte(timeOffRequests.startDate, endDate as string));
+      }
+
+      const requests = await db.select()
+        .from(timeOffRequests)
+        .where(conditions.length ? and(...conditions) : undefined)
+        .orderBy(asc(timeOffRequests.startDate));
+
+      res.json(requests);
+    } catch (error) {
+      console.error('Error fetching time-off requests:', error);
+      res.status(500).json({
+        error: "Failed to fetch time-off requests",
+        details: error instanceof Error ? error.message : 'Unknown error'
       });
+    }
+  });
 
-      console.log('Enhanced requests with shift data:', enhancedRequests);
+  app.get("/api/time-off-requests/:id", requireAuth, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ error: "Invalid request ID" });
+      }
 
-      res.setHeader('Content-Type', 'application/json');
-      res.json(enhancedRequests);
+      const [request] = await db.select()
+        .from(timeOffRequests)
+        .where(eq(timeOffRequests.id, requestId));
+
+      if (!request) {
+        return res.status(404).json({ error: "Time-off request not found" });
+      }
+
+      if (!canActFor(req, request.userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only view your own requests" });
+      }
+
+      res.json(request);
     } catch (error) {
-      console.error('Error fetching swap requests:', error);
+      console.error('Error fetching time-off request:', error);
       res.status(500).json({
-        error: "Failed to fetch swap requests",
+        error: "Failed to fetch time-off request",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
-  app.post("/api/swap-requests", async (req, res) => {
+  app.post("/api/time-off-requests", requireAuth, async (req, res) => {
     try {
-      const { requestorId, recipientId, shiftId, notes } = req.body;
+      const result = insertTimeOffRequestSchema.safeParse({
+        ...req.body,
+        userId: req.body?.userId ? parseInt(req.body.userId) : undefined,
+      });
 
-      if (!requestorId || !recipientId || !shiftId) {
+      if (!result.success) {
         return res.status(400).json({
-          error: "Missing required fields",
-          details: "requestorId, recipientId, and shiftId are required"
+          error: "Invalid time-off request",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      const { userId, startDate, endDate, status, reason } = result.data;
+
+      if (!canActFor(req, userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only request time off for yourself" });
+      }
+
+      // Only schedulers may file a request that is already decided
+      if (status && status !== 'pending' && !hasRole(req.user, 'scheduler')) {
+        return res.status(403).json({ error: "Forbidden", details: "Only schedulers can approve or reject time off" });
+      }
+
+      if (parseISO(endDate) < parseISO(startDate)) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          details: "End date must be on or after start date"
         });
       }
 
-      const [newRequest] = await db
-        .insert(swapRequests)
+      const [newRequest] = await db.insert(timeOffRequests)
         .values({
-          requestorId,
-          recipientId,
-          shiftId,
-          status: 'pending',
-          notes: notes || '',
-          createdAt: new Date(),
+          userId,
+          startDate,
+          endDate,
+          status: status || 'pending',
+          reason,
         })
         .returning();
 
-      res.setHeader('Content-Type', 'application/json');
+      ws.sendToUser(newRequest.userId, notify.timeOffRequested(newRequest), 'scheduler');
+
       res.status(201).json(newRequest);
     } catch (error) {
-      console.error('Error creating swap request:', error);
+      console.error('Error creating time-off request:', error);
       res.status(500).json({
-        error: "Failed to create swap request",
+        error: "Failed to create time-off request",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
-  app.put("/api/swap-requests/:id", async (req, res) => {
+  app.put("/api/time-off-requests/:id", requireAuth, async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
-      const { status } = req.body;
+      if (isNaN(requestId)) {
+        return res.status(400).json({ error: "Invalid request ID" });
+      }
 
-      if (!requestId || !status) {
+      const result = insertTimeOffRequestSchema
+        .pick({ startDate: true, endDate: true, reason: true })
+        .partial()
+        .safeParse(req.body);
+
+      if (!result.success) {
         return res.status(400).json({
-          error: "Missing required fields",
-          details: "request ID and status are required"
+          error: "Invalid time-off request",
+          details: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(", ")
+        });
+      }
+
+      const [existing] = await db.select()
+        .from(timeOffRequests)
+        .where(eq(timeOffRequests.id, requestId));
+
+      if (!existing) {
+        return res.status(404).json({ error: "Time-off request not found" });
+      }
+
+      if (!canActFor(req, existing.userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only edit your own requests" });
+      }
+
+      if (existing.status !== 'pending') {
+        return res.status(409).json({
+          error: "Request already processed",
+          details: `Only pending requests can be edited (current status: ${existing.status})`
+        });
+      }
+
+      const startDate = result.data.startDate ?? existing.startDate;
+      const endDate = result.data.endDate ?? existing.endDate;
+
+      if (parseISO(endDate) < parseISO(startDate)) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          details: "End date must be on or after start date"
         });
       }
 
-      const [updatedRequest] = await db
-        .update(swapRequests)
+      const [updatedRequest] = await db.update(timeOffRequests)
         .set({
-          status,
-          updatedAt: new Date()
+          startDate,
+          endDate,
+          reason: result.data.reason ?? existing.reason,
         })
-        .where(eq(swapRequests.id, requestId))
+        .where(eq(timeOffRequests.id, requestId))
         .returning();
 
-      if (!updatedRequest) {
-        return res.status(404).json({ error: "Swap request not found" });
-      }
+      ws.sendToUser(updatedRequest.userId, notify.timeOffRequested(updatedRequest), 'scheduler');
 
-      res.setHeader('Content-Type', 'application/json');
       res.json(updatedRequest);
     } catch (error) {
-      console.error('Error updating swap request:', error);
+      console.error('Error updating time-off request:', error);
       res.status(500).json({
-        error: "Failed to update swap request",
+        error: "Failed to update time-off request",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
-  app.delete("/api/swap-requests/:id", async (req, res) => {
+  // Approve or reject a pending request. PATCH with a status is kept for the
+  // admin screens; the explicit /approve and /reject routes share the handler.
+  const respondToTimeOffRequest = async (
+    requestId: number,
+    status: 'approved' | 'rejected',
+    reason: string | undefined,
+    res: Response
+  ) => {
     try {
-      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ error: "Invalid request ID" });
+      }
 
-      const [deletedRequest] = await db
-        .delete(swapRequests)
-        .where(eq(swapRequests.id, requestId))
-        .returning();
+      const [existing] = await db.select()
+        .from(timeOffRequests)
+        .where(eq(timeOffRequests.id, requestId));
 
-      if (!deletedRequest) {
-        return res.status(404).json({ error: "Swap request not found" });
+      if (!existing) {
+        return res.status(404).json({ error: "Time-off request not found" });
       }
 
-      res.setHeader('Content-Type', 'application/json');
-      res.json({ success: true, message: "Swap request deleted successfully" });
+      if (existing.status !== 'pending') {
+        return res.status(409).json({
+          error: "Request already processed",
+          details: `Only pending requests can be ${status} (current status: ${existing.status})`
+        });
+      }
+
+      const [updatedRequest] = await db.update(timeOffRequests)
+        .set({
+          status,
+          // The admin screens display `reason` as the rejection note
+          reason: status === 'rejected' && reason ? reason : existing.reason,
+        })
+        .where(eq(timeOffRequests.id, requestId))
+        .returning();
+
+      ws.sendToUser(updatedRequest.userId, notify.timeOffResponded(updatedRequest), 'scheduler');
+
+      res.json(updatedRequest);
     } catch (error) {
-      console.error('Error deleting swap request:', error);
+      console.error(`Error processing time-off request (${status}):`, error);
       res.status(500).json({
-        error: "Failed to delete swap request",
+        error: "Failed to process time-off request",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
+  };
+
+  app.patch("/api/time-off-requests/:id", requireRole('scheduler'), async (req, res) => {
+    const { status, reason } = req.body;
+
+    if (status !== 'approved' && status !== 'rejected') {
+      return res.status(400).json({
+        error: "Invalid status",
+        details: "Status must be either 'approved' or 'rejected'"
+      });
+    }
+
+    await respondToTimeOffRequest(parseInt(req.params.id), status, reason, res);
+  });
+
+  app.post("/api/time-off-requests/:id/approve", requireRole('scheduler'), async (req, res) => {
+    await respondToTimeOffRequest(parseInt(req.params.id), 'approved', undefined, res);
+  });
+
+  app.post("/api/time-off-requests/:id/reject", requireRole('scheduler'), async (req, res) => {
+    await respondToTimeOffRequest(parseInt(req.params.id), 'rejected', req.body?.reason, res);
   });
 
-  app.post("/api/swap-requests/:id/respond", async (req, res) => {
+  app.delete("/api/time-off-requests/:id", requireAuth, async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
-      const { status } = req.body;
+      if (isNaN(requestId)) {
+        return res.status(400).json({ error: "Invalid request ID" });
+      }
 
-      if (!requestId || !status || !['accepted', 'rejected'].includes(status)) {
-        return res.status(400).json({
-          error: "Invalid request",
-          details: "Request ID and valid status (accepted/rejected) are required"
-        });
+      const [existing] = await db.select()
+        .from(timeOffRequests)
+        .where(eq(timeOffRequests.id, requestId));
+
+      if (!existing) {
+        return res.status(404).json({ error: "Time-off request not found" });
       }
 
-      // Start a transaction
-      await db.transaction(async (tx) => {
-        // 1. Get the swap request with shift details
-        const [request] = await tx
-          .select()
-          .from(swapRequests)
-          .where(eq(swapRequests.id, requestId));
+      if (!canActFor(req, existing.userId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only cancel your own requests" });
+      }
 
-        if (!request) {
-          throw new Error("Swap request not found");
-        }
+      const [deletedRequest] = await db.delete(timeOffRequests)
+        .where(eq(timeOffRequests.id, requestId))
+        .returning();
 
-        // Update the swap request status
-        await tx
-          .update(swapRequests)
-          .set({
-            status,
-            updatedAt: new Date()
-          })
-          .where(eq(swapRequests.id, requestId));
-
-        // If accepted, update the shift assignment
-        if (status === 'accepted' && request.shiftId) {
-          // Get the shift details
-          const [shift] = await tx
-            .select()
-            .from(shifts)
-            .where(eq(shifts.id, request.shiftId));
-
-          if (!shift) {
-            throw new Error("Associated shift not found");
-          }
+      if (!deletedRequest) {
+        return res.status(404).json({ error: "Time-off request not found" });
+      }
 
-          // Update the shift's userId to the recipient
-          await tx
-            .update(shifts)
-            .set({
-              userId: request.recipientId,
-              updatedAt: new Date()
-            })
-            .where(eq(shifts.id, request.shiftId));
-        }
-      });
+      ws.sendToUser(deletedRequest.userId, notify.timeOffCancelled(deletedRequest), 'scheduler');
 
-      // Send success response
       res.json({
         success: true,
-        message: `Swap request ${status}`,
+        message: "Time-off request cancelled successfully",
+        deletedRequest
       });
-
     } catch (error) {
-      console.error('Error responding to swap request:', error);
+      console.error('Error cancelling time-off request:', error);
       res.status(500).json({
-        error: "Failed to process swap request response",
+        error: "Failed to cancel time-off request",
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
+  // Chat room endpoints. Rooms are only readable by their members.
+  const isRoomMember = async (roomId: number, userId: number) => {
+    const [membership] = await db.select({ userId: roomMembers.userId })
+      .from(roomMembers)
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+      .limit(1);
+    return !!membership;
+  };
 
-  // Chat room endpoints
-  app.get("/api/chat/rooms/:id", async (req, res) => {
+  app.get("/api/chat/rooms/:id", requireAuth, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
       if (isNaN(roomId)) {
         return res.status(400).json({ error: "Invalid room ID" });
       }
 
+      if (!await isRoomMember(roomId, req.user!.id)) {
+        return res.status(403).json({ error: "Forbidden", details: "You are not a member of this room" });
+      }
+
       // Query the chat room directly from the database
       const rooms = await db.select()
         .from(chatRooms)
@@ -779,13 +2651,17 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     }
   });
 
-  app.get("/api/chat/rooms/:id/messages", async (req, res) => {
+  app.get("/api/chat/rooms/:id/messages", requireAuth, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
       if (isNaN(roomId)) {
         return res.status(400).json({ error: "Invalid room ID" });
       }
 
+      if (!await isRoomMember(roomId, req.user!.id)) {
+        return res.status(403).json({ error: "Forbidden", details: "You are not a member of this room" });
+      }
+
       const messagesWithSenders = await db.select({
         id: messages.id,
         content: messages.content,
@@ -822,7 +2698,7 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
     }
   });
 
-  app.post("/api/chat/rooms/:id/messages", async (req, res) => {
+  app.post("/api/chat/rooms/:id/messages", requireAuth, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
       const { content, senderId } = req.body;
@@ -834,6 +2710,14 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         });
       }
 
+      if (senderId !== req.user!.id) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only send messages as yourself" });
+      }
+
+      if (!await isRoomMember(roomId, senderId)) {
+        return res.status(403).json({ error: "Forbidden", details: "You are not a member of this room" });
+      }
+
       // Insert the new message
       const [newMessage] = await db.insert(messages)
         .values({
@@ -845,27 +2729,17 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         })
         .returning();
 
-      // Get the sender details
-      const sender = await db.select({
-        name: users.name,
-        title: users.title
-      })
-        .from(users)
-        .where(eq(users.id, senderId))
-        .limit(1);
+      const sender = await userDirectory.summarize(senderId);
 
       // Format the response
       const formattedMessage = {
         ...newMessage,
         createdAt: newMessage.createdAt?.toISOString(),
-        sender: sender[0] || {
-          name: 'Unknown User',
-          title: 'Unknown'
-        }
+        sender: { name: sender.name, title: sender.title }
       };
 
-      // Broadcast the new message to all connected clients
-      ws.broadcast({
+      // Only the room's members receive the message
+      await ws.sendToRoom(roomId, {
         type: 'chat_message',
         data: formattedMessage,
         timestamp: new Date().toISOString()
@@ -882,7 +2756,7 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
   });
 
   // Handle iCal calendar import
-  app.post("/api/integrations/qgenda/import-ical", async (req, res) => {
+  app.post("/api/integrations/qgenda/import-ical", requireAuth, async (req, res) => {
     try {
       const { subscriptionUrl, userId } = req.body;
 
@@ -893,48 +2767,96 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
         });
       }
 
+      if (!canActFor(req, parseInt(userId))) {
+        return res.status(403).json({ error: "Forbidden", details: "You can only import your own schedule" });
+      }
+
+      if (!await userDirectory.getActive(parseInt(userId))) {
+        return res.status(400).json({
+          error: "Invalid user",
+          details: "The specified user does not exist or has been deactivated"
+        });
+      }
+
+      const conflictMode = getConflictMode(req);
+      if (!conflictMode) {
+        return res.status(400).json({
+          error: "Invalid conflict mode",
+          details: "conflictMode must be either 'reject' or 'warn'"
+        });
+      }
+
       // Fetch and parse the iCal feed
       const events = await ical.async.fromURL(subscriptionUrl);
 
       // Transform events to shifts
-      const shiftsToInsert = [];
+      const operations: ShiftOperation[] = [];
 
       for (const [, event] of Object.entries(events)) {
         if (event.type !== 'VEVENT') continue;
 
         if (event.start && event.end) {
-          const shift = {
+          operations.push({
+            op: 'create',
             userId: parseInt(userId),
             startDate: format(event.start, 'yyyy-MM-dd'),
             endDate: format(event.end, 'yyyy-MM-dd'),
-            status: 'confirmed',
             source: 'qgenda',
             schedulingNotes: {
               importedFrom: 'qgenda',
               summary: event.summary,
               description: event.description
-            },
-            createdAt: new Date()
-          };
-
-          shiftsToInsert.push(shift);
+            }
+          });
         }
       }
 
-      // Insert the shifts into the database
-      const insertedShifts = await db.insert(shifts)
-        .values(shiftsToInsert)
-        .returning();
+      if (!operations.length) {
+        return res.status(200).json({
+          success: true,
+          message: "No shifts found in calendar",
+          shifts: [],
+          conflicts: []
+        });
+      }
 
-      // Broadcast the new shifts
-      insertedShifts.forEach(shift => {
-        ws.broadcast(notify.shiftChange('created', shift));
+      // The import is all-or-nothing: events are validated together, and in
+      // reject mode checked for conflicts with the schedule and each other
+      const outcome = await shiftBatchService.apply(operations, {
+        conflictMode,
+        audit: auditContext(req),
+        createdAs: 'import',
       });
 
+      if (!outcome.applied) {
+        const invalid = outcome.results.filter(result => result.errors.length);
+        if (invalid.length) {
+          return res.status(400).json({
+            error: "Invalid calendar events",
+            details: invalid.map(result => {
+              const { startDate, endDate } = operations[result.index] as { startDate: string; endDate: string };
+              return `${startDate} to ${endDate}: ${result.errors.join(', ')}`;
+            }).join('; ')
+          });
+        }
+
+        const rejected = outcome.results.filter(result => result.conflicts.length);
+        return res.status(409).json({
+          error: "Schedule conflict",
+          details: `${rejected.length} imported shift(s) conflict with the schedule`,
+          conflicts: rejected.map(result => {
+            const { startDate, endDate } = operations[result.index] as { startDate: string; endDate: string };
+            return { startDate, endDate, conflicts: result.conflicts };
+          })
+        });
+      }
+
+      const insertedShifts = outcome.results.map(result => result.shift!);
       return res.status(200).json({
         success: true,
         message: `Successfully imported ${insertedShifts.length} shifts`,
-        shifts: insertedShifts
+        shifts: insertedShifts,
+        conflicts: outcome.conflicts
       });
 
     } catch (error) {
@@ -945,59 +2867,95 @@ export function registerRoutes(app: Express, ws: WebSocketInterface) {
       });
     }
   });
+}
 
-  // Get all swap requests - with proper implementation
-  app.get("/api/swap-requests", async (req, res) => {
-    try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+// Callers pick how shift writes handle detected conflicts: `reject` refuses
+// the write with a 409, `warn` (the default) writes and reports them.
+type ConflictMode = 'reject' | 'warn';
 
-      const requests = await db.query.swapRequests.findMany({
-        where: userId ?
-          or(
-            eq(swapRequests.requestorId, userId),
-            eq(swapRequests.recipientId, userId)
-          ) : undefined,
-        include: {
-          shift: true
-        }
-      });
+function getConflictMode(req: Request): ConflictMode | null {
+  const mode = req.query.conflictMode ?? req.body?.conflictMode ?? 'warn';
+  return mode === 'reject' || mode === 'warn' ? mode : null;
+}
 
-      const enhancedRequests = requests.map(request => ({
-        ...request,
-        shift: request.shift,
-        requestor: { id: request.requestorId, name: 'unknown' },
-        recipient: { id: request.recipientId, name: 'unknown' }
-      }));
+// Who is making a shift change and through which route, for the audit log
+function auditContext(req: Request): AuditContext {
+  return {
+    actorId: req.user?.id ?? null,
+    source: `${req.method} ${req.route?.path ?? req.path}`,
+  };
+}
 
-      res.json(enhancedRequests);
-    } catch (error) {
-      console.error('Error fetching swap requests:', error);
-      res.status(500).json({ error: "Failed to fetch swap requests" });
-    }
-  });
+// Draft shifts are only visible to schedulers until their period is published
+function hiddenDrafts(req: Request) {
+  return hasRole(req.user, 'scheduler') ? undefined : ne(shifts.status, 'draft');
+}
 
+function sendSwapRequestError(res: Response, error: unknown, message: string) {
+  if (error instanceof SwapRequestError) {
+    return res.status(error.status).json({ error: error.message });
+  }
 
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
 }
 
-// Helper functions for pattern analysis
-function analyzePreferredShifts(shifts: any[]) {
-  // Implementation would analyze shift patterns to identify preferences
-  return [];
+function sendSchedulePeriodError(res: Response, error: unknown, message: string) {
+  if (error instanceof SchedulePeriodError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
 }
 
-function analyzeSwapPatterns(swaps: any[]) {
-  // Implementation would analyze swap request patterns
-  return [];
+function sendScheduleSnapshotError(res: Response, error: unknown, message: string) {
+  if (error instanceof ScheduleSnapshotError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
 }
 
-function summarizeWorkloadHistory(history: any[]) {
-  // Implementation would summarize historical workload data
-  return [];
+function sendShiftAuditError(res: Response, error: unknown, message: string) {
+  if (error instanceof ShiftAuditError) {
+    return res.status(error.status).json({
+      error: error.message,
+      ...(error.conflicts.length && { conflicts: error.conflicts })
+    });
+  }
+
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
 }
 
-function analyzeConsecutivePatterns(patterns: any[]) {
-  // Implementation would analyze patterns in consecutive shifts
-  return [];
+/**
+ * Shifts owned by the user that have not ended yet (end dates are exclusive)
+ */
+async function getFutureShifts(userId: number): Promise<Shift[]> {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return db.select()
+    .from(shifts)
+    .where(and(
+      eq(shifts.userId, userId),
+      ne(shifts.status, 'archived'),
+      gt(shifts.endDate, today)
+    ))
+    .orderBy(asc(shifts.startDate));
 }
 
 // Update active connections count
@@ -1005,4 +2963,5 @@ export function updateMetricsConnections(count: number) {
   metrics.activeConnections = count;
 }
 
-export { metrics };
\ No newline at end of file
+export { metrics };
+
@@ -0,0 +1,210 @@
+import { db } from "@db";
+import { and, gte, lte, notInArray, isNotNull } from "drizzle-orm";
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears
+} from "date-fns";
+import { shifts, users, type User } from "@db/schema";
+import {
+  daysCovered,
+  daysWithin,
+  dayIndex,
+  findRuns,
+  weekIndex,
+  weeksCovered,
+  type ShiftDates
+} from "./shift-dates";
+
+export const TimeRange = ['week', 'month', 'quarter', 'year'] as const;
+export type TimeRange = typeof TimeRange[number];
+
+export interface AnalyticsWindow {
+  start: Date;
+  end: Date; // exclusive
+}
+
+type ShiftRow = ShiftDates & { userId: number };
+
+// Streaks that started before the window still count towards fatigue inside it
+const STREAK_LOOKBACK_WEEKS = 26;
+
+const USER_TYPE_LABELS: Record<string, string> = {
+  physician: 'Physician',
+  app: 'APP',
+};
+
+export class AnalyticsService {
+  /**
+   * Resolves the reporting window: explicit dates win, otherwise the current
+   * week (Friday start), month, quarter or year.
+   */
+  resolveWindow(timeRange: TimeRange, startDate?: string, endDate?: string): AnalyticsWindow {
+    if (startDate && endDate) {
+      return { start: parseISO(startDate), end: addDays(parseISO(endDate), 1) };
+    }
+
+    const today = new Date();
+    switch (timeRange) {
+      case 'week': {
+        const start = startOfWeek(today, { weekStartsOn: 5 });
+        return { start, end: addWeeks(start, 1) };
+      }
+      case 'quarter': {
+        const start = startOfQuarter(today);
+        return { start, end: addQuarters(start, 1) };
+      }
+      case 'year': {
+        const start = startOfYear(today);
+        return { start, end: addYears(start, 1) };
+      }
+      case 'month':
+      default: {
+        const start = startOfMonth(today);
+        return { start, end: addMonths(start, 1) };
+      }
+    }
+  }
+
+  /**
+   * Scheduled days per provider against their yearly target pro-rated to the window
+   */
+  async getWorkload(window: AnalyticsWindow) {
+    const [providers, windowShifts] = await Promise.all([
+      this.getProviders(),
+      this.getShifts(window.start, window.end),
+    ]);
+    const windowDays = differenceInCalendarDays(window.end, window.start);
+
+    return providers.map(user => {
+      const userShifts = windowShifts.filter(s => s.userId === user.id);
+      const actualDays = userShifts.reduce(
+        (sum, s) => sum + daysWithin(s, window.start, window.end), 0
+      );
+      const targetDays = round(user.targetDays * windowDays / 365);
+      const tolerance = round((user.tolerance ?? 0) * windowDays / 365);
+
+      return {
+        userId: user.id,
+        name: user.name,
+        userType: user.userType,
+        actualDays,
+        targetDays,
+        tolerance,
+        shiftCount: userShifts.length,
+        utilization: targetDays > 0 ? Math.round(actualDays / targetDays * 100) : 0,
+      };
+    });
+  }
+
+  /**
+   * Totals per provider type for the window
+   */
+  async getDistribution(window: AnalyticsWindow) {
+    const [providers, windowShifts] = await Promise.all([
+      this.getProviders(),
+      this.getShifts(window.start, window.end),
+    ]);
+    const userTypeById = new Map(providers.map(u => [u.id, u.userType]));
+    const userTypes = Array.from(new Set(providers.map(u => u.userType)));
+
+    return userTypes.map(userType => {
+      const typeShifts = windowShifts.filter(s => userTypeById.get(s.userId) === userType);
+      const totalDays = typeShifts.reduce(
+        (sum, s) => sum + daysWithin(s, window.start, window.end), 0
+      );
+      const providerCount = providers.filter(u => u.userType === userType).length;
+
+      return {
+        type: USER_TYPE_LABELS[userType] ?? userType,
+        userType,
+        totalDays,
+        shiftCount: typeShifts.length,
+        avgShiftLength: typeShifts.length ? round(totalDays / typeShifts.length) : 0,
+        providerCount,
+        avgDaysPerProvider: providerCount ? round(totalDays / providerCount) : 0,
+      };
+    });
+  }
+
+  /**
+   * Longest consecutive-day and consecutive-week streaks that touch the window
+   */
+  async getFatigue(window: AnalyticsWindow) {
+    const lookbackStart = addWeeks(window.start, -STREAK_LOOKBACK_WEEKS);
+    const [providers, recentShifts] = await Promise.all([
+      this.getProviders(),
+      this.getShifts(lookbackStart, window.end),
+    ]);
+
+    const firstDay = dayIndex(window.start);
+    const lastDay = dayIndex(window.end) - 1;
+    const firstWeek = weekIndex(window.start);
+    const lastWeek = weekIndex(addDays(window.end, -1));
+
+    return providers.map(user => {
+      const userShifts = recentShifts.filter(s => s.userId === user.id);
+
+      const dayRuns = findRuns(userShifts.flatMap(daysCovered))
+        .filter(run => run.last >= firstDay && run.first <= lastDay);
+      const weekRuns = findRuns(userShifts.flatMap(weeksCovered))
+        .filter(run => run.last >= firstWeek && run.first <= lastWeek);
+
+      const consecutiveDays = Math.max(0, ...dayRuns.map(run => run.last - run.first + 1));
+      const currentConsecutive = Math.max(0, ...weekRuns.map(run => run.last - run.first + 1));
+
+      return {
+        userId: user.id,
+        name: user.name,
+        userType: user.userType,
+        maxAllowed: user.maxConsecutiveWeeks,
+        currentConsecutive,
+        consecutiveDays,
+        fatigueRisk: fatigueRisk(currentConsecutive, user.maxConsecutiveWeeks),
+      };
+    });
+  }
+
+  private async getProviders(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.name);
+  }
+
+  // Only published shifts count; drafts stay out until their period is published
+  private async getShifts(from: Date, to: Date): Promise<ShiftRow[]> {
+    const rows = await db.select({
+      userId: shifts.userId,
+      startDate: shifts.startDate,
+      endDate: shifts.endDate,
+    })
+      .from(shifts)
+      .where(and(
+        isNotNull(shifts.userId),
+        notInArray(shifts.status, ['archived', 'draft']),
+        gte(shifts.endDate, format(from, 'yyyy-MM-dd')),
+        lte(shifts.startDate, format(to, 'yyyy-MM-dd'))
+      ));
+
+    return rows.map(row => ({ ...row, userId: row.userId! }));
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function fatigueRisk(consecutiveWeeks: number, maxAllowed: number): 'low' | 'medium' | 'high' {
+  if (consecutiveWeeks > maxAllowed) return 'high';
+  if (consecutiveWeeks >= maxAllowed) return 'medium';
+  return 'low';
+}
+
+export const analyticsService = new AnalyticsService();
@@ -1,5 +1,19 @@
 import { db } from "@db";
-import { eq, and, or, sql } from "drizzle-orm";
+import { eq, ne, and, sql, desc, gte, lte, inArray, arrayContains } from "drizzle-orm";
+import {
+  addDays,
+  endOfYear,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfYear
+} from "date-fns";
+import { daysWithin, shiftsOverlap, weeksCovered } from "./shift-dates";
+import { shiftAuditService, type AuditContext } from "./shift-audit";
+import { swapRequestService, SwapRequestError, assertNoTimeOff, supersedeRequests } from "./swap-requests";
+import { type WebSocketInterface } from "../websocket";
+import { coverageGroup } from "./user-directory";
 import { 
   shifts, 
   users, 
@@ -7,92 +21,285 @@ import {
   conflicts,
   resolutionAttempts,
   type ConflictType,
+  type ConflictStatus,
   type ResolutionStrategy,
   type Shift,
-  swapRequests,
   type Conflict,
   type User
 } from "@db/schema";
 
-interface ConflictDetectionResult {
+export interface ConflictDetectionResult {
   type: ConflictType;
   affectedShiftIds: number[];
   affectedUserIds: number[];
   description: string;
 }
 
+export interface CandidateShift {
+  id?: number;
+  userId: number;
+  startDate: string;
+  endDate: string;
+}
+
 interface ConflictWithShifts extends Conflict {
   shifts?: Array<Shift & { user?: User }>;
 }
 
+export interface ConflictFilters {
+  status?: ConflictStatus;
+  type?: ConflictType;
+  shiftId?: number;
+  userId?: number;
+}
+
+export interface BatchResolutionResult {
+  conflictId: number;
+  successful: boolean;
+  error?: string;
+}
+
 export class ConflictResolutionService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
   /**
-   * Detects conflicts in the schedule based on defined rules
+   * Detects conflicts for a stored shift based on defined rules
    */
   async detectConflicts(shiftId: number): Promise<ConflictDetectionResult[]> {
-    const detectedConflicts: ConflictDetectionResult[] = [];
-
-    // Get the shift we're checking
     const shift = await db.query.shifts.findFirst({
       where: eq(shifts.id, shiftId),
-      with: {
-        user: true,
-      },
     });
 
-    if (!shift || !shift.userId) return [];
+    if (!shift || !shift.userId || shift.status === 'archived') return [];
 
-    // Check for overlapping shifts
-    const overlappingShifts = await db.query.shifts.findMany({
-      where: and(
-        eq(shifts.userId, shift.userId),
-        or(
-          and(
-            sql`${shifts.startDate} >= ${shift.startDate}`,
-            sql`${shifts.startDate} <= ${shift.endDate}`
-          ),
-          and(
-            sql`${shifts.endDate} >= ${shift.startDate}`,
-            sql`${shifts.endDate} <= ${shift.endDate}`
-          )
-        ),
-        sql`${shifts.id} != ${shiftId}`
-      ),
+    return this.evaluateShift({
+      id: shift.id,
+      userId: shift.userId,
+      startDate: shift.startDate,
+      endDate: shift.endDate,
     });
+  }
 
-    if (overlappingShifts.length > 0) {
+  /**
+   * Checks a shift that may not be written yet against the stored schedule.
+   * `pending` holds other uncommitted writes from the same request; entries
+   * with an id replace the stored row of that id. Stored rows listed in
+   * `removedIds` are about to be deleted and are left out.
+   */
+  async evaluateShift(
+    candidate: CandidateShift,
+    pending: CandidateShift[] = [],
+    removedIds: number[] = []
+  ): Promise<ConflictDetectionResult[]> {
+    const detectedConflicts: ConflictDetectionResult[] = [];
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, candidate.userId),
+    });
+
+    if (!user) return [];
+
+    const candidateStart = parseISO(candidate.startDate);
+    const candidateEnd = parseISO(candidate.endDate);
+
+    // Wide enough to cover the candidate's year and any streak running into it
+    const margin = (user.maxConsecutiveWeeks + 1) * 7;
+    const windowStart = format(
+      min([startOfYear(candidateStart), addDays(candidateStart, -margin)]),
+      'yyyy-MM-dd'
+    );
+    const windowEnd = format(
+      max([endOfYear(candidateStart), addDays(candidateEnd, margin)]),
+      'yyyy-MM-dd'
+    );
+
+    const stored = await db.select({
+      id: shifts.id,
+      userId: shifts.userId,
+      startDate: shifts.startDate,
+      endDate: shifts.endDate,
+      userType: users.userType,
+      shiftType: users.shiftType,
+    })
+      .from(shifts)
+      .innerJoin(users, eq(shifts.userId, users.id))
+      .where(and(
+        eq(users.userType, user.userType),
+        ne(shifts.status, 'archived'),
+        gte(shifts.endDate, windowStart),
+        lte(shifts.startDate, windowEnd)
+      ));
+
+    // Day and night APPs cover different halves of the day
+    const group = coverageGroup(user);
+    const sameGroupUserIds = new Set(
+      (await db.select({ id: users.id, userType: users.userType, shiftType: users.shiftType })
+        .from(users)
+        .where(eq(users.userType, user.userType)))
+        .filter(u => coverageGroup(u) === group)
+        .map(u => u.id)
+    );
+
+    const replacedIds = new Set([
+      ...[candidate, ...pending].filter(s => s.id !== undefined).map(s => s.id),
+      ...removedIds,
+    ]);
+    const schedule: CandidateShift[] = [
+      ...stored
+        .filter(s => s.userId !== null && !replacedIds.has(s.id) && sameGroupUserIds.has(s.userId))
+        .map(({ id, userId, startDate, endDate }) => ({ id, userId: userId!, startDate, endDate })),
+      ...pending.filter(s => s !== candidate && sameGroupUserIds.has(s.userId)),
+    ];
+
+    // Only one provider of each coverage group is on at a time
+    const overlapping = schedule.filter(s => shiftsOverlap(s, candidate));
+    if (overlapping.length > 0) {
       detectedConflicts.push({
         type: 'overlap',
-        affectedShiftIds: [shiftId, ...overlappingShifts.map(s => s.id)],
-        affectedUserIds: [shift.userId],
-        description: `Shift overlaps with ${overlappingShifts.length} other shifts`,
+        affectedShiftIds: shiftIds([candidate, ...overlapping]),
+        affectedUserIds: Array.from(new Set([candidate.userId, ...overlapping.map(s => s.userId)])),
+        description: `Shift overlaps with ${overlapping.length} other ${user.userType} shift(s)`,
+      });
+    }
+
+    const userShifts = schedule.filter(s => s.userId === candidate.userId);
+
+    // Consecutive scheduling weeks, counted on the unit's Friday-to-Thursday week
+    const streak = consecutiveWeekStreak(candidate, userShifts);
+    if (streak.weeks > user.maxConsecutiveWeeks) {
+      detectedConflicts.push({
+        type: 'consecutive_shifts',
+        affectedShiftIds: shiftIds(streak.shifts),
+        affectedUserIds: [candidate.userId],
+        description: `${streak.weeks} consecutive weeks exceeds the maximum of ${user.maxConsecutiveWeeks}`,
+      });
+    }
+
+    // Yearly workload against target days plus tolerance
+    const yearStart = startOfYear(candidateStart);
+    const yearEnd = addDays(endOfYear(candidateStart), 1);
+    const yearShifts = [candidate, ...userShifts]
+      .filter(s => parseISO(s.startDate) < yearEnd && parseISO(s.endDate) > yearStart);
+    const totalDays = yearShifts
+      .reduce((sum, s) => sum + daysWithin(s, yearStart, yearEnd), 0);
+    const allowedDays = user.targetDays + (user.tolerance ?? 0);
+
+    if (totalDays > allowedDays) {
+      detectedConflicts.push({
+        type: 'overtime',
+        affectedShiftIds: shiftIds([candidate]),
+        affectedUserIds: [candidate.userId],
+        description: `${totalDays} days scheduled in ${format(yearStart, 'yyyy')} exceeds target of ${user.targetDays} (+${user.tolerance ?? 0} tolerance)`,
+      });
+    }
+
+    return detectedConflicts;
+  }
+
+  /**
+   * Runs detection for a shift and stores any new findings. Conflicts that are
+   * still open for the same type and shift set are returned instead of duplicated.
+   */
+  async recordConflicts(shiftId: number): Promise<Conflict[]> {
+    const detected = await this.detectConflicts(shiftId);
+    const recorded: Conflict[] = [];
+
+    for (const result of detected) {
+      const existing = await db.query.conflicts.findFirst({
+        where: and(
+          eq(conflicts.type, result.type),
+          inArray(conflicts.status, ['detected', 'resolving', 'escalated']),
+          arrayContains(conflicts.affectedShiftIds, result.affectedShiftIds),
+          sql`cardinality(${conflicts.affectedShiftIds}) = ${result.affectedShiftIds.length}`
+        ),
       });
+
+      if (existing) {
+        recorded.push(existing);
+        continue;
+      }
+
+      const [conflict] = await db.insert(conflicts)
+        .values({
+          type: result.type,
+          status: 'detected',
+          affectedShiftIds: result.affectedShiftIds,
+          affectedUserIds: result.affectedUserIds,
+          resolutionDetails: { description: result.description },
+        })
+        .returning();
+
+      recorded.push(conflict);
     }
 
-    // Get user's preferences and rules
-    const userPreferences = await db.query.userPreferences.findFirst({
-      where: sql`${users.id} = ${shift.userId}`,
+    return recorded;
+  }
+
+  /**
+   * Lists stored conflicts, newest first
+   */
+  async listConflicts(filters: ConflictFilters = {}): Promise<Conflict[]> {
+    const conditions = [];
+
+    if (filters.status) conditions.push(eq(conflicts.status, filters.status));
+    if (filters.type) conditions.push(eq(conflicts.type, filters.type));
+    if (filters.shiftId) {
+      conditions.push(arrayContains(conflicts.affectedShiftIds, [filters.shiftId]));
+    }
+    if (filters.userId) {
+      conditions.push(arrayContains(conflicts.affectedUserIds, [filters.userId]));
+    }
+
+    return db.query.conflicts.findMany({
+      where: conditions.length ? and(...conditions) : undefined,
+      orderBy: [desc(conflicts.detectedAt)],
+    });
+  }
+
+  /**
+   * Fetches a single conflict together with its resolution history
+   */
+  async getConflict(conflictId: number) {
+    return db.query.conflicts.findFirst({
+      where: eq(conflicts.id, conflictId),
+      with: {
+        resolutionAttempts: {
+          orderBy: [desc(resolutionAttempts.attemptedAt)],
+        },
+        rule: true,
+      },
     });
+  }
 
-    if (userPreferences) {
-      // Check for consecutive shifts violation
-      const consecutiveShifts = await this.checkConsecutiveShifts(
-        shift.userId,
-        new Date(shift.startDate),
-        userPreferences.maxShiftsPerWeek
-      );
-
-      if (consecutiveShifts) {
-        detectedConflicts.push({
-          type: 'consecutive_shifts',
-          affectedShiftIds: [shiftId],
-          affectedUserIds: [shift.userId],
-          description: 'Exceeds maximum consecutive shifts allowed',
+  /**
+   * Resolves several conflicts with the same strategy, one at a time so that
+   * a reassignment made for one conflict is visible to the next.
+   */
+  async resolveConflicts(
+    conflictIds: number[],
+    strategy: ResolutionStrategy,
+    audit: AuditContext
+  ): Promise<BatchResolutionResult[]> {
+    const results: BatchResolutionResult[] = [];
+
+    for (const conflictId of conflictIds) {
+      try {
+        const successful = await this.resolveConflict(conflictId, strategy, audit);
+        results.push({ conflictId, successful });
+      } catch (error) {
+        results.push({
+          conflictId,
+          successful: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
     }
 
-    return detectedConflicts;
+    return results;
   }
 
   /**
@@ -100,7 +307,8 @@ export class ConflictResolutionService {
    */
   async resolveConflict(
     conflictId: number,
-    strategy: ResolutionStrategy
+    strategy: ResolutionStrategy,
+    audit: AuditContext
   ): Promise<boolean> {
     const conflict = await db.query.conflicts.findFirst({
       where: eq(conflicts.id, conflictId),
@@ -108,20 +316,24 @@ export class ConflictResolutionService {
 
     if (!conflict) return false;
 
+    // Record the attempt up front so a crash mid-resolution still leaves a trace
+    const [attempt] = await db.insert(resolutionAttempts).values({
+      conflictId,
+      strategy,
+      successful: false,
+      details: {},
+    }).returning();
+
     try {
-      // Record the attempt
-      await db.insert(resolutionAttempts).values({
-        conflictId,
-        strategy,
-        successful: false,
-        details: {},
-      });
+      await db.update(conflicts)
+        .set({ status: 'resolving' })
+        .where(eq(conflicts.id, conflictId));
 
       let successful = false;
 
       switch (strategy) {
         case 'auto_reassign':
-          successful = await this.attemptAutoReassign(conflict);
+          successful = await this.attemptAutoReassign(conflict, audit);
           break;
         case 'notify_admin':
           successful = await this.notifyAdmin(conflict);
@@ -130,53 +342,51 @@ export class ConflictResolutionService {
           successful = await this.suggestSwap(conflict);
           break;
         case 'enforce_rule':
-          successful = await this.enforceRule(conflict);
+          successful = await this.enforceRule(conflict, audit);
           break;
       }
 
       if (successful) {
+        // Escalation hands the conflict to an admin, it is not resolved yet
         await db.update(conflicts)
           .set({ 
             status: 'resolved',
             resolvedAt: new Date(),
-            resolutionDetails: { strategy, timestamp: new Date() }
+            resolutionDetails: {
+              ...(conflict.resolutionDetails as Record<string, unknown> | null),
+              strategy,
+              timestamp: new Date()
+            }
           })
+          .where(and(eq(conflicts.id, conflictId), ne(conflicts.status, 'escalated')));
+
+        await db.update(resolutionAttempts)
+          .set({ successful: true })
+          .where(eq(resolutionAttempts.id, attempt.id));
+      } else {
+        // Put the conflict back into its previous state so it can be retried
+        await db.update(conflicts)
+          .set({ status: conflict.status === 'resolving' ? 'detected' : conflict.status })
           .where(eq(conflicts.id, conflictId));
       }
 
       return successful;
     } catch (error) {
       console.error('Error resolving conflict:', error);
+      await db.update(resolutionAttempts)
+        .set({ details: { error: error instanceof Error ? error.message : 'Unknown error' } })
+        .where(eq(resolutionAttempts.id, attempt.id));
+      await db.update(conflicts)
+        .set({ status: conflict.status === 'resolving' ? 'detected' : conflict.status })
+        .where(eq(conflicts.id, conflictId));
       return false;
     }
   }
 
-  /**
-   * Checks for consecutive shifts violations
-   */
-  private async checkConsecutiveShifts(
-    userId: number,
-    date: Date,
-    maxShifts: number
-  ): Promise<boolean> {
-    const weekStart = new Date(date);
-    weekStart.setDate(weekStart.getDate() - 7);
-
-    const shiftsInWeek = await db.query.shifts.findMany({
-      where: and(
-        eq(shifts.userId, userId),
-        sql`${shifts.startDate} >= ${weekStart}`,
-        sql`${shifts.startDate} <= ${date}`
-      ),
-    });
-
-    return shiftsInWeek.length >= maxShifts;
-  }
-
   /**
    * Attempts to automatically reassign a shift to resolve a conflict
    */
-  private async attemptAutoReassign(conflict: ConflictWithShifts): Promise<boolean> {
+  private async attemptAutoReassign(conflict: ConflictWithShifts, audit: AuditContext): Promise<boolean> {
     if (!conflict.affectedShiftIds?.length) return false;
 
     const shiftId = conflict.affectedShiftIds[0];
@@ -187,28 +397,61 @@ export class ConflictResolutionService {
       },
     });
 
-    if (!shift || !shift.userId || !shift.user) return false;
+    if (!shift || !shift.userId || !shift.user || shift.status === 'archived') return false;
 
     // Find available users who can take this shift
     const availableUsers = await db.query.users.findMany({
       where: and(
         sql`${users.userType} = ${shift.user.userType}`,
-        sql`${users.id} != ${shift.userId}`
+        sql`${users.id} != ${shift.userId}`,
+        eq(users.isActive, true)
       ),
     });
 
     for (const user of availableUsers) {
-      // Check if user has no conflicts during this period
-      const userConflicts = await this.detectConflicts(shiftId);
-
-      if (userConflicts.length === 0) {
-        // Reassign the shift
-        await db.update(shifts)
-          .set({ userId: user.id })
-          .where(eq(shifts.id, shiftId));
+      // Check the shift as if it already belonged to this user
+      const userConflicts = await this.evaluateShift({
+        id: shift.id,
+        userId: user.id,
+        startDate: shift.startDate,
+        endDate: shift.endDate,
+      });
 
-        return true;
+      if (userConflicts.length) continue;
+
+      let outcome;
+      try {
+        outcome = await db.transaction(async (tx) => {
+          const [locked] = await tx.select()
+            .from(shifts)
+            .where(eq(shifts.id, shiftId))
+            .for('update');
+          // Someone else changed the shift since it was checked
+          if (!locked || locked.userId !== shift.userId || locked.status === 'archived') return null;
+
+          await assertNoTimeOff(tx, [{ shift: locked, toUserId: user.id }]);
+          // Open swap requests were made with the previous provider
+          const transitions = await supersedeRequests(tx, [shiftId]);
+
+          const [reassigned] = await tx.update(shifts)
+            .set({ userId: user.id, sequence: sql`${shifts.sequence} + 1`, updatedAt: new Date() })
+            .where(eq(shifts.id, shiftId))
+            .returning();
+
+          await shiftAuditService.record(tx, audit, [{ action: 'update', before: locked, after: reassigned }]);
+          return { reassigned, transitions };
+        });
+      } catch (error) {
+        // Approved time off rules this user out; try the next one
+        if (!(error instanceof SwapRequestError)) throw error;
+        continue;
       }
+
+      if (!outcome) return false;
+
+      await swapRequestService.announce(outcome.transitions);
+      this.ws?.sendShiftChange('updated', outcome.reassigned);
+      return true;
     }
 
     return false;
@@ -222,31 +465,31 @@ export class ConflictResolutionService {
       if (!conflict.affectedShiftIds?.length) return false;
 
       const foundShifts = await db.query.shifts.findMany({
-        where: sql`${shifts.id} = ANY(${conflict.affectedShiftIds})`,
+        where: inArray(shifts.id, conflict.affectedShiftIds),
         with: {
           user: true,
         },
       });
 
-      // Create a notification in the database
-      await db.insert(conflicts).values({
-        type: conflict.type,
-        status: 'escalated',
-        affectedShiftIds: conflict.affectedShiftIds,
-        affectedUserIds: foundShifts.map(s => s.userId!),
-        detectedAt: new Date(),
-        resolutionDetails: {
-          requiresManualIntervention: true,
-          escalatedAt: new Date(),
-          shifts: foundShifts.map(s => ({
-            id: s.id,
-            userId: s.userId,
-            userName: s.user?.name,
-            startDate: s.startDate,
-            endDate: s.endDate,
-          })),
-        },
-      });
+      // Flag the conflict for manual intervention
+      await db.update(conflicts)
+        .set({
+          status: 'escalated',
+          affectedUserIds: foundShifts.map(s => s.userId!),
+          resolutionDetails: {
+            ...(conflict.resolutionDetails as Record<string, unknown> | null),
+            requiresManualIntervention: true,
+            escalatedAt: new Date(),
+            shifts: foundShifts.map(s => ({
+              id: s.id,
+              userId: s.userId,
+              userName: s.user?.name,
+              startDate: s.startDate,
+              endDate: s.endDate,
+            })),
+          },
+        })
+        .where(eq(conflicts.id, conflict.id));
 
       return true;
     } catch (error) {
@@ -276,22 +519,29 @@ export class ConflictResolutionService {
       const potentialUsers = await db.query.users.findMany({
         where: and(
           sql`${users.userType} = ${shift.user.userType}`,
-          sql`${users.id} != ${shift.userId}`
+          sql`${users.id} != ${shift.userId}`,
+          eq(users.isActive, true)
         ),
       });
 
-      // Create swap requests for each potential user
+      // Offer the shift to each potential user; the first to accept takes it
+      let offered = 0;
       for (const user of potentialUsers) {
-        await db.insert(swapRequests).values({
-          requestorId: shift.userId,
-          recipientId: user.id,
-          shiftId: shift.id,
-          status: 'pending',
-          reason: 'Automated conflict resolution suggestion',
-        });
+        try {
+          await swapRequestService.create({
+            requestorId: shift.userId,
+            recipientId: user.id,
+            shiftId: shift.id,
+            reason: 'Automated conflict resolution suggestion',
+          });
+          offered++;
+        } catch (error) {
+          // Already offered to this user
+          if (!(error instanceof SwapRequestError)) throw error;
+        }
       }
 
-      return true;
+      return offered > 0;
     } catch (error) {
       console.error('Error suggesting swap:', error);
       return false;
@@ -301,7 +551,7 @@ export class ConflictResolutionService {
   /**
    * Enforces scheduling rules by preventing conflicting assignments
    */
-  private async enforceRule(conflict: ConflictWithShifts): Promise<boolean> {
+  private async enforceRule(conflict: ConflictWithShifts, audit: AuditContext): Promise<boolean> {
     try {
       if (!conflict.affectedShiftIds?.length) return false;
 
@@ -326,7 +576,7 @@ export class ConflictResolutionService {
       // Apply the rule's resolution strategy
       switch (rule.strategy) {
         case 'auto_reassign':
-          return this.attemptAutoReassign(conflict);
+          return this.attemptAutoReassign(conflict, audit);
         case 'notify_admin':
           return this.notifyAdmin(conflict);
         case 'suggest_swap':
@@ -341,4 +591,33 @@ export class ConflictResolutionService {
   }
 }
 
-export const conflictResolutionService = new ConflictResolutionService();
\ No newline at end of file
+function shiftIds(list: CandidateShift[]): number[] {
+  return list.filter(s => s.id !== undefined).map(s => s.id!);
+}
+
+/**
+ * Length of the run of back-to-back scheduled weeks that contains the candidate
+ */
+function consecutiveWeekStreak(candidate: CandidateShift, others: CandidateShift[]) {
+  const byWeek = new Map<number, CandidateShift[]>();
+  for (const shift of [candidate, ...others]) {
+    for (const week of weeksCovered(shift)) {
+      byWeek.set(week, [...(byWeek.get(week) ?? []), shift]);
+    }
+  }
+
+  const candidateWeeks = weeksCovered(candidate);
+  let first = candidateWeeks[0];
+  let last = candidateWeeks[candidateWeeks.length - 1];
+  while (byWeek.has(first - 1)) first--;
+  while (byWeek.has(last + 1)) last++;
+
+  const streakShifts = new Set<CandidateShift>();
+  for (let week = first; week <= last; week++) {
+    byWeek.get(week)?.forEach(s => streakShifts.add(s));
+  }
+
+  return { weeks: last - first + 1, shifts: Array.from(streakShifts) };
+}
+
+export const conflictResolutionService = new ConflictResolutionService();
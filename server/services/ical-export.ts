@@ -0,0 +1,136 @@
+import { db } from "@db";
+import { eq, and, gte, lte, ne, asc } from "drizzle-orm";
+import ical, { ICalCalendarMethod, ICalEventStatus } from "ical-generator";
+import { addDays, format, parseISO, subDays } from "date-fns";
+import { randomBytes } from "crypto";
+import {
+  shifts,
+  users,
+  type Shift,
+  type User,
+  type UserType
+} from "@db/schema";
+
+export interface ScheduleExportFilters {
+  userId?: number;
+  userType?: UserType;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Feeds without an explicit start keep a short tail of past shifts so
+// subscribed calendars don't lose last week's entries on the next refresh.
+const DEFAULT_LOOKBACK_DAYS = 90;
+
+const STATUS_MAP: Record<Shift['status'], ICalEventStatus> = {
+  draft: ICalEventStatus.TENTATIVE,
+  confirmed: ICalEventStatus.CONFIRMED,
+  pending_swap: ICalEventStatus.TENTATIVE,
+  swapped: ICalEventStatus.CONFIRMED,
+  archived: ICalEventStatus.CANCELLED,
+};
+
+export class IcalExportService {
+  /**
+   * Builds an RFC 5545 VCALENDAR document for the shifts matching the filters
+   */
+  async buildCalendar(name: string, filters: ScheduleExportFilters = {}): Promise<string> {
+    const startDate = filters.startDate
+      ?? format(subDays(new Date(), DEFAULT_LOOKBACK_DAYS), 'yyyy-MM-dd');
+
+    // Drafts stay out of feeds until their period is published
+    const conditions = [
+      ne(shifts.status, 'archived'),
+      ne(shifts.status, 'draft'),
+      gte(shifts.endDate, startDate),
+    ];
+
+    if (filters.endDate) {
+      conditions.push(lte(shifts.startDate, filters.endDate));
+    }
+    if (filters.userId) {
+      conditions.push(eq(shifts.userId, filters.userId));
+    }
+    if (filters.userType) {
+      conditions.push(eq(users.userType, filters.userType));
+    }
+
+    const rows = await db.select({
+      shift: shifts,
+      user: {
+        name: users.name,
+        title: users.title,
+        userType: users.userType,
+      },
+    })
+      .from(shifts)
+      .innerJoin(users, eq(shifts.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(shifts.startDate));
+
+    const calendar = ical({
+      name,
+      prodId: { company: 'ICUSchedulePro', product: 'schedule', language: 'EN' },
+      method: ICalCalendarMethod.PUBLISH,
+      ttl: 60 * 60, // hint for subscribed clients to refresh hourly
+    });
+
+    for (const { shift, user } of rows) {
+      const start = parseISO(`${shift.startDate}T00:00:00Z`);
+      // Shifts store the calendar's exclusive end date, which is exactly what
+      // an all-day DTEND expects. Guard against zero-length rows.
+      const end = shift.endDate > shift.startDate
+        ? parseISO(`${shift.endDate}T00:00:00Z`)
+        : addDays(start, 1);
+
+      calendar.createEvent({
+        // UIDs must stay stable across exports so clients update rather than duplicate
+        id: `shift-${shift.id}@icuschedulepro`,
+        sequence: shift.sequence,
+        allDay: true,
+        start,
+        end,
+        summary: `ICU: ${user.name}`,
+        description: `${user.name}, ${user.title} (${user.userType === 'app' ? 'APP' : 'Physician'})`,
+        status: STATUS_MAP[shift.status],
+        created: shift.createdAt ?? undefined,
+        lastModified: shift.updatedAt ?? undefined,
+        stamp: shift.updatedAt ?? new Date(),
+      });
+    }
+
+    return calendar.toString();
+  }
+
+  /**
+   * Returns the user's calendar token, creating one if they have none yet or
+   * `reset` is set
+   */
+  async feedToken(userId: number, reset = false): Promise<string> {
+    if (!reset) {
+      const [user] = await db.select({ calendarToken: users.calendarToken })
+        .from(users)
+        .where(eq(users.id, userId));
+      if (user?.calendarToken) return user.calendarToken;
+    }
+
+    const calendarToken = randomBytes(24).toString('hex');
+    await db.update(users)
+      .set({ calendarToken })
+      .where(eq(users.id, userId));
+    return calendarToken;
+  }
+
+  /**
+   * The active user a calendar token belongs to
+   */
+  async userForToken(token: string): Promise<User | undefined> {
+    if (!token) return undefined;
+    const [user] = await db.select()
+      .from(users)
+      .where(and(eq(users.calendarToken, token), eq(users.isActive, true)));
+    return user;
+  }
+}
+
+export const icalExportService = new IcalExportService();
@@ -7,20 +7,13 @@ import {
   type NotificationChannel,
   type Notification
 } from "@db/schema";
-import type WebSocket from 'ws';
+import { notify, type WebSocketInterface } from "../websocket";
 
 export class NotificationService {
-  private webSocketClients: Map<number, WebSocket> = new Map();
+  private ws: WebSocketInterface | null = null;
 
-  /**
-   * Register a WebSocket client for a user
-   */
-  registerWebSocket(userId: number, ws: WebSocket) {
-    this.webSocketClients.set(userId, ws);
-
-    ws.on('close', () => {
-      this.webSocketClients.delete(userId);
-    });
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
   }
 
   /**
@@ -101,16 +94,13 @@ export class NotificationService {
   }
 
   /**
-   * Send notification via WebSocket
+   * Send notification via WebSocket, to every socket the user has open
    */
   private async sendWebSocketNotification(notification: Notification) {
-    const ws = this.webSocketClients.get(notification.userId);
-    if (!ws) return;
-
-    ws.send(JSON.stringify({
-      type: 'notification',
-      data: notification
-    }));
+    if (!this.ws) {
+      throw new Error('WebSocket server not registered');
+    }
+    this.ws.sendToUser(notification.userId, notify.userNotification(notification));
   }
 
   /**
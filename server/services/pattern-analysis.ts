@@ -0,0 +1,236 @@
+import { db } from "@db";
+import { and, gte, lt, ne, isNotNull } from "drizzle-orm";
+import {
+  addMonths,
+  format,
+  parseISO,
+  startOfMonth,
+  subDays
+} from "date-fns";
+import { shifts, swapRequests, users, type User } from "@db/schema";
+import {
+  daysCovered,
+  daysWithin,
+  findRuns,
+  shiftLength,
+  weeksCovered,
+  type ShiftDates
+} from "./shift-dates";
+
+export const DEFAULT_LOOKBACK_DAYS = 180;
+export const MAX_LOOKBACK_DAYS = 5 * 365;
+
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type ShiftRow = ShiftDates & { id: number; userId: number };
+
+export interface HistoricalPatterns {
+  lookback: { days: number; startDate: string; endDate: string };
+  preferredShifts: ReturnType<PatternAnalysisService['analyzePreferredShifts']>;
+  previousSwaps: ReturnType<PatternAnalysisService['analyzeSwapPatterns']>;
+  workloadHistory: ReturnType<PatternAnalysisService['summarizeWorkloadHistory']>;
+  consecutiveShiftPatterns: ReturnType<PatternAnalysisService['analyzeConsecutivePatterns']>;
+}
+
+export class PatternAnalysisService {
+  /**
+   * Derives per-provider patterns from shifts and swap requests that started
+   * within the lookback window ending today
+   */
+  async analyze(lookbackDays = DEFAULT_LOOKBACK_DAYS): Promise<HistoricalPatterns> {
+    const end = new Date();
+    end.setHours(0, 0, 0, 0);
+    const start = subDays(end, lookbackDays);
+    const startDate = format(start, 'yyyy-MM-dd');
+    const endDate = format(end, 'yyyy-MM-dd');
+
+    const [providers, shiftRows, swaps] = await Promise.all([
+      db.select().from(users).orderBy(users.name),
+      db.select({
+        id: shifts.id,
+        userId: shifts.userId,
+        startDate: shifts.startDate,
+        endDate: shifts.endDate,
+      })
+        .from(shifts)
+        .where(and(
+          isNotNull(shifts.userId),
+          ne(shifts.status, 'archived'),
+          gte(shifts.startDate, startDate),
+          lt(shifts.startDate, endDate)
+        )),
+      db.select()
+        .from(swapRequests)
+        .where(gte(swapRequests.createdAt, start)),
+    ]);
+
+    const pastShifts = shiftRows.map(row => ({ ...row, userId: row.userId! }));
+
+    return {
+      lookback: { days: lookbackDays, startDate, endDate },
+      preferredShifts: this.analyzePreferredShifts(providers, pastShifts),
+      previousSwaps: this.analyzeSwapPatterns(providers, swaps),
+      workloadHistory: this.summarizeWorkloadHistory(providers, pastShifts, start, end),
+      consecutiveShiftPatterns: this.analyzeConsecutivePatterns(providers, pastShifts),
+    };
+  }
+
+  /**
+   * Favoured start weekdays and shift lengths per provider
+   */
+  analyzePreferredShifts(providers: User[], pastShifts: ShiftRow[]) {
+    return providers.map(user => {
+      const userShifts = pastShifts.filter(s => s.userId === user.id);
+
+      const weekdayCounts = new Map<number, number>();
+      const lengthCounts = new Map<number, number>();
+      for (const shift of userShifts) {
+        const weekday = parseISO(shift.startDate).getDay();
+        weekdayCounts.set(weekday, (weekdayCounts.get(weekday) ?? 0) + 1);
+        const length = shiftLength(shift);
+        lengthCounts.set(length, (lengthCounts.get(length) ?? 0) + 1);
+      }
+
+      const startWeekdays = Array.from(weekdayCounts, ([day, count]) => ({
+        day,
+        label: WEEKDAY_LABELS[day],
+        count,
+        share: round(count / userShifts.length),
+      })).sort((a, b) => b.count - a.count);
+
+      const shiftLengths = Array.from(lengthCounts, ([days, count]) => ({ days, count }))
+        .sort((a, b) => b.count - a.count);
+
+      const totalDays = userShifts.reduce((sum, s) => sum + shiftLength(s), 0);
+
+      return {
+        userId: user.id,
+        name: user.name,
+        userType: user.userType,
+        shiftCount: userShifts.length,
+        favouriteStartDay: startWeekdays[0]?.label ?? null,
+        startWeekdays,
+        typicalShiftLength: shiftLengths[0]?.days ?? null,
+        averageShiftLength: userShifts.length ? round(totalDays / userShifts.length) : 0,
+        shiftLengths,
+      };
+    }).filter(pattern => pattern.shiftCount > 0);
+  }
+
+  /**
+   * How often each requestor/recipient pair has traded, and how it went
+   */
+  analyzeSwapPatterns(providers: User[], swaps: Array<typeof swapRequests.$inferSelect>) {
+    const names = new Map(providers.map(u => [u.id, u.name]));
+    const pairs = new Map<string, {
+      requestorId: number | null;
+      requestorName: string | null;
+      recipientId: number | null;
+      recipientName: string | null;
+      total: number;
+      byStatus: Record<string, number>;
+      lastRequestedAt: Date | null;
+    }>();
+
+    for (const swap of swaps) {
+      const key = `${swap.requestorId}:${swap.recipientId}`;
+      const pair = pairs.get(key) ?? {
+        requestorId: swap.requestorId,
+        requestorName: swap.requestorId ? names.get(swap.requestorId) ?? null : null,
+        recipientId: swap.recipientId,
+        recipientName: swap.recipientId ? names.get(swap.recipientId) ?? null : null,
+        total: 0,
+        byStatus: {},
+        lastRequestedAt: null,
+      };
+
+      pair.total++;
+      pair.byStatus[swap.status] = (pair.byStatus[swap.status] ?? 0) + 1;
+      if (swap.createdAt && (!pair.lastRequestedAt || swap.createdAt > pair.lastRequestedAt)) {
+        pair.lastRequestedAt = swap.createdAt;
+      }
+      pairs.set(key, pair);
+    }
+
+    return Array.from(pairs.values())
+      .map(pair => ({
+        ...pair,
+        acceptanceRate: round((pair.byStatus.accepted ?? 0) / pair.total),
+      }))
+      .sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * Scheduled days per provider for each calendar month of the lookback
+   */
+  summarizeWorkloadHistory(providers: User[], pastShifts: ShiftRow[], start: Date, end: Date) {
+    const months: Date[] = [];
+    for (let month = startOfMonth(start); month < end; month = addMonths(month, 1)) {
+      months.push(month);
+    }
+
+    return providers.map(user => {
+      const userShifts = pastShifts.filter(s => s.userId === user.id);
+
+      const monthly = months.map(month => {
+        const monthEnd = addMonths(month, 1);
+        const monthShifts = userShifts.filter(s =>
+          parseISO(s.startDate) >= month && parseISO(s.startDate) < monthEnd
+        );
+
+        return {
+          month: format(month, 'yyyy-MM'),
+          days: userShifts.reduce((sum, s) => sum + daysWithin(s, month, monthEnd), 0),
+          shiftCount: monthShifts.length,
+        };
+      });
+
+      const totalDays = monthly.reduce((sum, m) => sum + m.days, 0);
+
+      return {
+        userId: user.id,
+        name: user.name,
+        userType: user.userType,
+        totalDays,
+        averageMonthlyDays: months.length ? round(totalDays / months.length) : 0,
+        // Pro-rated yearly target for comparison with the monthly figures
+        monthlyTargetDays: round(user.targetDays / 12),
+        months: monthly,
+      };
+    });
+  }
+
+  /**
+   * Statistics on runs of back-to-back scheduled weeks and days
+   */
+  analyzeConsecutivePatterns(providers: User[], pastShifts: ShiftRow[]) {
+    return providers.map(user => {
+      const userShifts = pastShifts.filter(s => s.userId === user.id);
+      const weekStreaks = findRuns(userShifts.flatMap(weeksCovered))
+        .map(run => run.last - run.first + 1);
+      const dayStreaks = findRuns(userShifts.flatMap(daysCovered))
+        .map(run => run.last - run.first + 1);
+
+      return {
+        userId: user.id,
+        name: user.name,
+        userType: user.userType,
+        maxConsecutiveWeeks: user.maxConsecutiveWeeks,
+        streakCount: weekStreaks.length,
+        longestWeekStreak: Math.max(0, ...weekStreaks),
+        averageWeekStreak: weekStreaks.length
+          ? round(weekStreaks.reduce((sum, n) => sum + n, 0) / weekStreaks.length)
+          : 0,
+        streaksAtLimit: weekStreaks.filter(n => n === user.maxConsecutiveWeeks).length,
+        streaksOverLimit: weekStreaks.filter(n => n > user.maxConsecutiveWeeks).length,
+        longestDayStreak: Math.max(0, ...dayStreaks),
+      };
+    }).filter(pattern => pattern.streakCount > 0);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const patternAnalysisService = new PatternAnalysisService();
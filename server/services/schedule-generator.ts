@@ -0,0 +1,404 @@
+import { db } from "@db";
+import { and, eq, gte, inArray, isNotNull, lt, lte, ne, or } from "drizzle-orm";
+import {
+  addDays,
+  endOfYear,
+  format,
+  getYear,
+  isValid,
+  max,
+  min,
+  parseISO,
+  startOfYear
+} from "date-fns";
+import {
+  shifts,
+  swapRequests,
+  timeOffRequests,
+  userPreferences,
+  type Shift
+} from "@db/schema";
+import type { WebSocketInterface } from "../websocket";
+import { daysWithin, findRuns, shiftsOverlap, weeksCovered, type ShiftDates } from "./shift-dates";
+import {
+  COVERAGE_GROUPS,
+  coverageGroup,
+  userDirectory,
+  type CoverageGroup,
+  type DirectoryUser
+} from "./user-directory";
+import { schedulePeriodService } from "./schedule-periods";
+import { shiftAuditService, type AuditContext } from "./shift-audit";
+
+// Weeks hand over on Friday and run through Thursday
+const HANDOVER_DAY = 5;
+// A year at a time keeps a single run reviewable
+const MAX_WEEKS = 53;
+
+export interface GenerationPeriod {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, exclusive like shift end dates
+}
+
+export interface GeneratedShift extends ShiftDates {
+  userId: number;
+  group: CoverageGroup;
+}
+
+export interface ScheduleGap extends ShiftDates {
+  group: CoverageGroup;
+  // Why nobody in the group could take the week
+  reasons: string[];
+}
+
+export interface YearWorkload {
+  year: number;
+  scheduledDays: number;
+  // Scheduled minus target days; within tolerance when |difference| <= tolerance
+  difference: number;
+  withinTolerance: boolean;
+}
+
+export interface ProviderReport {
+  userId: number;
+  name: string;
+  group: CoverageGroup;
+  targetDays: number;
+  tolerance: number;
+  // Days inside the period, from shifts that were kept and newly generated
+  keptDays: number;
+  generatedDays: number;
+  // Whole-year totals for each year the period touches
+  years: YearWorkload[];
+}
+
+export interface GenerationResult extends GenerationPeriod {
+  weeks: number;
+  // Stored rows, or the proposed ones on a dry run
+  shifts: Array<Shift | GeneratedShift>;
+  // Previously generated shifts the run replaced
+  replacedShiftIds: number[];
+  gaps: ScheduleGap[];
+  report: ProviderReport[];
+}
+
+export class ScheduleGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleGenerationError';
+  }
+}
+
+interface Candidate {
+  user: DirectoryUser;
+  group: CoverageGroup;
+  avoidsHandover: boolean;
+  // Kept and assigned shifts
+  shifts: ShiftDates[];
+  assigned: ShiftDates[];
+}
+
+/**
+ * Fills the Friday-to-Thursday weeks of a period with one provider per
+ * coverage group: physicians, daytime APPs and night-time APPs.
+ *
+ * Existing shifts are kept as they are and count towards coverage and
+ * workload. The only exception is a generated draft nobody has touched since
+ * (sequence 0, no swap requests), which a new run for the same weeks
+ * replaces. A provider is only given a week when it leaves them within
+ * target days plus tolerance for the year, within their consecutive-week
+ * limit and clear of approved time off; among those, providers who avoid the
+ * handover day come last and the least loaded against target go first.
+ * Generated shifts are always drafts: the weeks have to lie within one draft
+ * schedule period, and nobody sees them until it is published.
+ */
+export class ScheduleGenerator {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async generate(period: GenerationPeriod, audit: AuditContext, options: { dryRun?: boolean } = {}): Promise<GenerationResult> {
+    const weeks = planningWeeks(period);
+    const first = weeks[0];
+    const last = weeks[weeks.length - 1];
+
+    const users = (await userDirectory.list({ active: true }))
+      .filter(user => user.userType === 'physician' || user.userType === 'app');
+    const userIds = users.map(user => user.id);
+    if (!userIds.length) {
+      throw new ScheduleGenerationError("There are no active providers to schedule");
+    }
+
+    // Wide enough for whole-year workload and any streak running into the period
+    const margin = (Math.max(...users.map(user => user.maxConsecutiveWeeks)) + 1) * 7;
+    const windowStart = format(
+      min([startOfYear(parseISO(first.startDate)), addDays(parseISO(first.startDate), -margin)]),
+      'yyyy-MM-dd'
+    );
+    const windowEnd = format(
+      max([addDays(endOfYear(parseISO(last.startDate)), 1), addDays(parseISO(last.endDate), margin)]),
+      'yyyy-MM-dd'
+    );
+
+    const [scheduled, timeOff, preferences] = await Promise.all([
+      db.select()
+        .from(shifts)
+        .where(and(
+          inArray(shifts.userId, userIds),
+          ne(shifts.status, 'archived'),
+          gte(shifts.endDate, windowStart),
+          lte(shifts.startDate, windowEnd)
+        )),
+      // Time-off end dates are inclusive
+      db.select()
+        .from(timeOffRequests)
+        .where(and(
+          inArray(timeOffRequests.userId, userIds),
+          eq(timeOffRequests.status, 'approved'),
+          lt(timeOffRequests.startDate, last.endDate),
+          gte(timeOffRequests.endDate, first.startDate)
+        )),
+      db.select().from(userPreferences).where(inArray(userPreferences.userId, userIds)),
+    ]);
+
+    const replaceable = await this.findReplaceable(scheduled, first.startDate, last.endDate);
+    const kept = scheduled.filter(shift => !replaceable.has(shift.id));
+
+    const candidates: Candidate[] = users.map(user => ({
+      user,
+      group: coverageGroup(user),
+      avoidsHandover: preferences
+        .find(prefs => prefs.userId === user.id)?.avoidedDaysOfWeek.includes(HANDOVER_DAY) ?? false,
+      shifts: kept.filter(shift => shift.userId === user.id),
+      assigned: [],
+    }));
+
+    const generated: GeneratedShift[] = [];
+    const gaps: ScheduleGap[] = [];
+
+    for (const week of weeks) {
+      for (const group of COVERAGE_GROUPS) {
+        const members = candidates.filter(candidate => candidate.group === group);
+        if (!members.length) continue;
+        if (members.some(member => member.shifts.some(shift => shiftsOverlap(shift, week)))) continue;
+
+        const blocked = { scheduled: 0, timeOff: 0, consecutive: 0, workload: 0 };
+        const eligible = members.filter(member => {
+          const reason = this.checkWeek(member, week, timeOff);
+          if (reason) blocked[reason]++;
+          return !reason;
+        });
+
+        if (!eligible.length) {
+          gaps.push({ ...week, group, reasons: describeBlocked(blocked) });
+          continue;
+        }
+
+        const year = getYear(parseISO(week.startDate));
+        const load = (candidate: Candidate) => yearDays(candidate.shifts, year) / Math.max(1, candidate.user.targetDays);
+        const [chosen] = eligible.sort((a, b) =>
+          Number(a.avoidsHandover) - Number(b.avoidsHandover) ||
+          load(a) - load(b) ||
+          a.user.id - b.user.id
+        );
+
+        chosen.shifts.push(week);
+        chosen.assigned.push(week);
+        generated.push({ ...week, userId: chosen.user.id, group });
+      }
+    }
+
+    const report = candidates.map(candidate => this.report(candidate, period, weeks));
+
+    if (options.dryRun) {
+      return {
+        ...period,
+        weeks: weeks.length,
+        shifts: generated,
+        replacedShiftIds: Array.from(replaceable),
+        gaps,
+        report,
+      };
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const draft = await schedulePeriodService.draftPeriodFor(first.startDate, tx);
+      if (!draft || draft.endDate < last.endDate) {
+        throw new ScheduleGenerationError(
+          `Generated shifts are drafts: create a draft schedule period covering ${first.startDate} to ${last.endDate} first`
+        );
+      }
+
+      const removed = replaceable.size
+        ? await tx.delete(shifts).where(inArray(shifts.id, Array.from(replaceable))).returning()
+        : [];
+
+      const inserted = generated.length
+        ? await tx.insert(shifts)
+          .values(generated.map(shift => ({
+            userId: shift.userId,
+            startDate: shift.startDate,
+            endDate: shift.endDate,
+            status: 'draft' as const,
+            periodId: draft.id,
+            source: 'generated',
+            schedulingNotes: { group: shift.group, period },
+          })))
+          .returning()
+        : [];
+
+      await shiftAuditService.record(tx, audit, [
+        ...removed.map(shift => ({ action: 'delete' as const, before: shift, after: null })),
+        ...inserted.map(shift => ({ action: 'create' as const, before: null, after: shift })),
+      ]);
+
+      return { removed, inserted };
+    });
+
+    outcome.removed.forEach(shift => this.ws?.sendShiftChange('deleted', shift));
+    outcome.inserted.forEach(shift => this.ws?.sendShiftChange('created', shift));
+
+    return {
+      ...period,
+      weeks: weeks.length,
+      shifts: outcome.inserted,
+      replacedShiftIds: outcome.removed.map(shift => shift.id),
+      gaps,
+      report,
+    };
+  }
+
+  // Untouched generated drafts inside the planned weeks
+  private async findReplaceable(scheduled: Shift[], from: string, to: string): Promise<Set<number>> {
+    const generated = scheduled.filter(shift =>
+      shift.source === 'generated' &&
+      shift.sequence === 0 &&
+      shift.status === 'draft' &&
+      shift.startDate >= from &&
+      shift.endDate <= to
+    );
+    if (!generated.length) return new Set();
+
+    const ids = generated.map(shift => shift.id);
+    const referenced = await db.select({ shiftId: swapRequests.shiftId, requestedShiftId: swapRequests.requestedShiftId })
+      .from(swapRequests)
+      .where(or(
+        inArray(swapRequests.shiftId, ids),
+        and(isNotNull(swapRequests.requestedShiftId), inArray(swapRequests.requestedShiftId, ids))
+      ));
+
+    const inUse = new Set(referenced.flatMap(row => [row.shiftId, row.requestedShiftId]));
+    return new Set(ids.filter(id => !inUse.has(id)));
+  }
+
+  private checkWeek(
+    candidate: Candidate,
+    week: ShiftDates,
+    timeOff: Array<{ userId: number; startDate: string; endDate: string }>
+  ): 'scheduled' | 'timeOff' | 'consecutive' | 'workload' | null {
+    const { user } = candidate;
+
+    if (candidate.shifts.some(shift => shiftsOverlap(shift, week))) return 'scheduled';
+
+    if (timeOff.some(request =>
+      request.userId === user.id && request.startDate < week.endDate && request.endDate >= week.startDate
+    )) {
+      return 'timeOff';
+    }
+
+    const weekIndex = weeksCovered(week)[0];
+    const streak = findRuns([...candidate.shifts.flatMap(weeksCovered), weekIndex])
+      .find(run => run.first <= weekIndex && weekIndex <= run.last)!;
+    if (streak.last - streak.first + 1 > user.maxConsecutiveWeeks) return 'consecutive';
+
+    const allowed = user.targetDays + (user.tolerance ?? 0);
+    const start = parseISO(week.startDate);
+    const end = parseISO(week.endDate);
+    for (let year = getYear(start); year <= getYear(addDays(end, -1)); year++) {
+      const added = daysWithin(week, new Date(year, 0, 1), new Date(year + 1, 0, 1));
+      if (yearDays(candidate.shifts, year) + added > allowed) return 'workload';
+    }
+
+    return null;
+  }
+
+  private report(
+    candidate: Candidate,
+    period: GenerationPeriod,
+    weeks: ShiftDates[]
+  ): ProviderReport {
+    const { user } = candidate;
+    const from = parseISO(period.startDate);
+    const to = parseISO(period.endDate);
+    const sumWithin = (list: ShiftDates[]) => list.reduce((sum, shift) => sum + daysWithin(shift, from, to), 0);
+
+    const tolerance = user.tolerance ?? 0;
+    const years: YearWorkload[] = [];
+    const lastYear = getYear(addDays(parseISO(weeks[weeks.length - 1].endDate), -1));
+    for (let year = getYear(parseISO(weeks[0].startDate)); year <= lastYear; year++) {
+      const scheduledDays = yearDays(candidate.shifts, year);
+      const difference = scheduledDays - user.targetDays;
+      years.push({ year, scheduledDays, difference, withinTolerance: Math.abs(difference) <= tolerance });
+    }
+
+    return {
+      userId: user.id,
+      name: user.name,
+      group: candidate.group,
+      targetDays: user.targetDays,
+      tolerance,
+      keptDays: sumWithin(candidate.shifts) - sumWithin(candidate.assigned),
+      generatedDays: sumWithin(candidate.assigned),
+      years,
+    };
+  }
+}
+
+/**
+ * Whole Friday-to-Thursday weeks inside the period
+ */
+function planningWeeks(period: GenerationPeriod): ShiftDates[] {
+  const start = parseISO(period.startDate);
+  const end = parseISO(period.endDate);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(period.startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(period.endDate) ||
+      !isValid(start) || !isValid(end)) {
+    throw new ScheduleGenerationError("startDate and endDate must be yyyy-MM-dd dates");
+  }
+
+  const weeks: ShiftDates[] = [];
+  let friday = addDays(start, (HANDOVER_DAY - start.getDay() + 7) % 7);
+  while (addDays(friday, 7) <= end) {
+    weeks.push({
+      startDate: format(friday, 'yyyy-MM-dd'),
+      endDate: format(addDays(friday, 7), 'yyyy-MM-dd'),
+    });
+    friday = addDays(friday, 7);
+  }
+
+  if (!weeks.length) {
+    throw new ScheduleGenerationError("The period must contain at least one whole Friday-to-Thursday week");
+  }
+  if (weeks.length > MAX_WEEKS) {
+    throw new ScheduleGenerationError(`The period may span at most ${MAX_WEEKS} weeks`);
+  }
+  return weeks;
+}
+
+function yearDays(list: ShiftDates[], year: number): number {
+  const from = new Date(year, 0, 1);
+  const to = new Date(year + 1, 0, 1);
+  return list.reduce((sum, shift) => sum + daysWithin(shift, from, to), 0);
+}
+
+function describeBlocked(blocked: Record<'scheduled' | 'timeOff' | 'consecutive' | 'workload', number>): string[] {
+  const reasons: string[] = [];
+  if (blocked.scheduled) reasons.push(`${blocked.scheduled} already scheduled`);
+  if (blocked.timeOff) reasons.push(`${blocked.timeOff} on approved time off`);
+  if (blocked.consecutive) reasons.push(`${blocked.consecutive} at their consecutive-week limit`);
+  if (blocked.workload) reasons.push(`${blocked.workload} would exceed target days plus tolerance`);
+  return reasons;
+}
+
+export const scheduleGenerator = new ScheduleGenerator();
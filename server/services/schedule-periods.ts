@@ -0,0 +1,224 @@
+import { db } from "@db";
+import { and, asc, eq, gt, lt, lte, sql } from "drizzle-orm";
+import { schedulePeriods, shifts, type SchedulePeriod, type Shift } from "@db/schema";
+import { notify, type WebSocketInterface } from "../websocket";
+import { shiftAuditService, type AuditContext } from "./shift-audit";
+import { isDateString } from "./shift-dates";
+import type { Transaction } from "./swap-requests";
+
+export class SchedulePeriodError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'SchedulePeriodError';
+  }
+}
+
+type Executor = typeof db | Transaction;
+
+export interface NewSchedulePeriod {
+  name: string;
+  startDate: string;
+  // Exclusive, like shift end dates
+  endDate: string;
+  createdBy: number;
+}
+
+export interface SchedulePeriodSummary extends SchedulePeriod {
+  // Shifts still waiting for the period to be published
+  draftShifts: number;
+}
+
+export interface PublishedSchedule {
+  period: SchedulePeriod;
+  shifts: Shift[];
+  // Providers who were sent their part of the schedule
+  notifiedUserIds: number[];
+}
+
+/**
+ * Draft periods let schedulers plan a stretch of the schedule in private.
+ * A shift created inside a draft period, by hand or by the generator,
+ * becomes a draft of that period: only schedulers see it, ICS feeds leave it
+ * out and its changes are only announced to schedulers. Publishing makes all
+ * of the period's drafts live at once. Shifts that were already live inside
+ * the period's dates are not affected by any of this.
+ */
+export class SchedulePeriodService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async list(): Promise<SchedulePeriodSummary[]> {
+    const rows = await db.select({
+      period: schedulePeriods,
+      draftShifts: sql<number>`count(${shifts.id})::int`,
+    })
+      .from(schedulePeriods)
+      .leftJoin(shifts, and(eq(shifts.periodId, schedulePeriods.id), eq(shifts.status, 'draft')))
+      .groupBy(schedulePeriods.id)
+      .orderBy(asc(schedulePeriods.startDate));
+
+    return rows.map(({ period, draftShifts }) => ({ ...period, draftShifts }));
+  }
+
+  async create(input: NewSchedulePeriod): Promise<SchedulePeriod> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new SchedulePeriodError("A name is required", 400);
+    }
+    if (!isDateString(input.startDate) || !isDateString(input.endDate)) {
+      throw new SchedulePeriodError("startDate and endDate must be yyyy-MM-dd dates", 400);
+    }
+    if (input.endDate <= input.startDate) {
+      throw new SchedulePeriodError("endDate must be after startDate", 400);
+    }
+
+    // A new shift has to belong to at most one draft
+    const [overlapping] = await db.select()
+      .from(schedulePeriods)
+      .where(and(
+        eq(schedulePeriods.status, 'draft'),
+        lt(schedulePeriods.startDate, input.endDate),
+        gt(schedulePeriods.endDate, input.startDate)
+      ));
+    if (overlapping) {
+      throw new SchedulePeriodError(`The dates overlap the draft period "${overlapping.name}"`, 409);
+    }
+
+    const [period] = await db.insert(schedulePeriods)
+      .values({
+        name,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        createdBy: input.createdBy,
+      })
+      .returning();
+
+    return period;
+  }
+
+  /**
+   * The draft period a shift starting on this date is created in, if any
+   */
+  async draftPeriodFor(startDate: string, executor: Executor = db): Promise<SchedulePeriod | undefined> {
+    const [period] = await executor.select()
+      .from(schedulePeriods)
+      .where(and(
+        eq(schedulePeriods.status, 'draft'),
+        lte(schedulePeriods.startDate, startDate),
+        gt(schedulePeriods.endDate, startDate)
+      ));
+
+    return period;
+  }
+
+  /**
+   * Draft periods overlapping the dates, for placing many shifts at once
+   * with `periodContaining`
+   */
+  async draftPeriodsWithin(startDate: string, endDate: string, executor: Executor = db): Promise<SchedulePeriod[]> {
+    return executor.select()
+      .from(schedulePeriods)
+      .where(and(
+        eq(schedulePeriods.status, 'draft'),
+        lt(schedulePeriods.startDate, endDate),
+        gt(schedulePeriods.endDate, startDate)
+      ));
+  }
+
+  /**
+   * Makes the period's drafts live. Everyone is told once that the schedule
+   * changed, and each provider with shifts in the period is sent theirs.
+   */
+  async publish(periodId: number, audit: AuditContext): Promise<PublishedSchedule> {
+    const outcome = await db.transaction(async (tx) => {
+      const period = await this.lockDraft(tx, periodId);
+      const now = new Date();
+
+      const drafts = new Map((await tx.select()
+        .from(shifts)
+        .where(and(eq(shifts.periodId, period.id), eq(shifts.status, 'draft')))
+        .for('update')).map(shift => [shift.id, shift]));
+
+      const published = await tx.update(shifts)
+        .set({
+          status: 'confirmed',
+          sequence: sql`${shifts.sequence} + 1`,
+          updatedAt: now,
+        })
+        .where(and(eq(shifts.periodId, period.id), eq(shifts.status, 'draft')))
+        .returning();
+
+      const [updated] = await tx.update(schedulePeriods)
+        .set({ status: 'published', publishedBy: audit.actorId, publishedAt: now, updatedAt: now })
+        .where(eq(schedulePeriods.id, period.id))
+        .returning();
+
+      await shiftAuditService.record(tx, audit, published.map(shift => ({
+        action: 'update' as const,
+        before: drafts.get(shift.id) ?? null,
+        after: shift,
+      })));
+
+      return { period: updated, shifts: published };
+    });
+
+    const byUser = new Map<number, Shift[]>();
+    outcome.shifts.forEach(shift => {
+      if (shift.userId) byUser.set(shift.userId, [...(byUser.get(shift.userId) ?? []), shift]);
+    });
+
+    this.ws?.broadcast(notify.schedulePublished(outcome.period, outcome.shifts.map(shift => shift.id)));
+    byUser.forEach((userShifts, userId) => {
+      this.ws?.sendToUser(userId, notify.publishedShifts(outcome.period, userShifts));
+    });
+
+    return { ...outcome, notifiedUserIds: Array.from(byUser.keys()) };
+  }
+
+  /**
+   * Deletes a draft period together with its draft shifts
+   */
+  async discard(periodId: number, audit: AuditContext): Promise<{ period: SchedulePeriod; shifts: Shift[] }> {
+    const outcome = await db.transaction(async (tx) => {
+      const period = await this.lockDraft(tx, periodId);
+
+      const removed = await tx.delete(shifts)
+        .where(and(eq(shifts.periodId, period.id), eq(shifts.status, 'draft')))
+        .returning();
+
+      await tx.delete(schedulePeriods).where(eq(schedulePeriods.id, period.id));
+      await shiftAuditService.record(tx, audit, removed.map(shift => ({ action: 'delete' as const, before: shift, after: null })));
+
+      return { period, shifts: removed };
+    });
+
+    outcome.shifts.forEach(shift => this.ws?.sendShiftChange('deleted', shift));
+    return outcome;
+  }
+
+  private async lockDraft(tx: Transaction, periodId: number): Promise<SchedulePeriod> {
+    const [period] = Number.isInteger(periodId)
+      ? await tx.select()
+        .from(schedulePeriods)
+        .where(eq(schedulePeriods.id, periodId))
+        .for('update')
+      : [];
+
+    if (!period) {
+      throw new SchedulePeriodError("Schedule period not found", 404);
+    }
+    if (period.status !== 'draft') {
+      throw new SchedulePeriodError("The schedule period has already been published", 409);
+    }
+    return period;
+  }
+}
+
+export function periodContaining(periods: SchedulePeriod[], startDate: string): SchedulePeriod | undefined {
+  return periods.find(period => period.startDate <= startDate && startDate < period.endDate);
+}
+
+export const schedulePeriodService = new SchedulePeriodService();
@@ -0,0 +1,438 @@
+import { db } from "@db";
+import { and, desc, eq, gt, inArray, isNotNull, lt, ne, or, sql } from "drizzle-orm";
+import {
+  scheduleSnapshots,
+  shifts,
+  swapRequests,
+  type Conflict,
+  type ScheduleSnapshot,
+  type Shift,
+  type SnapshotShift
+} from "@db/schema";
+import type { WebSocketInterface } from "../websocket";
+import { conflictResolutionService } from "./conflict-resolution";
+import { schedulePeriodService } from "./schedule-periods";
+import { shiftAuditService, toSnapshotShift, type AuditContext } from "./shift-audit";
+import { isDateString } from "./shift-dates";
+import { supersedeRequests, swapRequestService, type Transaction } from "./swap-requests";
+import { coverageGroup, userDirectory, type CoverageGroup } from "./user-directory";
+
+type Executor = typeof db | Transaction;
+
+export class ScheduleSnapshotError extends Error {
+  constructor(message: string, readonly status: 400 | 404) {
+    super(message);
+    this.name = 'ScheduleSnapshotError';
+  }
+}
+
+export interface NewScheduleSnapshot {
+  name: string;
+  startDate: string;
+  // Exclusive, like shift end dates
+  endDate: string;
+  createdBy: number | null;
+}
+
+export type ScheduleSnapshotSummary = Omit<ScheduleSnapshot, 'shifts'> & { shiftCount: number };
+
+export interface ShiftChange {
+  before: SnapshotShift;
+  after: SnapshotShift;
+}
+
+export interface ProviderDiff {
+  // null for shifts nobody is assigned to
+  userId: number | null;
+  name: string;
+  added: SnapshotShift[];
+  removed: SnapshotShift[];
+  // Shifts taken over from someone else, or handed to someone else
+  reassignedIn: ShiftChange[];
+  reassignedOut: ShiftChange[];
+  // Shifts the provider kept whose dates changed
+  moved: ShiftChange[];
+}
+
+export interface ScheduleDiff {
+  startDate: string;
+  endDate: string;
+  // snapshotId is null for the live schedule
+  from: { snapshotId: number | null; name: string };
+  to: { snapshotId: number | null; name: string };
+  totals: { added: number; removed: number; reassigned: number; moved: number };
+  providers: ProviderDiff[];
+}
+
+export interface RollbackResult {
+  snapshot: ScheduleSnapshotSummary;
+  // Taken just before the rollback, so it can be rolled back in turn
+  backup: ScheduleSnapshotSummary;
+  // Shifts recreated or changed back to their snapshot state
+  restored: Shift[];
+  // Live shifts missing from the snapshot. Those with swap history are
+  // archived so the history keeps its shifts; the rest are deleted.
+  removed: Shift[];
+  conflicts: Conflict[];
+}
+
+const summaryColumns = {
+  id: scheduleSnapshots.id,
+  name: scheduleSnapshots.name,
+  startDate: scheduleSnapshots.startDate,
+  endDate: scheduleSnapshots.endDate,
+  createdBy: scheduleSnapshots.createdBy,
+  createdAt: scheduleSnapshots.createdAt,
+  shiftCount: sql<number>`jsonb_array_length(${scheduleSnapshots.shifts})`,
+};
+
+/**
+ * Named copies of the shifts overlapping a date range. A snapshot can be
+ * compared with another one or with the live schedule, and the range can be
+ * rolled back to it. Archived shifts are left out, since they are no longer
+ * part of the schedule.
+ */
+export class ScheduleSnapshotService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async list(): Promise<ScheduleSnapshotSummary[]> {
+    return db.select(summaryColumns)
+      .from(scheduleSnapshots)
+      .orderBy(desc(scheduleSnapshots.createdAt));
+  }
+
+  /**
+   * Captures the live shifts in the range. Pass the transaction of a bulk
+   * change to capture exactly what it is about to change.
+   */
+  async capture(input: NewScheduleSnapshot, executor: Executor = db): Promise<ScheduleSnapshotSummary> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new ScheduleSnapshotError("A name is required", 400);
+    }
+    if (!isDateString(input.startDate) || !isDateString(input.endDate)) {
+      throw new ScheduleSnapshotError("startDate and endDate must be yyyy-MM-dd dates", 400);
+    }
+    if (input.endDate <= input.startDate) {
+      throw new ScheduleSnapshotError("endDate must be after startDate", 400);
+    }
+
+    const live = await shiftsInRange(input.startDate, input.endDate, executor);
+    return this.save(executor, { ...input, name }, live);
+  }
+
+  async remove(snapshotId: number): Promise<void> {
+    const removed = Number.isInteger(snapshotId)
+      ? await db.delete(scheduleSnapshots).where(eq(scheduleSnapshots.id, snapshotId)).returning({ id: scheduleSnapshots.id })
+      : [];
+
+    if (!removed.length) {
+      throw new ScheduleSnapshotError("Snapshot not found", 404);
+    }
+  }
+
+  /**
+   * Changes per provider from one snapshot to another, or to the live
+   * schedule, within the first snapshot's range
+   */
+  async diff(fromId: number, toId: number | 'live' = 'live'): Promise<ScheduleDiff> {
+    const from = await this.get(fromId);
+    const to = toId === 'live' ? null : await this.get(toId);
+
+    const after = to
+      ? to.shifts.filter(shift => shift.startDate < from.endDate && shift.endDate > from.startDate)
+      : (await shiftsInRange(from.startDate, from.endDate)).map(toSnapshotShift);
+
+    const users = new Map((await userDirectory.list()).map(user => [user.id, user]));
+    const groupOf = (userId: number | null) => {
+      const user = userId == null ? undefined : users.get(userId);
+      return user ? coverageGroup(user) : null;
+    };
+
+    const providers = new Map<number | null, ProviderDiff>();
+    const provider = (userId: number | null) => {
+      let entry = providers.get(userId);
+      if (!entry) {
+        entry = {
+          userId,
+          name: userId == null ? 'Unassigned' : users.get(userId)?.name ?? 'Unknown user',
+          added: [],
+          removed: [],
+          reassignedIn: [],
+          reassignedOut: [],
+          moved: [],
+        };
+        providers.set(userId, entry);
+      }
+      return entry;
+    };
+
+    const changes = diffShifts(from.shifts, after, groupOf);
+    changes.added.forEach(shift => provider(shift.userId).added.push(shift));
+    changes.removed.forEach(shift => provider(shift.userId).removed.push(shift));
+    changes.reassigned.forEach(change => {
+      provider(change.before.userId).reassignedOut.push(change);
+      provider(change.after.userId).reassignedIn.push(change);
+    });
+    changes.moved.forEach(change => provider(change.after.userId).moved.push(change));
+
+    return {
+      startDate: from.startDate,
+      endDate: from.endDate,
+      from: { snapshotId: from.id, name: from.name },
+      to: to ? { snapshotId: to.id, name: to.name } : { snapshotId: null, name: 'Live schedule' },
+      totals: {
+        added: changes.added.length,
+        removed: changes.removed.length,
+        reassigned: changes.reassigned.length,
+        moved: changes.moved.length,
+      },
+      providers: Array.from(providers.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * Puts the snapshot's range back the way it was, in one transaction.
+   * Open swap requests on shifts that change are cancelled, and the live
+   * state is saved as a snapshot first.
+   */
+  async rollback(snapshotId: number, audit: AuditContext): Promise<RollbackResult> {
+    const snapshot = await this.get(snapshotId);
+    const now = new Date();
+
+    const outcome = await db.transaction(async (tx) => {
+      const live = await shiftsInRange(snapshot.startDate, snapshot.endDate, tx);
+      const backup = await this.save(tx, {
+        name: `Before rollback to ${snapshot.name}`,
+        startDate: snapshot.startDate,
+        endDate: snapshot.endDate,
+        createdBy: audit.actorId,
+      }, live);
+
+      const saved = new Map(snapshot.shifts.map(shift => [shift.id, shift]));
+      // Shifts moved out of the range since are brought back too
+      const existing = new Map(
+        (saved.size ? await tx.select().from(shifts).where(inArray(shifts.id, Array.from(saved.keys()))) : [])
+          .map(shift => [shift.id, shift])
+      );
+      // A draft can only come back as one while its period is still a draft
+      const drafts = new Set(
+        (await schedulePeriodService.draftPeriodsWithin(snapshot.startDate, snapshot.endDate, tx)).map(period => period.id)
+      );
+      const restoredStatus = (shift: SnapshotShift): Shift['status'] => {
+        if (shift.status === 'draft') return shift.periodId && drafts.has(shift.periodId) ? 'draft' : 'confirmed';
+        // Any swap the shift was waiting on is cancelled below
+        return shift.status === 'pending_swap' ? 'confirmed' : shift.status;
+      };
+
+      const changed = snapshot.shifts.filter(shift => {
+        const current = existing.get(shift.id);
+        return current && (
+          current.userId !== shift.userId ||
+          current.startDate !== shift.startDate ||
+          current.endDate !== shift.endDate ||
+          current.status === 'archived' ||
+          (current.status === 'draft') !== (restoredStatus(shift) === 'draft')
+        );
+      });
+      const missing = snapshot.shifts.filter(shift => !existing.has(shift.id));
+      const stale = live.filter(shift => !saved.has(shift.id));
+
+      const transitions = await supersedeRequests(tx, [...changed, ...stale].map(shift => shift.id));
+
+      const restored: Shift[] = [];
+      const recreated: Shift[] = [];
+      for (const shift of changed) {
+        const status = restoredStatus(shift);
+        const [row] = await tx.update(shifts)
+          .set({
+            userId: shift.userId,
+            startDate: shift.startDate,
+            endDate: shift.endDate,
+            status,
+            periodId: status === 'draft' ? shift.periodId : existing.get(shift.id)!.periodId,
+            sequence: sql`${shifts.sequence} + 1`,
+            updatedAt: now,
+          })
+          .where(eq(shifts.id, shift.id))
+          .returning();
+        restored.push(row);
+      }
+      if (missing.length) {
+        // Recreated under their old ids, which keeps calendar UIDs stable
+        recreated.push(...await tx.insert(shifts)
+          .values(missing.map(shift => {
+            const status = restoredStatus(shift);
+            return {
+              id: shift.id,
+              userId: shift.userId,
+              startDate: shift.startDate,
+              endDate: shift.endDate,
+              status,
+              source: shift.source,
+              schedulingNotes: shift.schedulingNotes,
+              periodId: status === 'draft' ? shift.periodId : null,
+              updatedAt: now,
+            };
+          }))
+          .returning());
+      }
+
+      const removed: Shift[] = [];
+      if (stale.length) {
+        const staleIds = stale.map(shift => shift.id);
+        const referenced = await tx.select({ shiftId: swapRequests.shiftId, requestedShiftId: swapRequests.requestedShiftId })
+          .from(swapRequests)
+          .where(or(
+            inArray(swapRequests.shiftId, staleIds),
+            and(isNotNull(swapRequests.requestedShiftId), inArray(swapRequests.requestedShiftId, staleIds))
+          ));
+        const withHistory = new Set(referenced.flatMap(row => [row.shiftId, row.requestedShiftId]));
+        const archive = staleIds.filter(id => withHistory.has(id));
+        const remove = staleIds.filter(id => !withHistory.has(id));
+
+        if (archive.length) {
+          removed.push(...await tx.update(shifts)
+            .set({ status: 'archived', sequence: sql`${shifts.sequence} + 1`, updatedAt: now })
+            .where(inArray(shifts.id, archive))
+            .returning());
+        }
+        if (remove.length) {
+          removed.push(...await tx.delete(shifts).where(inArray(shifts.id, remove)).returning());
+        }
+      }
+
+      const staleById = new Map(stale.map(shift => [shift.id, shift]));
+      await shiftAuditService.record(tx, audit, [
+        ...restored.map(shift => ({ action: 'update' as const, before: existing.get(shift.id)!, after: shift })),
+        ...recreated.map(shift => ({ action: 'create' as const, before: null, after: shift })),
+        ...removed.map(shift => ({
+          action: 'delete' as const,
+          before: staleById.get(shift.id)!,
+          after: shift.status === 'archived' ? shift : null,
+        })),
+      ]);
+
+      return { backup, transitions, restored, recreated, removed };
+    });
+
+    await swapRequestService.announce(outcome.transitions);
+    outcome.restored.forEach(shift => this.ws?.sendShiftChange('updated', shift));
+    outcome.recreated.forEach(shift => this.ws?.sendShiftChange('created', shift));
+    // Archived shifts leave the schedule just like deleted ones
+    outcome.removed.forEach(shift => this.ws?.sendShiftChange('deleted', shift));
+
+    const restored = [...outcome.restored, ...outcome.recreated];
+    const conflicts: Conflict[] = [];
+    for (const shift of restored) {
+      conflicts.push(...await conflictResolutionService.recordConflicts(shift.id));
+    }
+
+    const { shifts: _shifts, ...summary } = snapshot;
+    return {
+      snapshot: { ...summary, shiftCount: snapshot.shifts.length },
+      backup: outcome.backup,
+      restored,
+      removed: outcome.removed,
+      conflicts,
+    };
+  }
+
+  private async get(snapshotId: number): Promise<ScheduleSnapshot> {
+    const [snapshot] = Number.isInteger(snapshotId)
+      ? await db.select().from(scheduleSnapshots).where(eq(scheduleSnapshots.id, snapshotId))
+      : [];
+
+    if (!snapshot) {
+      throw new ScheduleSnapshotError("Snapshot not found", 404);
+    }
+    return snapshot;
+  }
+
+  private async save(executor: Executor, input: NewScheduleSnapshot, live: Shift[]): Promise<ScheduleSnapshotSummary> {
+    const [snapshot] = await executor.insert(scheduleSnapshots)
+      .values({
+        name: input.name,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        shifts: live.map(toSnapshotShift),
+        createdBy: input.createdBy,
+      })
+      .returning(summaryColumns);
+
+    return snapshot;
+  }
+}
+
+/**
+ * Pairs up the shifts of two versions of a range. Shifts are matched by id
+ * first. Deleting and recreating a shift, e.g. by re-importing or
+ * regenerating a week, gives it a new id, so the rest are matched on their
+ * dates within a coverage group, preferring the same provider.
+ */
+export function diffShifts(
+  before: SnapshotShift[],
+  after: SnapshotShift[],
+  groupOf: (userId: number | null) => CoverageGroup | null
+) {
+  const added: SnapshotShift[] = [];
+  const removed: SnapshotShift[] = [];
+  const reassigned: ShiftChange[] = [];
+  const moved: ShiftChange[] = [];
+
+  const compare = (previous: SnapshotShift, next: SnapshotShift) => {
+    if (previous.userId !== next.userId) {
+      reassigned.push({ before: previous, after: next });
+    } else if (previous.startDate !== next.startDate || previous.endDate !== next.endDate) {
+      moved.push({ before: previous, after: next });
+    }
+  };
+
+  const unmatched = new Map(after.map(shift => [shift.id, shift]));
+  const leftOver: SnapshotShift[] = [];
+  for (const shift of before) {
+    const match = unmatched.get(shift.id);
+    if (match) {
+      unmatched.delete(shift.id);
+      compare(shift, match);
+    } else {
+      leftOver.push(shift);
+    }
+  }
+
+  for (const shift of leftOver) {
+    const sameWeek = Array.from(unmatched.values()).filter(candidate =>
+      candidate.startDate === shift.startDate &&
+      candidate.endDate === shift.endDate &&
+      groupOf(candidate.userId) === groupOf(shift.userId)
+    );
+    const match = sameWeek.find(candidate => candidate.userId === shift.userId) ?? sameWeek[0];
+    if (match) {
+      unmatched.delete(match.id);
+      compare(shift, match);
+    } else {
+      removed.push(shift);
+    }
+  }
+
+  added.push(...Array.from(unmatched.values()));
+  return { added, removed, reassigned, moved };
+}
+
+// Live shifts overlapping the range; end dates are exclusive
+function shiftsInRange(startDate: string, endDate: string, executor: Executor = db): Promise<Shift[]> {
+  return executor.select()
+    .from(shifts)
+    .where(and(
+      ne(shifts.status, 'archived'),
+      lt(shifts.startDate, endDate),
+      gt(shifts.endDate, startDate)
+    ))
+    .orderBy(shifts.startDate, shifts.id);
+}
+
+export const scheduleSnapshotService = new ScheduleSnapshotService();
@@ -0,0 +1,307 @@
+import { db } from "@db";
+import { arrayContains, desc, eq, or, sql } from "drizzle-orm";
+import {
+  shiftAuditEntries,
+  shifts,
+  swapRequests,
+  type Shift,
+  type ShiftAuditAction,
+  type ShiftAuditEntry,
+  type SnapshotShift
+} from "@db/schema";
+import type { WebSocketInterface } from "../websocket";
+import { conflictResolutionService, type ConflictDetectionResult } from "./conflict-resolution";
+import { schedulePeriodService } from "./schedule-periods";
+import { supersedeRequests, swapRequestService, type Transaction } from "./swap-requests";
+import { userDirectory, type UserSummary } from "./user-directory";
+
+export class ShiftAuditError extends Error {
+  constructor(
+    message: string,
+    readonly status: 404 | 409,
+    // Set when a revert was refused because it would conflict
+    readonly conflicts: ConflictDetectionResult[] = []
+  ) {
+    super(message);
+    this.name = 'ShiftAuditError';
+  }
+}
+
+type Executor = typeof db | Transaction;
+
+/**
+ * Who is changing shifts and through which route. Routes build one per
+ * request and pass it down to every service that writes shifts.
+ */
+export interface AuditContext {
+  actorId: number | null;
+  // Method and route pattern, e.g. "PUT /api/shifts/:id"
+  source: string;
+}
+
+export interface ShiftChange {
+  action: ShiftAuditAction;
+  before: Shift | null;
+  after: Shift | null;
+}
+
+export interface ShiftAuditRecord extends ShiftAuditEntry {
+  actor: UserSummary | null;
+}
+
+export interface RevertResult {
+  // The entry recording the revert
+  entry: ShiftAuditRecord;
+  // The shift as it is now; null when the revert deleted it
+  shift: Shift | null;
+}
+
+const DEFAULT_LIMIT = 200;
+
+/**
+ * Keeps a history of every change to a shift, written in the same
+ * transaction as the change. Swap bookkeeping that only marks shifts
+ * pending_swap or releases them again is not recorded, since it never
+ * changes who works when.
+ */
+export class ShiftAuditService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async record(executor: Executor, context: AuditContext, changes: ShiftChange[], revertOf?: number): Promise<ShiftAuditEntry[]> {
+    if (!changes.length) return [];
+
+    return executor.insert(shiftAuditEntries)
+      .values(changes.map(({ action, before, after }) => ({
+        shiftId: (after ?? before)!.id,
+        action,
+        actorId: context.actorId,
+        source: context.source,
+        before: before && toSnapshotShift(before),
+        after: after && toSnapshotShift(after),
+        userIds: Array.from(new Set([before?.userId, after?.userId].filter((id): id is number => id != null))),
+        revertOf: revertOf ?? null,
+      })))
+      .returning();
+  }
+
+  async forShift(shiftId: number, options: { includeDrafts: boolean }): Promise<ShiftAuditRecord[]> {
+    const entries = await db.select()
+      .from(shiftAuditEntries)
+      .where(eq(shiftAuditEntries.shiftId, shiftId))
+      .orderBy(desc(shiftAuditEntries.id));
+
+    return this.describe(entries, options.includeDrafts);
+  }
+
+  /**
+   * Changes to shifts the provider held before or after the change, newest
+   * first
+   */
+  async forProvider(userId: number, options: { includeDrafts: boolean; limit?: number }): Promise<ShiftAuditRecord[]> {
+    const entries = await db.select()
+      .from(shiftAuditEntries)
+      .where(arrayContains(shiftAuditEntries.userIds, [userId]))
+      .orderBy(desc(shiftAuditEntries.id))
+      .limit(options.limit ?? DEFAULT_LIMIT);
+
+    return this.describe(entries, options.includeDrafts);
+  }
+
+  /**
+   * Puts the shift back the way it was before the change. Only the latest
+   * change to a shift can be reverted, and only while the shift still looks
+   * the way that change left it and going back would not cause a conflict.
+   * Swaps are refused: their legs and the request behind them only make
+   * sense together, so a swap is undone by swapping back.
+   */
+  async revert(entryId: number, context: AuditContext): Promise<RevertResult> {
+    const outcome = await db.transaction(async (tx) => {
+      const [entry] = Number.isInteger(entryId)
+        ? await tx.select()
+          .from(shiftAuditEntries)
+          .where(eq(shiftAuditEntries.id, entryId))
+          .for('update')
+        : [];
+
+      if (!entry) {
+        throw new ShiftAuditError("Audit entry not found", 404);
+      }
+      if (entry.revertedBy) {
+        throw new ShiftAuditError("This change has already been reverted", 409);
+      }
+      if (entry.action === 'swap') {
+        throw new ShiftAuditError("Swaps cannot be reverted one shift at a time; request a swap back instead", 409);
+      }
+
+      const [latest] = await tx.select({ id: shiftAuditEntries.id })
+        .from(shiftAuditEntries)
+        .where(eq(shiftAuditEntries.shiftId, entry.shiftId))
+        .orderBy(desc(shiftAuditEntries.id))
+        .limit(1);
+      if (latest.id !== entry.id) {
+        throw new ShiftAuditError("The shift has changed since; revert its later changes first", 409);
+      }
+
+      const [current] = await tx.select()
+        .from(shifts)
+        .where(eq(shifts.id, entry.shiftId))
+        .for('update');
+      if (!sameShift(current ?? null, entry.after)) {
+        throw new ShiftAuditError("The shift no longer matches this change", 409);
+      }
+
+      const target = entry.before;
+      if (target?.userId) {
+        const detected = await conflictResolutionService.evaluateShift({
+          id: target.id,
+          userId: target.userId,
+          startDate: target.startDate,
+          endDate: target.endDate,
+        });
+        if (detected.length) {
+          throw new ShiftAuditError(
+            `Reverting would cause a conflict: ${detected.map(c => c.description).join('; ')}`,
+            409,
+            detected
+          );
+        }
+      }
+
+      // Requests for the shift were made against the state being undone
+      const transitions = current && !sameShift(current, target)
+        ? await supersedeRequests(tx, [current.id])
+        : [];
+
+      const change: ShiftChange = target
+        ? await this.restore(tx, target, current ?? null)
+        : { action: 'delete' as const, before: current, after: await removeShift(tx, current) };
+
+      const [recorded] = await this.record(tx, context, [change], entry.id);
+      await tx.update(shiftAuditEntries)
+        .set({ revertedBy: recorded.id })
+        .where(eq(shiftAuditEntries.id, entry.id));
+
+      return { change, recorded, transitions };
+    });
+
+    await swapRequestService.announce(outcome.transitions);
+    const { action, before, after } = outcome.change;
+    if (action === 'delete') {
+      this.ws?.sendShiftChange('deleted', before!);
+    } else {
+      this.ws?.sendShiftChange(action === 'create' ? 'created' : 'updated', after!);
+    }
+
+    const [entry] = await this.describe([outcome.recorded], true);
+    return { entry, shift: action === 'delete' ? null : after };
+  }
+
+  private async restore(tx: Transaction, target: SnapshotShift, current: Shift | null): Promise<ShiftChange> {
+    const status = await restoredStatus(tx, target);
+
+    if (!current) {
+      // Recreated under its old id, which keeps calendar UIDs stable
+      const [recreated] = await tx.insert(shifts)
+        .values({
+          id: target.id,
+          userId: target.userId,
+          startDate: target.startDate,
+          endDate: target.endDate,
+          status,
+          source: target.source,
+          schedulingNotes: target.schedulingNotes,
+          // The period may have been discarded since
+          periodId: status === 'draft' ? target.periodId : null,
+        })
+        .returning();
+      return { action: 'create', before: null, after: recreated };
+    }
+
+    const [restored] = await tx.update(shifts)
+      .set({
+        userId: target.userId,
+        startDate: target.startDate,
+        endDate: target.endDate,
+        status,
+        periodId: status === 'draft' ? target.periodId : current.periodId,
+        sequence: sql`${shifts.sequence} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(shifts.id, current.id))
+      .returning();
+    return { action: 'update', before: current, after: restored };
+  }
+
+  private async describe(entries: ShiftAuditEntry[], includeDrafts: boolean): Promise<ShiftAuditRecord[]> {
+    // Providers do not get to see drafts before they are published
+    const visible = includeDrafts
+      ? entries
+      : entries.filter(entry => (entry.after ?? entry.before)?.status !== 'draft');
+
+    return Promise.all(visible.map(async entry => ({
+      ...entry,
+      actor: entry.actorId ? await userDirectory.summarize(entry.actorId) : null,
+    })));
+  }
+}
+
+/**
+ * A draft can only come back as one while its period is still a draft, and
+ * any swap the shift was waiting on has been cancelled
+ */
+async function restoredStatus(tx: Transaction, shift: SnapshotShift): Promise<Shift['status']> {
+  if (shift.status === 'draft') {
+    const period = await schedulePeriodService.draftPeriodFor(shift.startDate, tx);
+    return period && period.id === shift.periodId ? 'draft' : 'confirmed';
+  }
+  return shift.status === 'pending_swap' ? 'confirmed' : shift.status;
+}
+
+function sameShift(shift: SnapshotShift | null, other: SnapshotShift | null): boolean {
+  if (!shift || !other) return shift === other;
+  return shift.userId === other.userId &&
+    shift.startDate === other.startDate &&
+    shift.endDate === other.endDate &&
+    (shift.status === 'archived') === (other.status === 'archived');
+}
+
+/**
+ * Shifts with swap history are archived rather than deleted, so the
+ * requests that mention them stay intact
+ */
+export async function removeShift(tx: Transaction, shift: Shift): Promise<Shift | null> {
+  const [referenced] = await tx.select({ id: swapRequests.id })
+    .from(swapRequests)
+    .where(or(eq(swapRequests.shiftId, shift.id), eq(swapRequests.requestedShiftId, shift.id)))
+    .limit(1);
+
+  if (!referenced) {
+    await tx.delete(shifts).where(eq(shifts.id, shift.id));
+    return null;
+  }
+
+  const [archived] = await tx.update(shifts)
+    .set({ status: 'archived', sequence: sql`${shifts.sequence} + 1`, updatedAt: new Date() })
+    .where(eq(shifts.id, shift.id))
+    .returning();
+  return archived;
+}
+
+export function toSnapshotShift(shift: Shift): SnapshotShift {
+  return {
+    id: shift.id,
+    userId: shift.userId,
+    startDate: shift.startDate,
+    endDate: shift.endDate,
+    status: shift.status,
+    source: shift.source,
+    schedulingNotes: shift.schedulingNotes,
+    periodId: shift.periodId,
+  };
+}
+
+export const shiftAuditService = new ShiftAuditService();
@@ -0,0 +1,289 @@
+import { db } from "@db";
+import { eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { shifts, type Conflict, type Shift } from "@db/schema";
+import type { WebSocketInterface } from "../websocket";
+import {
+  conflictResolutionService,
+  type CandidateShift,
+  type ConflictDetectionResult
+} from "./conflict-resolution";
+import { periodContaining, schedulePeriodService } from "./schedule-periods";
+import { removeShift, shiftAuditService, type AuditContext, type ShiftChange } from "./shift-audit";
+import { isDateString } from "./shift-dates";
+import { supersedeRequests, swapRequestService, type Transaction } from "./swap-requests";
+import { userDirectory } from "./user-directory";
+
+export const MAX_BATCH_SIZE = 500;
+
+const dateString = z.string().refine(isDateString, "must be a yyyy-MM-dd date");
+
+export const shiftOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create'),
+    userId: z.number().int(),
+    startDate: dateString,
+    endDate: dateString,
+    source: z.string().optional(),
+    schedulingNotes: z.record(z.unknown()).optional(),
+  }).strict(),
+  z.object({
+    op: z.literal('update'),
+    id: z.number().int(),
+    userId: z.number().int().optional(),
+    startDate: dateString.optional(),
+    endDate: dateString.optional(),
+  }).strict(),
+  z.object({
+    op: z.literal('delete'),
+    id: z.number().int(),
+  }).strict(),
+]);
+export type ShiftOperation = z.infer<typeof shiftOperationSchema>;
+
+export interface ShiftOperationResult {
+  index: number;
+  op: ShiftOperation['op'] | null;
+  // The shift as written; for a delete, the row that was removed
+  shift: Shift | null;
+  errors: string[];
+  conflicts: ConflictDetectionResult[];
+}
+
+export interface ShiftBatchOutcome {
+  // False when nothing was written because an operation failed validation
+  // or, in reject mode, would conflict
+  applied: boolean;
+  results: ShiftOperationResult[];
+  // Conflicts stored for the written shifts
+  conflicts: Conflict[];
+}
+
+export interface ShiftBatchOptions {
+  conflictMode: 'reject' | 'warn';
+  audit: AuditContext;
+  // Imports mirror an external schedule, so their shifts are live right away
+  // instead of becoming drafts of a draft period
+  createdAs?: 'create' | 'import';
+}
+
+type Planned = {
+  result: ShiftOperationResult;
+  // Null when the operation did not parse
+  operation: ShiftOperation | null;
+  existing?: Shift;
+  candidate?: CandidateShift;
+};
+
+/**
+ * Applies a list of shift creates, updates and deletes all together or not
+ * at all. Every operation is validated first, and conflicts are checked
+ * against the schedule as it will be once the whole batch is in, so
+ * operations that only work together (moving two overlapping shifts apart)
+ * pass. Clients get one aggregated shift_change event.
+ */
+export class ShiftBatchService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async apply(operations: unknown[], options: ShiftBatchOptions): Promise<ShiftBatchOutcome> {
+    const outcome = await db.transaction(async (tx) => {
+      const planned = await this.plan(tx, operations);
+
+      if (planned.some(({ result }) => result.errors.length)) {
+        return { applied: false, planned, changes: [] as ShiftChange[], transitions: [] };
+      }
+
+      const candidates = planned.flatMap(({ candidate }) => candidate ? [candidate] : []);
+      const removedIds = planned.flatMap(({ operation }) => operation?.op === 'delete' ? [operation.id] : []);
+      for (const { result, candidate } of planned) {
+        if (candidate) {
+          result.conflicts = await conflictResolutionService.evaluateShift(candidate, candidates, removedIds);
+        }
+      }
+
+      if (options.conflictMode === 'reject' && planned.some(({ result }) => result.conflicts.length)) {
+        return { applied: false, planned, changes: [] as ShiftChange[], transitions: [] };
+      }
+
+      // Requests were made against the shifts as they were
+      const transitions = await supersedeRequests(tx, planned.flatMap(({ operation, existing, candidate }) =>
+        existing && (operation?.op === 'delete' || !sameAssignment(existing, candidate!)) ? [existing.id] : []
+      ));
+
+      const changes = await this.write(tx, planned, options.createdAs ?? 'create');
+      await shiftAuditService.record(tx, options.audit, changes);
+
+      return { applied: true, planned, changes, transitions };
+    });
+
+    const results = outcome.planned.map(({ result }) => result);
+    if (!outcome.applied) {
+      return { applied: false, results, conflicts: [] };
+    }
+
+    await swapRequestService.announce(outcome.transitions);
+    this.ws?.sendShiftBatch(outcome.changes.map(({ action, before, after }) => ({
+      action: action === 'delete' ? 'deleted' as const : action === 'update' ? 'updated' as const : 'created' as const,
+      shift: (action === 'delete' ? before : after)!,
+    })));
+
+    const conflicts: Conflict[] = [];
+    for (const { action, after } of outcome.changes) {
+      if (action !== 'delete') {
+        conflicts.push(...await conflictResolutionService.recordConflicts(after!.id));
+      }
+    }
+
+    return { applied: true, results, conflicts };
+  }
+
+  /**
+   * Validates every operation on its own and against the rest of the batch,
+   * locking the shifts it touches
+   */
+  private async plan(tx: Transaction, operations: unknown[]): Promise<Planned[]> {
+    const parsed = operations.map((raw, index) => {
+      const result: ShiftOperationResult = { index, op: null, shift: null, errors: [], conflicts: [] };
+      const operation = shiftOperationSchema.safeParse(raw);
+      if (!operation.success) {
+        result.errors.push(...operation.error.issues.map(i => `${i.path.length ? i.path.join('.') + ': ' : ''}${i.message}`));
+        return { result, operation: null };
+      }
+      result.op = operation.data.op;
+      return { result, operation: operation.data };
+    });
+
+    const ids = parsed.flatMap(({ operation }) => operation && operation.op !== 'create' ? [operation.id] : []);
+    const existing = new Map(
+      (ids.length
+        ? await tx.select().from(shifts).where(inArray(shifts.id, ids)).orderBy(shifts.id).for('update')
+        : []
+      ).map(shift => [shift.id, shift])
+    );
+    const seen = new Set<number>();
+
+    const planned: Planned[] = [];
+    for (const { result, operation } of parsed) {
+      if (!operation) {
+        planned.push({ result, operation });
+        continue;
+      }
+
+      const errors = result.errors;
+      let shift: Shift | undefined;
+      if (operation.op !== 'create') {
+        shift = existing.get(operation.id);
+        if (seen.has(operation.id)) {
+          errors.push(`Shift ${operation.id} appears in more than one operation`);
+        }
+        seen.add(operation.id);
+
+        if (!shift || shift.status === 'archived') {
+          errors.push(`Shift ${operation.id} not found`);
+          planned.push({ result, operation });
+          continue;
+        }
+      }
+
+      if (operation.op === 'delete') {
+        planned.push({ result, operation, existing: shift });
+        continue;
+      }
+
+      const candidate = operation.op === 'create'
+        ? { userId: operation.userId, startDate: operation.startDate, endDate: operation.endDate }
+        : {
+          id: shift!.id,
+          userId: operation.userId ?? shift!.userId!,
+          startDate: operation.startDate ?? shift!.startDate,
+          endDate: operation.endDate ?? shift!.endDate,
+        };
+
+      if (candidate.endDate <= candidate.startDate) {
+        errors.push("endDate must be after startDate");
+      }
+      if (candidate.userId == null) {
+        errors.push("The shift has no provider; set userId");
+      } else if (candidate.userId !== shift?.userId && !await userDirectory.getActive(candidate.userId)) {
+        errors.push(`User ${candidate.userId} does not exist or has been deactivated`);
+      }
+      if (operation.op === 'update' && shift!.status === 'draft' &&
+          (operation.startDate !== undefined || operation.endDate !== undefined)) {
+        const period = await schedulePeriodService.draftPeriodFor(candidate.startDate, tx);
+        if (period?.id !== shift!.periodId) {
+          errors.push("A draft shift has to stay within its schedule period");
+        }
+      }
+
+      planned.push({ result, operation, existing: shift, candidate });
+    }
+
+    return planned;
+  }
+
+  private async write(tx: Transaction, planned: Planned[], createdAs: 'create' | 'import'): Promise<ShiftChange[]> {
+    const now = new Date();
+    const creates = planned.flatMap(({ candidate, operation }) => operation?.op === 'create' ? [candidate!] : []);
+    // Shifts created inside a draft period stay hidden until it is published
+    const drafts = creates.length && createdAs === 'create'
+      ? await schedulePeriodService.draftPeriodsWithin(
+        creates.map(shift => shift.startDate).sort()[0],
+        creates.map(shift => shift.endDate).sort().reverse()[0],
+        tx
+      )
+      : [];
+
+    const changes: ShiftChange[] = [];
+    for (const { result, operation, existing, candidate } of planned) {
+      if (!operation) continue;
+
+      if (operation.op === 'create') {
+        const draft = periodContaining(drafts, candidate!.startDate);
+        const [created] = await tx.insert(shifts)
+          .values({
+            userId: candidate!.userId,
+            startDate: candidate!.startDate,
+            endDate: candidate!.endDate,
+            status: draft ? 'draft' : 'confirmed',
+            periodId: draft?.id ?? null,
+            source: operation.source ?? 'manual',
+            schedulingNotes: operation.schedulingNotes ?? {},
+          })
+          .returning();
+        changes.push({ action: createdAs, before: null, after: created });
+        result.shift = created;
+      } else if (operation.op === 'update') {
+        const [updated] = await tx.update(shifts)
+          .set({
+            userId: candidate!.userId,
+            startDate: candidate!.startDate,
+            endDate: candidate!.endDate,
+            sequence: sql`${shifts.sequence} + 1`,
+            updatedAt: now,
+          })
+          .where(eq(shifts.id, operation.id))
+          .returning();
+        changes.push({ action: 'update', before: existing!, after: updated });
+        result.shift = updated;
+      } else {
+        const removed = await removeShift(tx, existing!);
+        changes.push({ action: 'delete', before: existing!, after: removed });
+        result.shift = existing!;
+      }
+    }
+
+    return changes;
+  }
+}
+
+function sameAssignment(shift: Shift, candidate: CandidateShift): boolean {
+  return shift.userId === candidate.userId &&
+    shift.startDate === candidate.startDate &&
+    shift.endDate === candidate.endDate;
+}
+
+export const shiftBatchService = new ShiftBatchService();
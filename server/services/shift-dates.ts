@@ -0,0 +1,95 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isValid,
+  max,
+  min,
+  parseISO,
+  startOfWeek
+} from "date-fns";
+
+// Shift dates are stored as yyyy-MM-dd with an exclusive end date, the same
+// convention the calendar uses for all-day events.
+export interface ShiftDates {
+  startDate: string;
+  endDate: string;
+}
+
+const EPOCH = new Date(1970, 0, 1);
+
+/**
+ * Whether the value is a real calendar date in yyyy-MM-dd form
+ */
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    isValid(parseISO(value)) && format(parseISO(value), 'yyyy-MM-dd') === value;
+}
+
+/**
+ * Shifts that hand over on the same day do not overlap
+ */
+export function shiftsOverlap(a: ShiftDates, b: ShiftDates): boolean {
+  return a.startDate < b.endDate && a.endDate > b.startDate;
+}
+
+/**
+ * Number of days a shift covers, at least one for zero-length rows
+ */
+export function shiftLength(shift: ShiftDates): number {
+  return Math.max(1, differenceInCalendarDays(parseISO(shift.endDate), parseISO(shift.startDate)));
+}
+
+/**
+ * Number of days of a shift that fall inside [from, to)
+ */
+export function daysWithin(shift: ShiftDates, from: Date, to: Date): number {
+  const start = max([parseISO(shift.startDate), from]);
+  const end = min([parseISO(shift.endDate), to]);
+  return Math.max(0, differenceInCalendarDays(end, start));
+}
+
+export function dayIndex(date: Date): number {
+  return differenceInCalendarDays(date, EPOCH);
+}
+
+/**
+ * Scheduling weeks run Friday to Thursday
+ */
+export function weekIndex(date: Date): number {
+  return Math.floor(dayIndex(startOfWeek(date, { weekStartsOn: 5 })) / 7);
+}
+
+export function daysCovered(shift: ShiftDates): number[] {
+  const first = dayIndex(parseISO(shift.startDate));
+  const days: number[] = [];
+  for (let day = first; day < first + shiftLength(shift); day++) days.push(day);
+  return days;
+}
+
+export function weeksCovered(shift: ShiftDates): number[] {
+  const first = weekIndex(parseISO(shift.startDate));
+  const last = weekIndex(addDays(parseISO(shift.endDate), -1));
+  const weeks: number[] = [];
+  for (let week = first; week <= Math.max(first, last); week++) weeks.push(week);
+  return weeks;
+}
+
+/**
+ * Groups day or week indices into runs of consecutive values
+ */
+export function findRuns(indices: Iterable<number>): Array<{ first: number; last: number }> {
+  const sorted = Array.from(new Set(indices)).sort((a, b) => a - b);
+  const runs: Array<{ first: number; last: number }> = [];
+
+  for (const index of sorted) {
+    const current = runs[runs.length - 1];
+    if (current && index === current.last + 1) {
+      current.last = index;
+    } else {
+      runs.push({ first: index, last: index });
+    }
+  }
+
+  return runs;
+}
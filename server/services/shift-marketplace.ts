@@ -0,0 +1,271 @@
+import { db } from "@db";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { format } from "date-fns";
+import { shifts, swapRequests, type Shift, type SwapRequest } from "@db/schema";
+import { notify, type WebSocketInterface } from "../websocket";
+import { conflictResolutionService } from "./conflict-resolution";
+import type { AuditContext } from "./shift-audit";
+import { swapApprovalPolicy } from "./swap-approval";
+import { swapScoringService } from "./swap-scoring";
+import { userDirectory, type UserSummary } from "./user-directory";
+import {
+  SwapRequestError,
+  applyLegs,
+  assertNoTimeOff,
+  supersedeRequests,
+  swapRequestService,
+  type Transition
+} from "./swap-requests";
+
+export interface NewOpenShift {
+  shiftId: number;
+  reason?: string | null;
+  expiresAt?: Date | null;
+}
+
+export interface OpenShiftEligibility {
+  eligible: boolean;
+  score: number;
+  // Why the user cannot claim the shift; empty when eligible
+  reasons: string[];
+}
+
+export interface OpenShiftListing extends SwapRequest {
+  shift: Shift;
+  owner: UserSummary;
+  eligibility?: OpenShiftEligibility;
+}
+
+/**
+ * The giveaway board. A posting is a swap request of kind 'open' with no
+ * recipient; the first eligible colleague to claim it takes the shift.
+ */
+export class ShiftMarketplaceService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async post(input: NewOpenShift): Promise<SwapRequest> {
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new SwapRequestError("Expiry must be in the future", 400);
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const [shift] = await tx.select()
+        .from(shifts)
+        .where(eq(shifts.id, input.shiftId))
+        .for('update');
+
+      if (!shift) {
+        throw new SwapRequestError("Shift not found", 404);
+      }
+      if (!shift.userId || !(await userDirectory.getActive(shift.userId))) {
+        throw new SwapRequestError("Only shifts assigned to an active provider can be posted", 409);
+      }
+      if (shift.status === 'archived') {
+        throw new SwapRequestError("Archived shifts cannot be posted", 409);
+      }
+      if (shift.status === 'draft') {
+        throw new SwapRequestError("Draft shifts cannot be posted until their schedule is published", 409);
+      }
+      if (shift.startDate <= format(new Date(), 'yyyy-MM-dd')) {
+        throw new SwapRequestError("Shifts that have already started cannot be posted", 409);
+      }
+
+      const [existing] = await tx.select({ id: swapRequests.id })
+        .from(swapRequests)
+        .where(and(
+          eq(swapRequests.kind, 'open'),
+          eq(swapRequests.shiftId, shift.id),
+          eq(swapRequests.status, 'pending')
+        ));
+
+      if (existing) {
+        throw new SwapRequestError("This shift is already on the board", 409);
+      }
+
+      const [posting] = await tx.insert(swapRequests)
+        .values({
+          requestorId: shift.userId,
+          recipientId: null,
+          shiftId: shift.id,
+          kind: 'open',
+          status: 'pending',
+          reason: input.reason ?? null,
+          expiresAt: input.expiresAt ?? null,
+        })
+        .returning();
+
+      const [pending] = await tx.update(shifts)
+        .set({
+          status: 'pending_swap',
+          sequence: sql`${shifts.sequence} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(shifts.id, shift.id), ne(shifts.status, 'pending_swap')))
+        .returning();
+
+      return { posting, shift: pending ?? shift };
+    });
+
+    const owner = await userDirectory.get(outcome.posting.requestorId);
+    if (owner) {
+      this.ws?.broadcast(notify.openShiftPosted(outcome.posting.id, outcome.shift, owner));
+    }
+    this.ws?.sendShiftChange('updated', outcome.shift);
+
+    return outcome.posting;
+  }
+
+  /**
+   * Open postings, oldest first. With a viewer, only their own postings and
+   * the ones they are eligible to claim are returned, with the eligibility
+   * details attached.
+   */
+  async listOpen(viewerId?: number): Promise<OpenShiftListing[]> {
+    const postings = await db.query.swapRequests.findMany({
+      where: and(eq(swapRequests.kind, 'open'), eq(swapRequests.status, 'pending')),
+      with: { shift: true },
+      orderBy: asc(swapRequests.createdAt),
+    });
+
+    const listings: OpenShiftListing[] = [];
+    for (const { shift, ...posting } of postings) {
+      if (!shift) continue;
+
+      const listing: OpenShiftListing = {
+        ...posting,
+        shift,
+        owner: await userDirectory.summarize(posting.requestorId),
+      };
+
+      if (viewerId === undefined || posting.requestorId === viewerId) {
+        listings.push(listing);
+        continue;
+      }
+
+      const eligibility = await this.checkEligibility(shift, viewerId);
+      if (eligibility.eligible) {
+        listings.push({ ...listing, eligibility });
+      }
+    }
+    return listings;
+  }
+
+  /**
+   * The recommendation factors a claim must pass, plus the same conflict
+   * checks as any other shift write
+   */
+  async checkEligibility(shift: Shift, userId: number): Promise<OpenShiftEligibility> {
+    if (shift.userId === userId) {
+      return { eligible: false, score: 0, reasons: ["You already own this shift"] };
+    }
+
+    const score = await swapScoringService.scoreCandidate(shift, userId);
+    if (!score) {
+      return { eligible: false, score: 0, reasons: ["Only active providers can claim shifts"] };
+    }
+
+    const detected = await conflictResolutionService.evaluateShift({
+      id: shift.id,
+      userId,
+      startDate: shift.startDate,
+      endDate: shift.endDate,
+    });
+
+    const reasons = [...score.blockers, ...detected.map(conflict => conflict.description)];
+    return { eligible: reasons.length === 0, score: score.score, reasons };
+  }
+
+  /**
+   * First valid claim wins: the posting row is locked, so a concurrent claim
+   * waits and then finds the shift already taken. When a require_approval
+   * rule matches, the claim is held for an admin like any other swap and the
+   * shift stays with its owner until approved.
+   */
+  async claim(requestId: number, userId: number, audit: AuditContext): Promise<{ request: SwapRequest; shift: Shift }> {
+    const claimant = await userDirectory.getActive(userId);
+    if (!claimant) {
+      throw new SwapRequestError("Only active providers can claim shifts", 400);
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const [posting] = await tx.select()
+        .from(swapRequests)
+        .where(eq(swapRequests.id, requestId))
+        .for('update');
+
+      if (!posting || posting.kind !== 'open') {
+        throw new SwapRequestError("Open shift not found", 404);
+      }
+      if (posting.status === 'accepted') {
+        throw new SwapRequestError("This shift has already been claimed", 409);
+      }
+      if (posting.status !== 'pending') {
+        throw new SwapRequestError(`This posting is ${posting.status}`, 409);
+      }
+      if (posting.expiresAt && posting.expiresAt <= new Date()) {
+        throw new SwapRequestError("This posting has expired", 409);
+      }
+
+      const [shift] = await tx.select()
+        .from(shifts)
+        .where(eq(shifts.id, posting.shiftId!))
+        .for('update');
+
+      if (!shift || shift.userId !== posting.requestorId) {
+        throw new SwapRequestError("The shift has changed hands since it was posted", 409);
+      }
+
+      const leg = { shift, toUserId: userId };
+      await assertNoTimeOff(tx, [leg]);
+
+      const eligibility = await this.checkEligibility(shift, userId);
+      if (!eligibility.eligible) {
+        throw new SwapRequestError(`Not eligible to claim this shift: ${eligibility.reasons.join('; ')}`, 409);
+      }
+
+      const requirement = await swapApprovalPolicy.evaluate(shift, null);
+      if (requirement) {
+        const [held] = await tx.update(swapRequests)
+          .set({
+            status: 'awaiting_approval',
+            recipientId: userId,
+            approvalRuleId: requirement.rule.id,
+            approvalReasons: requirement.reasons,
+            updatedAt: new Date(),
+          })
+          .where(eq(swapRequests.id, posting.id))
+          .returning();
+
+        const transitions: Transition[] = [{ request: held, status: 'awaiting_approval', shifts: [], chains: [] }];
+        return { request: held, shift, transitions };
+      }
+
+      const [claimed] = await applyLegs(tx, [leg], audit);
+
+      const [request] = await tx.update(swapRequests)
+        .set({ status: 'accepted', recipientId: userId, updatedAt: new Date() })
+        .where(eq(swapRequests.id, posting.id))
+        .returning();
+
+      return {
+        request,
+        shift: claimed,
+        transitions: await supersedeRequests(tx, [claimed.id]),
+      };
+    });
+
+    if (outcome.request.status === 'accepted') {
+      this.ws?.broadcast(notify.openShiftClosed(outcome.request.id, 'accepted', claimant));
+      this.ws?.sendShiftChange('updated', outcome.shift);
+    }
+    await swapRequestService.announce(outcome.transitions);
+
+    return { request: outcome.request, shift: outcome.shift };
+  }
+}
+
+export const shiftMarketplaceService = new ShiftMarketplaceService();
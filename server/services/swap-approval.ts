@@ -0,0 +1,114 @@
+import { db } from "@db";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { addDays, format, parseISO } from "date-fns";
+import { schedulingRules, type SchedulingRule, type Shift } from "@db/schema";
+import { shiftLength } from "./shift-dates";
+
+/**
+ * Conditions of a scheduling rule with the require_approval strategy. A rule
+ * applies to a swap when any one of its conditions holds. Pay periods are
+ * calendar months.
+ */
+export const swapApprovalConditionsSchema = z.object({
+  // Swapping a shift that covers one of these days needs sign-off
+  holidays: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Holiday dates must be yyyy-MM-dd"),
+    name: z.string().optional(),
+  })).min(1).optional(),
+  // A shift that spans two months, or an exchange of shifts in different months
+  crossMonth: z.boolean().optional(),
+  // Exchanged shifts whose lengths differ by at least this many days; a
+  // one-way giveaway differs by the whole length of the shift
+  minLengthDifferenceDays: z.number().int().positive().optional(),
+}).strict().refine(
+  conditions => Boolean(conditions.holidays || conditions.crossMonth || conditions.minLengthDifferenceDays),
+  "At least one of holidays, crossMonth or minLengthDifferenceDays is required"
+);
+export type SwapApprovalConditions = z.infer<typeof swapApprovalConditionsSchema>;
+
+export interface ApprovalRequirement {
+  // Highest-priority matching rule
+  rule: SchedulingRule;
+  // Why the swap is held, across every matching rule
+  reasons: string[];
+}
+
+/**
+ * Decides whether a swap both parties agreed to still needs an admin's
+ * sign-off, from the active require_approval scheduling rules
+ */
+export class SwapApprovalPolicy {
+  async evaluate(offered: Shift, requested: Shift | null): Promise<ApprovalRequirement | null> {
+    const rules = await db.select()
+      .from(schedulingRules)
+      .where(and(
+        eq(schedulingRules.strategy, 'require_approval'),
+        eq(schedulingRules.isActive, true)
+      ))
+      .orderBy(desc(schedulingRules.priority));
+
+    let matched: SchedulingRule | null = null;
+    const reasons = new Set<string>();
+
+    for (const rule of rules) {
+      const parsed = swapApprovalConditionsSchema.safeParse(rule.conditions);
+      if (!parsed.success) {
+        console.warn(`Skipping approval rule ${rule.id} with invalid conditions:`, parsed.error.message);
+        continue;
+      }
+
+      const ruleReasons = matchConditions(parsed.data, offered, requested);
+      if (!ruleReasons.length) continue;
+
+      if (!matched) matched = rule;
+      ruleReasons.forEach(reason => reasons.add(`${rule.name}: ${reason}`));
+    }
+
+    return matched ? { rule: matched, reasons: Array.from(reasons) } : null;
+  }
+}
+
+function matchConditions(conditions: SwapApprovalConditions, offered: Shift, requested: Shift | null): string[] {
+  const swapped = requested ? [offered, requested] : [offered];
+  const reasons: string[] = [];
+
+  for (const holiday of conditions.holidays ?? []) {
+    // Shift end dates are exclusive
+    const covering = swapped.find(shift => shift.startDate <= holiday.date && holiday.date < shift.endDate);
+    if (covering) {
+      const label = holiday.name ? `${holiday.name} (${holiday.date})` : `the ${holiday.date} holiday`;
+      reasons.push(`Shift starting ${covering.startDate} covers ${label}`);
+    }
+  }
+
+  if (conditions.crossMonth) {
+    for (const shift of swapped) {
+      if (monthOf(shift.startDate) !== monthOf(lastDay(shift))) {
+        reasons.push(`Shift starting ${shift.startDate} spans two pay periods`);
+      }
+    }
+    if (requested && monthOf(offered.startDate) !== monthOf(requested.startDate)) {
+      reasons.push("The exchanged shifts fall in different pay periods");
+    }
+  }
+
+  if (conditions.minLengthDifferenceDays) {
+    const difference = Math.abs(shiftLength(offered) - (requested ? shiftLength(requested) : 0));
+    if (difference >= conditions.minLengthDifferenceDays) {
+      reasons.push(`Shift lengths differ by ${difference} day(s)`);
+    }
+  }
+
+  return reasons;
+}
+
+function monthOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+function lastDay(shift: Shift): string {
+  return format(addDays(parseISO(shift.startDate), shiftLength(shift) - 1), 'yyyy-MM-dd');
+}
+
+export const swapApprovalPolicy = new SwapApprovalPolicy();
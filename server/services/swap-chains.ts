@@ -0,0 +1,772 @@
+import { db } from "@db";
+import { and, eq, desc, inArray, isNull, ne, sql } from "drizzle-orm";
+import {
+  shifts,
+  swapChains,
+  swapChainParticipants,
+  swapRequests,
+  type Conflict,
+  type Shift,
+  type SwapChain,
+  type SwapChainParticipant,
+  type SwapChainStatus,
+  type SwapRequest,
+  type SwapRequestStatus
+} from "@db/schema";
+import { notify, type NotificationMessage, type WebSocketInterface } from "../websocket";
+import { conflictResolutionService, type ConflictDetectionResult } from "./conflict-resolution";
+import type { AuditContext } from "./shift-audit";
+import { swapApprovalPolicy, type ApprovalRequirement } from "./swap-approval";
+import { userDirectory, type UserSummary } from "./user-directory";
+import {
+  SwapRequestError,
+  applyLegs,
+  assertNoTimeOff,
+  evaluateLegs,
+  releaseShifts,
+  supersedeRequests,
+  swapRequestService,
+  type Leg,
+  type SwapResponseOutcome,
+  type Transaction,
+  type Transition
+} from "./swap-requests";
+
+// Longer cycles are unlikely to get everyone's agreement
+export const MAX_CHAIN_LENGTH = 5;
+
+// Requests and chains that have not settled yet
+const OPEN_REQUEST_STATUSES: SwapRequestStatus[] = ['pending', 'awaiting_approval'];
+const OPEN_CHAIN_STATUSES: SwapChainStatus[] = ['proposed', 'awaiting_approval'];
+
+type CommitOutcome = {
+  transitions: Transition[];
+  swapped: Shift[];
+  rejectedConflicts: ConflictDetectionResult[] | null;
+  // The chain's intents, when an approval rule held it for an admin
+  held: SwapRequest[];
+};
+
+export interface NewSwapIntent {
+  userId: number;
+  // The user's shift on offer
+  shiftId: number;
+  // Someone else's shift the user wants in return
+  wantedShiftId: number;
+  reason?: string | null;
+  expiresAt?: Date | null;
+}
+
+export interface SwapChainDetail extends SwapChain {
+  participants: Array<SwapChainParticipant & {
+    user: UserSummary;
+    gives: Shift | null;
+    receives: Shift | null;
+  }>;
+}
+
+export interface SwapChainOutcome {
+  chain: SwapChainDetail;
+  // Set when conflictMode is 'reject' and committing would conflict
+  rejectedConflicts: ConflictDetectionResult[] | null;
+  conflicts: Conflict[];
+}
+
+/**
+ * Matches swap intents into cycles. Participant i receives the shift offered
+ * by participant i + 1, wrapping around, so everyone gets what they asked for
+ * even when no two of them could trade directly.
+ */
+export class SwapChainService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  /**
+   * Records a standing offer/want and proposes any chains it completes
+   */
+  async postIntent(input: NewSwapIntent): Promise<{ intent: SwapRequest; chains: SwapChainDetail[] }> {
+    if (input.shiftId === input.wantedShiftId) {
+      throw new SwapRequestError("The offered and wanted shifts must differ", 400);
+    }
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new SwapRequestError("Expiry must be in the future", 400);
+    }
+
+    const user = await userDirectory.getActive(input.userId);
+    if (!user) {
+      throw new SwapRequestError("The user must exist and be active", 400);
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const rows = await tx.select()
+        .from(shifts)
+        .where(inArray(shifts.id, [input.shiftId, input.wantedShiftId]))
+        .orderBy(shifts.id)
+        .for('update');
+
+      const offered = rows.find(shift => shift.id === input.shiftId);
+      const wanted = rows.find(shift => shift.id === input.wantedShiftId);
+      if (!offered || !wanted) {
+        throw new SwapRequestError("Shift not found", 404);
+      }
+      if (offered.userId !== input.userId) {
+        throw new SwapRequestError("Only the shift's owner can offer it for a swap", 409);
+      }
+      if (offered.status === 'archived' || wanted.status === 'archived') {
+        throw new SwapRequestError("Archived shifts cannot be swapped", 409);
+      }
+      if (offered.status === 'draft' || wanted.status === 'draft') {
+        throw new SwapRequestError("Draft shifts cannot be swapped until their schedule is published", 409);
+      }
+
+      const owner = await userDirectory.getActive(wanted.userId);
+      if (!owner || owner.id === input.userId || owner.userType !== user.userType) {
+        throw new SwapRequestError("The wanted shift must belong to another active provider of the same type", 409);
+      }
+
+      await assertNoTimeOff(tx, [{ shift: wanted, toUserId: input.userId }]);
+
+      const [duplicate] = await tx.select({ id: swapRequests.id })
+        .from(swapRequests)
+        .where(and(
+          eq(swapRequests.kind, 'intent'),
+          eq(swapRequests.shiftId, offered.id),
+          eq(swapRequests.requestedShiftId, wanted.id),
+          eq(swapRequests.status, 'pending')
+        ));
+
+      if (duplicate) {
+        throw new SwapRequestError("An open intent for these shifts already exists", 409);
+      }
+
+      const [intent] = await tx.insert(swapRequests)
+        .values({
+          requestorId: input.userId,
+          recipientId: owner.id,
+          shiftId: offered.id,
+          requestedShiftId: wanted.id,
+          kind: 'intent',
+          status: 'pending',
+          reason: input.reason ?? null,
+          expiresAt: input.expiresAt ?? null,
+        })
+        .returning();
+
+      const pending = await tx.update(shifts)
+        .set({
+          status: 'pending_swap',
+          sequence: sql`${shifts.sequence} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(shifts.id, offered.id), ne(shifts.status, 'pending_swap')))
+        .returning();
+
+      return { intent, shifts: pending };
+    });
+
+    outcome.shifts.forEach(shift => this.ws?.sendShiftChange('updated', shift));
+
+    return { intent: outcome.intent, chains: await this.proposeChains() };
+  }
+
+  /**
+   * Finds cycles among open intents that are not already in a chain and
+   * proposes each one that passes the time-off and conflict checks
+   */
+  async proposeChains(): Promise<SwapChainDetail[]> {
+    const open = await db.select()
+      .from(swapRequests)
+      .where(and(
+        eq(swapRequests.kind, 'intent'),
+        eq(swapRequests.status, 'pending'),
+        isNull(swapRequests.chainId)
+      ))
+      .orderBy(swapRequests.id);
+
+    if (open.length < 2) return [];
+
+    const activeUsers = await userDirectory.list({ active: true });
+    const userTypes = new Map(activeUsers.map(user => [user.id, user.userType]));
+
+    const proposed: SwapChainDetail[] = [];
+    for (const cycle of findCycles(open, userTypes)) {
+      const chain = await this.propose(cycle);
+      if (chain) proposed.push(chain);
+    }
+    return proposed;
+  }
+
+  async list(filter: { userId?: number } = {}): Promise<SwapChainDetail[]> {
+    const chainIds = filter.userId === undefined
+      ? undefined
+      : (await db.select({ chainId: swapChainParticipants.chainId })
+          .from(swapChainParticipants)
+          .where(eq(swapChainParticipants.userId, filter.userId)))
+          .map(row => row.chainId);
+
+    if (chainIds && !chainIds.length) return [];
+
+    const chains = await db.select()
+      .from(swapChains)
+      .where(chainIds ? inArray(swapChains.id, chainIds) : undefined)
+      .orderBy(desc(swapChains.createdAt));
+
+    return Promise.all(chains.map(chain => this.describe(chain)));
+  }
+
+  async get(chainId: number): Promise<SwapChainDetail | undefined> {
+    if (isNaN(chainId)) return undefined;
+    const [chain] = await db.select().from(swapChains).where(eq(swapChains.id, chainId));
+    return chain ? this.describe(chain) : undefined;
+  }
+
+  /**
+   * A participant's answer. Declining withdraws their intent and frees the
+   * others for new matches; the last acceptance commits every reassignment
+   * in one transaction, or holds the chain for an admin when a
+   * require_approval rule matches any of its exchanges.
+   */
+  async respond(
+    chainId: number,
+    userId: number,
+    response: 'accepted' | 'declined',
+    conflictMode: 'reject' | 'warn',
+    audit: AuditContext
+  ): Promise<SwapChainOutcome> {
+    const outcome = await db.transaction(async (tx) => {
+      const [chain] = await tx.select()
+        .from(swapChains)
+        .where(eq(swapChains.id, chainId))
+        .for('update');
+
+      if (!chain) {
+        throw new SwapRequestError("Swap chain not found", 404);
+      }
+      if (chain.status !== 'proposed') {
+        throw new SwapRequestError(`Swap chain is already ${chain.status}`, 409);
+      }
+
+      const participants = await tx.select()
+        .from(swapChainParticipants)
+        .where(eq(swapChainParticipants.chainId, chain.id))
+        .orderBy(swapChainParticipants.position);
+
+      const participant = participants.find(p => p.userId === userId);
+      if (!participant) {
+        throw new SwapRequestError("User is not part of this swap chain", 400);
+      }
+      if (participant.response !== 'pending') {
+        throw new SwapRequestError(`Already ${participant.response} this swap chain`, 409);
+      }
+
+      if (response === 'declined') {
+        return this.decline(tx, chain, participant);
+      }
+
+      const othersAccepted = participants
+        .filter(p => p.id !== participant.id)
+        .every(p => p.response === 'accepted');
+
+      let committed: CommitOutcome | null = null;
+      if (othersAccepted) {
+        committed = await this.commit(tx, chain, participants, conflictMode, audit);
+        if (committed.rejectedConflicts) {
+          // Leave the acceptance unrecorded so the participant can retry
+          return committed;
+        }
+      }
+
+      await tx.update(swapChainParticipants)
+        .set({ response: 'accepted', respondedAt: new Date() })
+        .where(eq(swapChainParticipants.id, participant.id));
+
+      return committed ?? { transitions: [], swapped: [], rejectedConflicts: null, held: [] };
+    });
+
+    const chain = await this.get(chainId);
+    if (!chain) {
+      throw new SwapRequestError("Swap chain not found", 404);
+    }
+
+    if (outcome.rejectedConflicts) {
+      return { chain, rejectedConflicts: outcome.rejectedConflicts, conflicts: [] };
+    }
+
+    const conflicts = await this.conclude(chain, outcome);
+    if (outcome.held.length) {
+      await this.requestApproval(chain, outcome.held);
+    }
+
+    if (chain.status === 'declined') {
+      await this.proposeChains();
+    }
+
+    return { chain, rejectedConflicts: null, conflicts };
+  }
+
+  /**
+   * An admin's sign-off on a chain held for approval, reached through any of
+   * its intents. The whole chain is approved or rejected together; approving
+   * repeats the time-off and conflict checks, since the schedule may have
+   * changed while it waited.
+   */
+  async review(
+    chainId: number,
+    requestId: number,
+    reviewerId: number,
+    decision: 'accepted' | 'rejected',
+    conflictMode: 'reject' | 'warn',
+    audit: AuditContext
+  ): Promise<SwapResponseOutcome> {
+    const outcome = await db.transaction(async (tx): Promise<CommitOutcome> => {
+      const [chain] = await tx.select()
+        .from(swapChains)
+        .where(eq(swapChains.id, chainId))
+        .for('update');
+
+      if (!chain || chain.status !== 'awaiting_approval') {
+        throw new SwapRequestError("Swap request is not awaiting approval", 409);
+      }
+
+      const participants = await tx.select()
+        .from(swapChainParticipants)
+        .where(eq(swapChainParticipants.chainId, chain.id))
+        .orderBy(swapChainParticipants.position);
+
+      const cycle = await this.lockIntents(tx, participants, 'awaiting_approval');
+      const review = { reviewedBy: reviewerId, reviewedAt: new Date() };
+
+      if (decision === 'rejected') {
+        const rejected = await tx.update(swapRequests)
+          .set({ status: 'rejected', ...review, updatedAt: new Date() })
+          .where(inArray(swapRequests.id, cycle.map(intent => intent.id)))
+          .returning();
+
+        await tx.update(swapChains)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(eq(swapChains.id, chain.id));
+
+        const transitions: Transition[] = [];
+        for (const request of rejected) {
+          transitions.push({
+            request,
+            status: 'rejected',
+            shifts: await releaseShifts(tx, request.shiftId ? [request.shiftId] : []),
+            chains: [],
+          });
+        }
+        return { transitions, swapped: [], rejectedConflicts: null, held: [] };
+      }
+
+      const legs = await this.lockLegs(tx, cycle);
+      if (conflictMode === 'reject') {
+        const detected = await evaluateLegs(legs);
+        if (detected.length) {
+          return { transitions: [], swapped: [], rejectedConflicts: detected, held: [] };
+        }
+      }
+
+      return this.apply(tx, chain, cycle, legs, audit, review);
+    });
+
+    const [request] = await db.select().from(swapRequests).where(eq(swapRequests.id, requestId));
+    if (outcome.rejectedConflicts) {
+      return { request, rejectedConflicts: outcome.rejectedConflicts, conflicts: [] };
+    }
+
+    const chain = await this.get(chainId);
+    const conflicts = chain ? await this.conclude(chain, outcome) : [];
+    return { request, rejectedConflicts: null, conflicts };
+  }
+
+  /**
+   * Breaks up the proposed chain a request belonged to once that request is
+   * settled elsewhere. The chain's other intents go back into the pool.
+   */
+  async dissolve(tx: Transaction, request: SwapRequest): Promise<SwapChain[]> {
+    if (!request.chainId) return [];
+
+    const [chain] = await tx.update(swapChains)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(swapChains.id, request.chainId), inArray(swapChains.status, OPEN_CHAIN_STATUSES)))
+      .returning();
+
+    if (!chain) return [];
+
+    // Intents held for approval with the chain go back to waiting for a match
+    await tx.update(swapRequests)
+      .set({ status: 'pending', chainId: null, approvalRuleId: null, approvalReasons: null, updatedAt: new Date() })
+      .where(and(eq(swapRequests.chainId, chain.id), inArray(swapRequests.status, OPEN_REQUEST_STATUSES)));
+
+    return [chain];
+  }
+
+  /**
+   * Tells participants about dissolved chains and re-matches the freed intents
+   */
+  async afterDissolve(chains: SwapChain[]) {
+    for (const chain of chains) {
+      const detail = await this.describe(chain);
+      this.notifyParticipants(detail, notify.swapChainUpdated(chain.id, chain.status, toNotification(detail)));
+    }
+    await this.proposeChains();
+  }
+
+  private async propose(cycle: SwapRequest[]): Promise<SwapChainDetail | null> {
+    let chain: SwapChain | null;
+    try {
+      chain = await db.transaction(async (tx) => {
+        const intents = await tx.select()
+          .from(swapRequests)
+          .where(inArray(swapRequests.id, cycle.map(intent => intent.id)))
+          .orderBy(swapRequests.id)
+          .for('update');
+
+        // Another matcher got here first
+        if (intents.some(intent => intent.status !== 'pending' || intent.chainId !== null)) {
+          return null;
+        }
+
+        const offered = await tx.select()
+          .from(shifts)
+          .where(inArray(shifts.id, cycle.map(intent => intent.shiftId!)));
+
+        const legs = chainLegs(cycle, offered);
+        await assertNoTimeOff(tx, legs);
+        if ((await evaluateLegs(legs)).length) {
+          return null;
+        }
+
+        const [created] = await tx.insert(swapChains)
+          .values({ status: 'proposed' })
+          .returning();
+
+        await tx.insert(swapChainParticipants)
+          .values(cycle.map((intent, position) => ({
+            chainId: created.id,
+            swapRequestId: intent.id,
+            userId: intent.requestorId!,
+            position,
+          })));
+
+        await tx.update(swapRequests)
+          .set({ chainId: created.id, updatedAt: new Date() })
+          .where(inArray(swapRequests.id, cycle.map(intent => intent.id)));
+
+        return created;
+      });
+    } catch (error) {
+      // Someone in the cycle cannot take their shift; wait for the pool to change
+      if (error instanceof SwapRequestError) return null;
+      throw error;
+    }
+
+    if (!chain) return null;
+
+    const detail = await this.describe(chain);
+    this.notifyParticipants(detail, notify.swapChainProposed(detail.id, toNotification(detail)));
+    return detail;
+  }
+
+  // Schedulers follow every chain, as they do direct swap requests
+  private notifyParticipants(chain: SwapChainDetail, message: NotificationMessage) {
+    this.ws?.sendToUser(chain.participants.map(participant => participant.userId), message, 'scheduler');
+  }
+
+  /**
+   * Tells participants how the chain stands and everyone else which shifts
+   * changed hands, then records any conflicts the swap left
+   */
+  private async conclude(chain: SwapChainDetail, outcome: CommitOutcome): Promise<Conflict[]> {
+    this.notifyParticipants(chain, notify.swapChainUpdated(chain.id, chain.status, toNotification(chain)));
+    outcome.swapped.forEach(shift => this.ws?.sendShiftChange('updated', shift));
+    await swapRequestService.announce(outcome.transitions);
+
+    const conflicts: Conflict[] = [];
+    for (const shift of outcome.swapped) {
+      conflicts.push(...await conflictResolutionService.recordConflicts(shift.id));
+    }
+    return conflicts;
+  }
+
+  // One notice per held chain, framed around its first participant
+  private async requestApproval(chain: SwapChainDetail, held: SwapRequest[]) {
+    const [first, next] = chain.participants;
+    const intent = held.find(request => request.id === first.swapRequestId);
+    const [requestor, recipient] = await Promise.all([
+      userDirectory.get(first.userId),
+      userDirectory.get(next.userId),
+    ]);
+    if (!intent || !first.gives || !requestor || !recipient) return;
+
+    this.ws?.sendToRole('admin', notify.swapApprovalRequested(
+      intent.id, first.gives, requestor, recipient, intent.approvalReasons ?? [], first.receives ?? undefined
+    ));
+  }
+
+  private async decline(tx: Transaction, chain: SwapChain, participant: SwapChainParticipant) {
+    await tx.update(swapChainParticipants)
+      .set({ response: 'declined', respondedAt: new Date() })
+      .where(eq(swapChainParticipants.id, participant.id));
+
+    await tx.update(swapChains)
+      .set({ status: 'declined', updatedAt: new Date() })
+      .where(eq(swapChains.id, chain.id));
+
+    // Withdrawing the decliner's intent stops the same cycle being proposed again
+    const [withdrawn] = await tx.update(swapRequests)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(swapRequests.id, participant.swapRequestId))
+      .returning();
+
+    await tx.update(swapRequests)
+      .set({ chainId: null, updatedAt: new Date() })
+      .where(and(eq(swapRequests.chainId, chain.id), eq(swapRequests.status, 'pending')));
+
+    const transitions: Transition[] = [{
+      request: withdrawn,
+      status: 'cancelled',
+      shifts: await releaseShifts(tx, withdrawn.shiftId ? [withdrawn.shiftId] : []),
+      chains: [],
+    }];
+
+    return { transitions, swapped: [] as Shift[], rejectedConflicts: null, held: [] };
+  }
+
+  private async commit(
+    tx: Transaction,
+    chain: SwapChain,
+    participants: SwapChainParticipant[],
+    conflictMode: 'reject' | 'warn',
+    audit: AuditContext
+  ): Promise<CommitOutcome> {
+    const cycle = await this.lockIntents(tx, participants, 'pending');
+    const legs = await this.lockLegs(tx, cycle);
+
+    if (conflictMode === 'reject') {
+      const detected = await evaluateLegs(legs);
+      if (detected.length) {
+        return { transitions: [], swapped: [], rejectedConflicts: detected, held: [] };
+      }
+    }
+
+    const requirement = await approvalRequirement(legs);
+    if (requirement) {
+      const held = await tx.update(swapRequests)
+        .set({
+          status: 'awaiting_approval',
+          approvalRuleId: requirement.rule.id,
+          approvalReasons: requirement.reasons,
+          updatedAt: new Date(),
+        })
+        .where(inArray(swapRequests.id, cycle.map(intent => intent.id)))
+        .returning();
+
+      await tx.update(swapChains)
+        .set({ status: 'awaiting_approval', updatedAt: new Date() })
+        .where(eq(swapChains.id, chain.id));
+
+      return { transitions: [], swapped: [], rejectedConflicts: null, held };
+    }
+
+    return this.apply(tx, chain, cycle, legs, audit);
+  }
+
+  /**
+   * Locks the chain's intents in id order, requiring each to still be in
+   * `status`, and returns them in cycle order
+   */
+  private async lockIntents(
+    tx: Transaction,
+    participants: SwapChainParticipant[],
+    status: SwapRequestStatus
+  ): Promise<SwapRequest[]> {
+    const rows = await tx.select()
+      .from(swapRequests)
+      .where(inArray(swapRequests.id, participants.map(p => p.swapRequestId)))
+      .orderBy(swapRequests.id)
+      .for('update');
+
+    const intents = participants.map(p => rows.find(row => row.id === p.swapRequestId));
+    if (intents.some(intent => !intent || intent.status !== status)) {
+      throw new SwapRequestError("A participant has withdrawn from this swap chain", 409);
+    }
+    return intents as SwapRequest[];
+  }
+
+  // Locks the offered shifts and checks everyone can still take theirs
+  private async lockLegs(tx: Transaction, cycle: SwapRequest[]): Promise<Leg[]> {
+    const offered = await tx.select()
+      .from(shifts)
+      .where(inArray(shifts.id, cycle.map(intent => intent.shiftId!)))
+      .orderBy(shifts.id)
+      .for('update');
+
+    const legs = chainLegs(cycle, offered);
+    await assertNoTimeOff(tx, legs);
+    return legs;
+  }
+
+  private async apply(
+    tx: Transaction,
+    chain: SwapChain,
+    cycle: SwapRequest[],
+    legs: Leg[],
+    audit: AuditContext,
+    review?: { reviewedBy: number; reviewedAt: Date }
+  ): Promise<CommitOutcome> {
+    const swapped = await applyLegs(tx, legs, audit);
+
+    await tx.update(swapRequests)
+      .set({ status: 'accepted', ...review, updatedAt: new Date() })
+      .where(inArray(swapRequests.id, cycle.map(intent => intent.id)));
+
+    await tx.update(swapChains)
+      .set({ status: 'committed', committedAt: new Date(), updatedAt: new Date() })
+      .where(eq(swapChains.id, chain.id));
+
+    return {
+      transitions: await supersedeRequests(tx, swapped.map(shift => shift.id)),
+      swapped,
+      rejectedConflicts: null,
+      held: [],
+    };
+  }
+
+  private async describe(chain: SwapChain): Promise<SwapChainDetail> {
+    const participants = await db.select({
+      participant: swapChainParticipants,
+      shiftId: swapRequests.shiftId,
+    })
+      .from(swapChainParticipants)
+      .innerJoin(swapRequests, eq(swapChainParticipants.swapRequestId, swapRequests.id))
+      .where(eq(swapChainParticipants.chainId, chain.id))
+      .orderBy(swapChainParticipants.position);
+
+    const shiftIds = participants
+      .map(row => row.shiftId)
+      .filter((id): id is number => id != null);
+    const offered = shiftIds.length
+      ? await db.select().from(shifts).where(inArray(shifts.id, shiftIds))
+      : [];
+    const shiftById = new Map(offered.map(shift => [shift.id, shift]));
+
+    return {
+      ...chain,
+      participants: await Promise.all(participants.map(async ({ participant, shiftId }, index) => {
+        const next = participants[(index + 1) % participants.length];
+        return {
+          ...participant,
+          user: await userDirectory.summarize(participant.userId),
+          gives: shiftId != null ? shiftById.get(shiftId) ?? null : null,
+          receives: next.shiftId != null ? shiftById.get(next.shiftId) ?? null : null,
+        };
+      })),
+    };
+  }
+}
+
+/**
+ * Depth-first search from each intent, oldest first. Each intent and each
+ * offered shift joins at most one cycle, participants are distinct and share
+ * the first participant's provider type.
+ */
+function findCycles(intents: SwapRequest[], userTypes: Map<number, string>): SwapRequest[][] {
+  const byOfferedShift = new Map<number, SwapRequest[]>();
+  for (const intent of intents) {
+    if (intent.shiftId == null) continue;
+    byOfferedShift.set(intent.shiftId, [...byOfferedShift.get(intent.shiftId) ?? [], intent]);
+  }
+
+  const usedIntents = new Set<number>();
+  const usedShifts = new Set<number>();
+  const cycles: SwapRequest[][] = [];
+
+  const extend = (path: SwapRequest[]): SwapRequest[] | null => {
+    const [start] = path;
+    const last = path[path.length - 1];
+
+    for (const next of byOfferedShift.get(last.requestedShiftId!) ?? []) {
+      if (next.id === start.id) return path;
+      if (path.length >= MAX_CHAIN_LENGTH) continue;
+      if (usedIntents.has(next.id) || usedShifts.has(next.shiftId!)) continue;
+      if (userTypes.get(next.requestorId!) !== userTypes.get(start.requestorId!)) continue;
+      if (path.some(intent => intent.requestorId === next.requestorId || intent.shiftId === next.shiftId)) continue;
+
+      const found = extend([...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (const start of intents) {
+    if (usedIntents.has(start.id) || usedShifts.has(start.shiftId!)) continue;
+    if (!start.requestorId || !userTypes.has(start.requestorId)) continue;
+
+    const cycle = extend([start]);
+    if (cycle) {
+      cycle.forEach(intent => {
+        usedIntents.add(intent.id);
+        usedShifts.add(intent.shiftId!);
+      });
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Each participant takes the shift offered by the next one. Throws when an
+ * offered shift has changed hands since the intent was posted.
+ */
+function chainLegs(cycle: SwapRequest[], offered: Shift[]): Leg[] {
+  return cycle.map((intent, index) => {
+    const next = cycle[(index + 1) % cycle.length];
+    const shift = offered.find(s => s.id === next.shiftId);
+
+    if (!shift || shift.userId !== next.requestorId || shift.status === 'archived') {
+      throw new SwapRequestError("The shifts have changed hands since this chain was proposed", 409);
+    }
+
+    return { shift, toUserId: intent.requestorId! };
+  });
+}
+
+/**
+ * The approval rules that apply to any participant's exchange: what they give
+ * against what they receive. The highest-priority matching rule is kept.
+ */
+async function approvalRequirement(legs: Leg[]): Promise<ApprovalRequirement | null> {
+  let requirement: ApprovalRequirement | null = null;
+  const reasons = new Set<string>();
+
+  for (let index = 0; index < legs.length; index++) {
+    // Leg i is what participant i receives from the next one
+    const gives = legs[(index + legs.length - 1) % legs.length].shift;
+    const found = await swapApprovalPolicy.evaluate(gives, legs[index].shift);
+    if (!found) continue;
+
+    if (!requirement || found.rule.priority > requirement.rule.priority) {
+      requirement = found;
+    }
+    found.reasons.forEach(reason => reasons.add(reason));
+  }
+
+  return requirement && { rule: requirement.rule, reasons: Array.from(reasons) };
+}
+
+function toNotification(chain: SwapChainDetail) {
+  return chain.participants.map(participant => ({
+    userId: participant.userId,
+    name: participant.user.name,
+    response: participant.response,
+    gives: participant.gives,
+    receives: participant.receives,
+  }));
+}
+
+export const swapChainService = new SwapChainService();
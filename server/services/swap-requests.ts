@@ -0,0 +1,728 @@
+import { db } from "@db";
+import { eq, and, ne, lt, lte, gte, or, sql, inArray, isNotNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { format } from "date-fns";
+import {
+  shifts,
+  swapRequests,
+  timeOffRequests,
+  SwapRequestStatus,
+  type Conflict,
+  type Shift,
+  type SwapChain,
+  type SwapRequest
+} from "@db/schema";
+import { notify, type WebSocketInterface } from "../websocket";
+import {
+  conflictResolutionService,
+  type CandidateShift,
+  type ConflictDetectionResult
+} from "./conflict-resolution";
+import { shiftAuditService, type AuditContext } from "./shift-audit";
+import { userDirectory } from "./user-directory";
+import { swapChainService } from "./swap-chains";
+import { swapApprovalPolicy } from "./swap-approval";
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type SettledStatus = Exclude<SwapRequestStatus, 'pending'>;
+
+// Every settled state is terminal. awaiting_approval is still open: the
+// shifts stay pending_swap until an admin approves or rejects the swap.
+const TRANSITIONS: Record<SwapRequestStatus, readonly SwapRequestStatus[]> = {
+  pending: ['accepted', 'awaiting_approval', 'rejected', 'cancelled', 'expired'],
+  awaiting_approval: ['accepted', 'rejected', 'cancelled', 'expired'],
+  accepted: [],
+  rejected: [],
+  cancelled: [],
+  expired: [],
+};
+
+const OPEN_STATUSES: SwapRequestStatus[] = ['pending', 'awaiting_approval'];
+
+export function canTransition(from: SwapRequestStatus, to: SwapRequestStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Carries the HTTP status a route should answer with
+ */
+export class SwapRequestError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'SwapRequestError';
+  }
+}
+
+export interface NewSwapRequest {
+  requestorId: number;
+  recipientId: number;
+  // The requestor's shift on offer
+  shiftId: number;
+  // The recipient's shift wanted in return; omitted for a one-way giveaway
+  requestedShiftId?: number | null;
+  reason?: string | null;
+  expiresAt?: Date | null;
+}
+
+export interface SwapValidationOutcome {
+  // Set when conflictMode is 'reject' and the reassignment would conflict
+  rejectedConflicts: ConflictDetectionResult[] | null;
+}
+
+export interface SwapResponseOutcome extends SwapValidationOutcome {
+  request: SwapRequest;
+  conflicts: Conflict[];
+}
+
+export interface Transition {
+  request: SwapRequest;
+  status: SettledStatus;
+  // Shift rows changed by this transition
+  shifts: Shift[];
+  // Proposed chains broken up because this request left them
+  chains: SwapChain[];
+}
+
+// One side of an exchange: `shift` moves to `toUserId`
+export interface Leg {
+  shift: Shift;
+  toUserId: number;
+}
+
+type SwapParties = Pick<NewSwapRequest, 'requestorId' | 'recipientId'>;
+
+// Set on requests an admin approved or rejected
+type Review = { reviewedBy: number; reviewedAt: Date };
+
+type PendingOutcome = {
+  transitions: Transition[];
+  rejectedConflicts: ConflictDetectionResult[] | null;
+};
+
+export class SwapRequestService {
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  /**
+   * Opens a request and marks the shifts involved pending_swap
+   */
+  async create(
+    input: NewSwapRequest,
+    conflictMode: 'reject' | 'warn' = 'warn'
+  ): Promise<SwapValidationOutcome & { request: SwapRequest | null }> {
+    if (input.requestorId === input.recipientId) {
+      throw new SwapRequestError("Cannot swap a shift with yourself", 400);
+    }
+    if (input.requestedShiftId === input.shiftId) {
+      throw new SwapRequestError("The offered and requested shifts must differ", 400);
+    }
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new SwapRequestError("Expiry must be in the future", 400);
+    }
+
+    const [requestor, recipient] = await Promise.all([
+      userDirectory.getActive(input.requestorId),
+      userDirectory.getActive(input.recipientId),
+    ]);
+    if (!requestor || !recipient) {
+      throw new SwapRequestError("Both parties must exist and be active", 400);
+    }
+    if (requestor.userType !== recipient.userType) {
+      throw new SwapRequestError(
+        `Cannot swap shifts between different provider types (${requestor.userType} and ${recipient.userType})`,
+        400
+      );
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const [offered, requested] = await this.lockShifts(tx, input.shiftId, input.requestedShiftId);
+      this.assertOwnership(input, offered, requested);
+
+      const legs = legsFor(input, offered, requested);
+      await assertNoTimeOff(tx, legs);
+
+      if (conflictMode === 'reject') {
+        const detected = await evaluateLegs(legs);
+        if (detected.length) {
+          return { request: null, shifts: [], rejectedConflicts: detected };
+        }
+      }
+
+      const [duplicate] = await tx.select({ id: swapRequests.id })
+        .from(swapRequests)
+        .where(and(
+          eq(swapRequests.shiftId, offered.id),
+          eq(swapRequests.recipientId, input.recipientId),
+          eq(swapRequests.kind, 'direct'),
+          inArray(swapRequests.status, OPEN_STATUSES)
+        ));
+
+      if (duplicate) {
+        throw new SwapRequestError("A pending request for this shift and recipient already exists", 409);
+      }
+
+      const [request] = await tx.insert(swapRequests)
+        .values({
+          requestorId: input.requestorId,
+          recipientId: input.recipientId,
+          shiftId: offered.id,
+          requestedShiftId: requested?.id ?? null,
+          status: 'pending',
+          reason: input.reason ?? null,
+          expiresAt: input.expiresAt ?? null,
+        })
+        .returning();
+
+      const pendingShifts = await tx.update(shifts)
+        .set({
+          status: 'pending_swap',
+          sequence: sql`${shifts.sequence} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          inArray(shifts.id, legs.map(leg => leg.shift.id)),
+          ne(shifts.status, 'pending_swap')
+        ))
+        .returning();
+
+      return { request, shifts: pendingShifts, rejectedConflicts: null };
+    });
+
+    if (!outcome.request) {
+      return { request: null, rejectedConflicts: outcome.rejectedConflicts };
+    }
+
+    const [offered, requested] = await this.currentShifts(outcome.request);
+    if (offered) {
+      this.ws?.sendToUser(
+        [requestor.id, recipient.id],
+        notify.shiftSwapRequested(offered, requestor, recipient, outcome.request.id, requested),
+        'scheduler'
+      );
+    }
+    outcome.shifts.forEach(shift => this.ws?.sendShiftChange('updated', shift));
+
+    return { request: outcome.request, rejectedConflicts: null };
+  }
+
+  /**
+   * Recipient's answer. Accepting applies every reassignment in one
+   * transaction and cancels other open requests for the same shifts, since
+   * they no longer belong to the people who offered them. When a
+   * require_approval rule matches, the request waits for an admin instead
+   * and nothing is reassigned yet.
+   */
+  async respond(
+    requestId: number,
+    status: 'accepted' | 'rejected',
+    conflictMode: 'reject' | 'warn',
+    audit: AuditContext
+  ): Promise<SwapResponseOutcome> {
+    const outcome = await db.transaction(async (tx): Promise<PendingOutcome> => {
+      const request = await this.lockOpen(tx, requestId, status, 'pending');
+
+      if (request.kind === 'intent') {
+        throw new SwapRequestError("Swap intents are settled through their swap chain", 409);
+      }
+      if (request.kind === 'open') {
+        throw new SwapRequestError("Open shifts are taken by claiming them", 409);
+      }
+      if (request.expiresAt && request.expiresAt <= new Date()) {
+        throw new SwapRequestError("Swap request has expired", 409);
+      }
+
+      if (status === 'rejected') {
+        return { transitions: [await this.settle(tx, request, 'rejected')], rejectedConflicts: null };
+      }
+
+      const prepared = await this.prepareLegs(tx, request, conflictMode);
+      if (prepared.rejectedConflicts) {
+        return { transitions: [], rejectedConflicts: prepared.rejectedConflicts };
+      }
+
+      const requirement = await swapApprovalPolicy.evaluate(prepared.offered, prepared.requested);
+      if (requirement) {
+        const [held] = await tx.update(swapRequests)
+          .set({
+            status: 'awaiting_approval',
+            approvalRuleId: requirement.rule.id,
+            approvalReasons: requirement.reasons,
+            updatedAt: new Date(),
+          })
+          .where(eq(swapRequests.id, request.id))
+          .returning();
+
+        return {
+          transitions: [{ request: held, status: 'awaiting_approval', shifts: [], chains: [] }],
+          rejectedConflicts: null,
+        };
+      }
+
+      return { transitions: await this.complete(tx, request, prepared.legs, audit), rejectedConflicts: null };
+    });
+
+    return this.conclude(requestId, outcome);
+  }
+
+  /**
+   * An admin's sign-off on a swap held for approval. Approving repeats the
+   * ownership, time-off and conflict checks, since the schedule may have
+   * changed while the swap waited. An intent stands for its whole chain.
+   */
+  async review(
+    requestId: number,
+    reviewerId: number,
+    decision: 'accepted' | 'rejected',
+    conflictMode: 'reject' | 'warn',
+    audit: AuditContext
+  ): Promise<SwapResponseOutcome> {
+    const [target] = await db.select({ kind: swapRequests.kind, chainId: swapRequests.chainId })
+      .from(swapRequests)
+      .where(eq(swapRequests.id, requestId));
+    if (target?.kind === 'intent' && target.chainId) {
+      return swapChainService.review(target.chainId, requestId, reviewerId, decision, conflictMode, audit);
+    }
+
+    const outcome = await db.transaction(async (tx): Promise<PendingOutcome> => {
+      const request = await this.lockOpen(tx, requestId, decision, 'awaiting_approval');
+      const review = { reviewedBy: reviewerId, reviewedAt: new Date() };
+
+      if (decision === 'rejected') {
+        return { transitions: [await this.settle(tx, request, 'rejected', review)], rejectedConflicts: null };
+      }
+
+      const prepared = await this.prepareLegs(tx, request, conflictMode);
+      if (prepared.rejectedConflicts) {
+        return { transitions: [], rejectedConflicts: prepared.rejectedConflicts };
+      }
+
+      return { transitions: await this.complete(tx, request, prepared.legs, audit, review), rejectedConflicts: null };
+    });
+
+    return this.conclude(requestId, outcome);
+  }
+
+  /**
+   * Requestor withdraws an open request
+   */
+  async cancel(requestId: number): Promise<SwapRequest> {
+    const transition = await db.transaction(async (tx) => {
+      const request = await this.lockOpen(tx, requestId, 'cancelled');
+      return this.settle(tx, request, 'cancelled');
+    });
+
+    await this.announce([transition]);
+    return transition.request;
+  }
+
+  /**
+   * Expires pending requests whose deadline has passed, and open requests
+   * (including those awaiting approval) where either shift has already
+   * started. Returns the number of requests expired.
+   */
+  async expireOverdue(now = new Date()): Promise<number> {
+    const today = format(now, 'yyyy-MM-dd');
+    const requestedShifts = alias(shifts, 'requested_shifts');
+
+    const overdue = await db.select({ id: swapRequests.id })
+      .from(swapRequests)
+      .leftJoin(shifts, eq(swapRequests.shiftId, shifts.id))
+      .leftJoin(requestedShifts, eq(swapRequests.requestedShiftId, requestedShifts.id))
+      .where(and(
+        inArray(swapRequests.status, OPEN_STATUSES),
+        or(
+          // The deadline is for the recipient's answer, not the admin's
+          and(
+            eq(swapRequests.status, 'pending'),
+            isNotNull(swapRequests.expiresAt),
+            lte(swapRequests.expiresAt, now)
+          ),
+          lte(shifts.startDate, today),
+          lte(requestedShifts.startDate, today)
+        )
+      ));
+
+    const transitions: Transition[] = [];
+    for (const { id } of overdue) {
+      try {
+        transitions.push(await db.transaction(async (tx) => {
+          const request = await this.lockOpen(tx, id, 'expired');
+          return this.settle(tx, request, 'expired');
+        }));
+      } catch (error) {
+        // Settled by someone else between the scan and the lock
+        if (!(error instanceof SwapRequestError)) throw error;
+      }
+    }
+
+    await this.announce(transitions);
+    return transitions.length;
+  }
+
+  /**
+   * Locks an open request, optionally requiring it to be in `from`
+   */
+  private async lockOpen(
+    tx: Transaction,
+    requestId: number,
+    to: SwapRequestStatus,
+    from?: SwapRequestStatus
+  ): Promise<SwapRequest> {
+    const [request] = await tx.select()
+      .from(swapRequests)
+      .where(eq(swapRequests.id, requestId))
+      .for('update');
+
+    if (!request) {
+      throw new SwapRequestError("Swap request not found", 404);
+    }
+    if (from === 'awaiting_approval' && request.status === 'pending') {
+      throw new SwapRequestError("Swap request is not awaiting approval", 409);
+    }
+    if ((from && request.status !== from) || !canTransition(request.status, to)) {
+      throw new SwapRequestError(`Swap request is already ${request.status.replace('_', ' ')}`, 409);
+    }
+
+    return request;
+  }
+
+  /**
+   * Locks the request's shifts and checks its legs can still be applied.
+   * rejectedConflicts is set when conflictMode is 'reject' and they would conflict.
+   */
+  private async prepareLegs(tx: Transaction, request: SwapRequest, conflictMode: 'reject' | 'warn') {
+    if (!request.shiftId || !request.requestorId || !request.recipientId) {
+      throw new SwapRequestError("Swap request is incomplete", 409);
+    }
+
+    const parties = { requestorId: request.requestorId, recipientId: request.recipientId };
+    const [offered, requested] = await this.lockShifts(tx, request.shiftId, request.requestedShiftId);
+    this.assertOwnership(parties, offered, requested, "The shifts have changed hands since this request was made");
+
+    const legs = legsFor(parties, offered, requested);
+    await assertNoTimeOff(tx, legs);
+
+    const rejectedConflicts = conflictMode === 'reject' ? await evaluateLegs(legs) : [];
+    return {
+      offered,
+      requested,
+      legs,
+      rejectedConflicts: rejectedConflicts.length ? rejectedConflicts : null,
+    };
+  }
+
+  /**
+   * Reassigns the shifts, accepts the request and supersedes other requests
+   * for the same shifts
+   */
+  private async complete(
+    tx: Transaction,
+    request: SwapRequest,
+    legs: Leg[],
+    audit: AuditContext,
+    review?: Review
+  ): Promise<Transition[]> {
+    const swappedShifts = await applyLegs(tx, legs, audit);
+
+    const [accepted] = await tx.update(swapRequests)
+      .set({ status: 'accepted', ...review, updatedAt: new Date() })
+      .where(eq(swapRequests.id, request.id))
+      .returning();
+
+    return [
+      { request: accepted, status: 'accepted', shifts: swappedShifts, chains: [] },
+      ...await supersedeRequests(tx, swappedShifts.map(shift => shift.id)),
+    ];
+  }
+
+  /**
+   * Announces a respond or review transaction and records conflicts left by
+   * an accepted swap
+   */
+  private async conclude(requestId: number, outcome: PendingOutcome): Promise<SwapResponseOutcome> {
+    if (outcome.rejectedConflicts) {
+      const [request] = await db.select().from(swapRequests).where(eq(swapRequests.id, requestId));
+      return { request, rejectedConflicts: outcome.rejectedConflicts, conflicts: [] };
+    }
+
+    await this.announce(outcome.transitions);
+
+    const [primary] = outcome.transitions;
+    const conflicts: Conflict[] = [];
+    if (primary.status === 'accepted') {
+      for (const shift of primary.shifts) {
+        conflicts.push(...await conflictResolutionService.recordConflicts(shift.id));
+      }
+    }
+
+    return { request: primary.request, rejectedConflicts: null, conflicts };
+  }
+
+  /**
+   * Locks the offered and requested shifts in id order, so two opposite
+   * exchanges cannot deadlock
+   */
+  private async lockShifts(
+    tx: Transaction,
+    offeredId: number,
+    requestedId?: number | null
+  ): Promise<[Shift, Shift | null]> {
+    const ids = requestedId ? [offeredId, requestedId] : [offeredId];
+    const rows = await tx.select()
+      .from(shifts)
+      .where(inArray(shifts.id, ids))
+      .orderBy(shifts.id)
+      .for('update');
+
+    const offered = rows.find(shift => shift.id === offeredId);
+    const requested = requestedId ? rows.find(shift => shift.id === requestedId) : null;
+
+    if (!offered || requested === undefined) {
+      throw new SwapRequestError("Shift not found", 404);
+    }
+
+    return [offered, requested];
+  }
+
+  private assertOwnership(parties: SwapParties, offered: Shift, requested: Shift | null, message?: string) {
+    if (offered.userId !== parties.requestorId) {
+      throw new SwapRequestError(message ?? "Only the shift's owner can offer it for a swap", 409);
+    }
+    if (requested && requested.userId !== parties.recipientId) {
+      throw new SwapRequestError(message ?? "The requested shift must belong to the recipient", 409);
+    }
+    if (offered.status === 'archived' || requested?.status === 'archived') {
+      throw new SwapRequestError("Archived shifts cannot be swapped", 409);
+    }
+    if (offered.status === 'draft' || requested?.status === 'draft') {
+      throw new SwapRequestError("Draft shifts cannot be swapped until their schedule is published", 409);
+    }
+  }
+
+  /**
+   * Closes a request without any reassignment and releases its shifts
+   */
+  private async settle(
+    tx: Transaction,
+    request: SwapRequest,
+    status: SettledStatus,
+    review?: Review
+  ): Promise<Transition> {
+    const [settled] = await tx.update(swapRequests)
+      .set({ status, ...review, updatedAt: new Date() })
+      .where(eq(swapRequests.id, request.id))
+      .returning();
+
+    return {
+      request: settled,
+      status,
+      shifts: await releaseShifts(tx, shiftIdsOf(request)),
+      chains: await swapChainService.dissolve(tx, settled),
+    };
+  }
+
+  private async currentShifts(request: SwapRequest): Promise<[Shift | undefined, Shift | undefined]> {
+    const rows = await db.select()
+      .from(shifts)
+      .where(inArray(shifts.id, shiftIdsOf(request)));
+
+    return [
+      rows.find(shift => shift.id === request.shiftId),
+      rows.find(shift => shift.id === request.requestedShiftId),
+    ];
+  }
+
+  /**
+   * Broadcasts settled requests and the shifts they touched, then lets the
+   * chain service re-match intents freed from broken chains
+   */
+  async announce(transitions: Transition[]) {
+    const dissolved = transitions.flatMap(transition => transition.chains);
+    if (dissolved.length) {
+      await swapChainService.afterDissolve(dissolved);
+    }
+
+    if (!this.ws) return;
+
+    const changedShifts = new Map<number, Shift>();
+    for (const { request, status, shifts: changed } of transitions) {
+      const [requestor, recipient] = await Promise.all([
+        userDirectory.get(request.requestorId),
+        userDirectory.get(request.recipientId),
+      ]);
+      const [offered, requested] = await this.currentShifts(request);
+
+      if (request.kind === 'open') {
+        this.ws.broadcast(notify.openShiftClosed(request.id, status, recipient ?? null));
+      } else if (offered && requestor && recipient) {
+        this.ws.sendToUser(
+          [requestor.id, recipient.id],
+          notify.shiftSwapResponded(offered, requestor, recipient, status, requested),
+          'scheduler'
+        );
+      }
+      if (status === 'awaiting_approval' && offered && requestor && recipient) {
+        this.ws.sendToRole('admin', notify.swapApprovalRequested(
+          request.id, offered, requestor, recipient, request.approvalReasons ?? [], requested
+        ));
+      }
+      changed.forEach(shift => changedShifts.set(shift.id, shift));
+    }
+
+    changedShifts.forEach(shift => this.ws?.sendShiftChange('updated', shift));
+  }
+}
+
+/**
+ * Approved time off always blocks taking a shift, whatever the conflict
+ * mode. Time-off end dates are inclusive, shift end dates exclusive.
+ */
+export async function assertNoTimeOff(tx: Transaction, legs: Leg[]) {
+  for (const { shift, toUserId } of legs) {
+    const [clash] = await tx.select({ id: timeOffRequests.id })
+      .from(timeOffRequests)
+      .where(and(
+        eq(timeOffRequests.userId, toUserId),
+        eq(timeOffRequests.status, 'approved'),
+        lt(timeOffRequests.startDate, shift.endDate),
+        gte(timeOffRequests.endDate, shift.startDate)
+      ))
+      .limit(1);
+
+    if (clash) {
+      const user = await userDirectory.summarize(toUserId);
+      throw new SwapRequestError(
+        `${user.name} has approved time off during the shift starting ${shift.startDate}`,
+        409
+      );
+    }
+  }
+}
+
+/**
+ * Checks every leg as if all of them had already been applied
+ */
+export async function evaluateLegs(legs: Leg[]): Promise<ConflictDetectionResult[]> {
+  const candidates: CandidateShift[] = legs.map(({ shift, toUserId }) => ({
+    id: shift.id,
+    userId: toUserId,
+    startDate: shift.startDate,
+    endDate: shift.endDate,
+  }));
+
+  const detected: ConflictDetectionResult[] = [];
+  for (const candidate of candidates) {
+    detected.push(...await conflictResolutionService.evaluateShift(candidate, candidates));
+  }
+  return detected;
+}
+
+/**
+ * Moves every leg's shift to its new owner and records the swap in the
+ * shift audit log
+ */
+export async function applyLegs(tx: Transaction, legs: Leg[], audit: AuditContext): Promise<Shift[]> {
+  const swapped: Shift[] = [];
+  for (const leg of legs) {
+    const [shift] = await tx.update(shifts)
+      .set({
+        userId: leg.toUserId,
+        status: 'swapped',
+        sequence: sql`${shifts.sequence} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(shifts.id, leg.shift.id))
+      .returning();
+    swapped.push(shift);
+  }
+
+  await shiftAuditService.record(tx, audit, legs.map((leg, index) => ({
+    action: 'swap' as const,
+    before: leg.shift,
+    after: swapped[index],
+  })));
+  return swapped;
+}
+
+/**
+ * Cancels open requests of any kind, including ones awaiting approval, that
+ * mention shifts which just changed hands
+ */
+export async function supersedeRequests(tx: Transaction, shiftIds: number[]): Promise<Transition[]> {
+  if (!shiftIds.length) return [];
+
+  const superseded = await tx.update(swapRequests)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(
+      inArray(swapRequests.status, OPEN_STATUSES),
+      or(
+        inArray(swapRequests.shiftId, shiftIds),
+        inArray(swapRequests.requestedShiftId, shiftIds)
+      )
+    ))
+    .returning();
+
+  const transitions: Transition[] = [];
+  for (const request of superseded) {
+    transitions.push({
+      request,
+      status: 'cancelled',
+      shifts: await releaseShifts(tx, shiftIdsOf(request)),
+      chains: await swapChainService.dissolve(tx, request),
+    });
+  }
+  return transitions;
+}
+
+/**
+ * Returns pending_swap shifts to confirmed once no open request mentions them
+ */
+export async function releaseShifts(tx: Transaction, shiftIds: number[]): Promise<Shift[]> {
+  const released: Shift[] = [];
+
+  for (const shiftId of shiftIds) {
+    const [stillOpen] = await tx.select({ id: swapRequests.id })
+      .from(swapRequests)
+      .where(and(
+        inArray(swapRequests.status, OPEN_STATUSES),
+        or(
+          eq(swapRequests.shiftId, shiftId),
+          // Intents only hold the shift they offer, not the one they want
+          and(eq(swapRequests.kind, 'direct'), eq(swapRequests.requestedShiftId, shiftId))
+        )
+      ))
+      .limit(1);
+
+    if (stillOpen) continue;
+
+    const [shift] = await tx.update(shifts)
+      .set({
+        status: 'confirmed',
+        sequence: sql`${shifts.sequence} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(shifts.id, shiftId), eq(shifts.status, 'pending_swap')))
+      .returning();
+
+    if (shift) released.push(shift);
+  }
+
+  return released;
+}
+
+function legsFor(parties: SwapParties, offered: Shift, requested: Shift | null): Leg[] {
+  const legs: Leg[] = [{ shift: offered, toUserId: parties.recipientId }];
+  if (requested) {
+    legs.push({ shift: requested, toUserId: parties.requestorId });
+  }
+  return legs;
+}
+
+function shiftIdsOf(request: SwapRequest): number[] {
+  return [request.shiftId, request.requestedShiftId].filter((id): id is number => id != null);
+}
+
+export const swapRequestService = new SwapRequestService();
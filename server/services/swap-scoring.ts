@@ -0,0 +1,328 @@
+import { db } from "@db";
+import { and, eq, gte, inArray, lt, lte, ne, or } from "drizzle-orm";
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfYear,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfYear,
+  subDays
+} from "date-fns";
+import {
+  shifts,
+  swapRequests,
+  timeOffRequests,
+  userPreferences,
+  type Shift
+} from "@db/schema";
+import {
+  daysWithin,
+  findRuns,
+  shiftLength,
+  shiftsOverlap,
+  weeksCovered,
+  type ShiftDates
+} from "./shift-dates";
+import { userDirectory, type DirectoryUser } from "./user-directory";
+
+// Defaults; callers may pass their own weights, which are normalised to sum to 1
+export const FACTOR_WEIGHTS = {
+  userTypeMatch: 0.25,
+  workloadBalance: 0.20,
+  scheduleCompatibility: 0.15,
+  policyCompliance: 0.15,
+  timeOffConflicts: 0.10,
+  historicalPatterns: 0.05,
+  preferenceMatch: 0.10,
+} as const;
+export type SwapFactor = keyof typeof FACTOR_WEIGHTS;
+export type FactorWeights = Record<SwapFactor, number>;
+
+export const SWAP_FACTORS = Object.keys(FACTOR_WEIGHTS) as SwapFactor[];
+
+// A zero on any of these rules a candidate out, whatever the total score
+export const REQUIRED_FACTORS: readonly SwapFactor[] = [
+  'userTypeMatch',
+  'scheduleCompatibility',
+  'policyCompliance',
+  'timeOffConflicts',
+];
+
+// Swap requests in this window count towards historicalPatterns
+const SWAP_HISTORY_DAYS = 90;
+// Own shifts starting this close make the spacing merely acceptable
+const NEARBY_SHIFT_DAYS = 7;
+
+export interface FactorScore {
+  value: number; // 0-1
+  weight: number;
+  points: number; // value * weight * 100, the factor's share of the score
+}
+
+export interface CandidateScore {
+  userId: number;
+  name: string;
+  userType: string;
+  score: number; // 0-100
+  factors: Record<SwapFactor, FactorScore>;
+  reasons: string[];
+  warnings: string[];
+  // Warnings from required factors; empty when eligible
+  blockers: string[];
+  eligible: boolean;
+}
+
+type ScheduledShift = ShiftDates & { id: number; userId: number };
+
+export class SwapScoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SwapScoringError';
+  }
+}
+
+/**
+ * Fills missing factors from the defaults and scales the result to sum to 1.
+ * Throws for unknown factors, negative or non-numeric weights, or all zeros.
+ */
+export function resolveWeights(overrides: Partial<Record<string, unknown>> = {}): FactorWeights {
+  const weights = { ...FACTOR_WEIGHTS } as FactorWeights;
+
+  for (const [factor, raw] of Object.entries(overrides)) {
+    if (!SWAP_FACTORS.includes(factor as SwapFactor)) {
+      throw new SwapScoringError(`Unknown factor '${factor}'. Expected one of: ${SWAP_FACTORS.join(', ')}`);
+    }
+    const weight = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new SwapScoringError(`Weight for '${factor}' must be a non-negative number`);
+    }
+    weights[factor as SwapFactor] = weight;
+  }
+
+  const total = SWAP_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+  if (total === 0) {
+    throw new SwapScoringError("At least one factor must have a positive weight");
+  }
+
+  SWAP_FACTORS.forEach(factor => { weights[factor] = weights[factor] / total; });
+  return weights;
+}
+
+export class SwapScoringService {
+  /**
+   * Scores every active colleague of the shift owner's type, best first
+   */
+  async rankCandidates(shift: Shift, weights: FactorWeights = FACTOR_WEIGHTS): Promise<CandidateScore[]> {
+    const owner = await userDirectory.get(shift.userId);
+    const candidates = (await userDirectory.list({ active: true }))
+      .filter(user => user.id !== shift.userId && (!owner || user.userType === owner.userType));
+
+    const scores = await this.score(shift, owner, candidates, weights);
+    return scores.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Scores one user for taking the shift; undefined for unknown or inactive users
+   */
+  async scoreCandidate(
+    shift: Shift,
+    userId: number,
+    weights: FactorWeights = FACTOR_WEIGHTS
+  ): Promise<CandidateScore | undefined> {
+    const [owner, candidate] = await Promise.all([
+      userDirectory.get(shift.userId),
+      userDirectory.getActive(userId),
+    ]);
+    if (!candidate) return undefined;
+
+    const [score] = await this.score(shift, owner, [candidate], weights);
+    return score;
+  }
+
+  private async score(
+    shift: Shift,
+    owner: DirectoryUser | undefined,
+    candidates: DirectoryUser[],
+    weights: FactorWeights
+  ): Promise<CandidateScore[]> {
+    if (!candidates.length) return [];
+
+    const candidateIds = candidates.map(user => user.id);
+    const shiftStart = parseISO(shift.startDate);
+    const yearStart = startOfYear(shiftStart);
+    const yearEnd = addDays(endOfYear(shiftStart), 1);
+
+    // Wide enough to cover the shift's year and any streak running into it
+    const margin = (Math.max(...candidates.map(user => user.maxConsecutiveWeeks)) + 1) * 7;
+    const windowStart = format(min([yearStart, addDays(shiftStart, -margin)]), 'yyyy-MM-dd');
+    const windowEnd = format(max([yearEnd, addDays(parseISO(shift.endDate), margin)]), 'yyyy-MM-dd');
+
+    const [scheduled, timeOff, recentSwaps, preferences] = await Promise.all([
+      db.select({
+        id: shifts.id,
+        userId: shifts.userId,
+        startDate: shifts.startDate,
+        endDate: shifts.endDate,
+      })
+        .from(shifts)
+        .where(and(
+          inArray(shifts.userId, candidateIds),
+          ne(shifts.id, shift.id),
+          ne(shifts.status, 'archived'),
+          gte(shifts.endDate, windowStart),
+          lte(shifts.startDate, windowEnd)
+        )),
+      // Time-off end dates are inclusive, shift end dates exclusive
+      db.select({ userId: timeOffRequests.userId })
+        .from(timeOffRequests)
+        .where(and(
+          inArray(timeOffRequests.userId, candidateIds),
+          eq(timeOffRequests.status, 'approved'),
+          lt(timeOffRequests.startDate, shift.endDate),
+          gte(timeOffRequests.endDate, shift.startDate)
+        )),
+      db.select({ requestorId: swapRequests.requestorId, recipientId: swapRequests.recipientId })
+        .from(swapRequests)
+        .where(and(
+          gte(swapRequests.createdAt, subDays(new Date(), SWAP_HISTORY_DAYS)),
+          or(
+            inArray(swapRequests.requestorId, candidateIds),
+            inArray(swapRequests.recipientId, candidateIds)
+          )
+        )),
+      db.select().from(userPreferences).where(inArray(userPreferences.userId, candidateIds)),
+    ]);
+
+    const ownShifts = scheduled.map(row => ({ ...row, userId: row.userId! }));
+    const shiftDays = daysWithin(shift, yearStart, yearEnd);
+    const shiftWeek = weeksCovered(shift)[0];
+    const weekday = shiftStart.getDay();
+
+    return candidates.map(candidate => {
+      const factors: Record<SwapFactor, number> = {
+        userTypeMatch: 0,
+        workloadBalance: 0,
+        scheduleCompatibility: 0,
+        policyCompliance: 0,
+        timeOffConflicts: 0,
+        historicalPatterns: 0,
+        preferenceMatch: 0,
+      };
+      const reasons: string[] = [];
+      const warnings: string[] = [];
+      const blockers: string[] = [];
+      const block = (message: string) => {
+        warnings.push(message);
+        blockers.push(message);
+      };
+
+      const userShifts: ScheduledShift[] = ownShifts.filter(s => s.userId === candidate.id);
+
+      if (!owner || owner.userType === candidate.userType) {
+        factors.userTypeMatch = 1;
+        reasons.push(`Same ${candidate.userType} type`);
+      } else {
+        block(`Different provider type (${owner.userType} and ${candidate.userType})`);
+      }
+
+      // Yearly workload against the target
+      const yearDays = userShifts.reduce((sum, s) => sum + daysWithin(s, yearStart, yearEnd), 0);
+      const currentGap = Math.abs(yearDays - candidate.targetDays);
+      const potentialGap = Math.abs(yearDays + shiftDays - candidate.targetDays);
+      if (potentialGap < currentGap) {
+        factors.workloadBalance = 1;
+        reasons.push(`Improves ${candidate.userType} workload balance`);
+      } else if (potentialGap <= (candidate.tolerance || 7)) {
+        factors.workloadBalance = 0.5;
+        reasons.push(`Within acceptable ${candidate.userType} workload range`);
+      } else {
+        warnings.push("Moves further from target workload");
+      }
+
+      if (userShifts.some(s => shiftsOverlap(s, shift))) {
+        block("Already scheduled during this shift");
+      } else {
+        const nearby = userShifts.filter(s =>
+          Math.abs(differenceInCalendarDays(parseISO(s.startDate), shiftStart)) <= NEARBY_SHIFT_DAYS
+        ).length;
+        factors.scheduleCompatibility = nearby === 0 ? 1 : 0.7;
+        reasons.push(nearby === 0 ? "Optimal schedule spacing" : "Acceptable schedule spacing");
+      }
+
+      // Consecutive scheduling weeks including this shift
+      const streak = findRuns([...userShifts.flatMap(weeksCovered), ...weeksCovered(shift)])
+        .find(run => run.first <= shiftWeek && shiftWeek <= run.last);
+      const streakWeeks = streak ? streak.last - streak.first + 1 : 1;
+      if (streakWeeks > candidate.maxConsecutiveWeeks) {
+        block("Exceeds maximum consecutive weeks");
+      } else if (streakWeeks === candidate.maxConsecutiveWeeks) {
+        factors.policyCompliance = 0.3;
+        warnings.push("Close to consecutive weeks limit");
+      } else {
+        factors.policyCompliance = 1;
+        reasons.push("Complies with all policies");
+      }
+
+      if (timeOff.some(request => request.userId === candidate.id)) {
+        block("Conflicts with approved time off");
+      } else {
+        factors.timeOffConflicts = 1;
+        reasons.push("No time-off conflicts");
+      }
+
+      const swapCount = recentSwaps.filter(swap =>
+        swap.requestorId === candidate.id || swap.recipientId === candidate.id
+      ).length;
+      factors.historicalPatterns = Math.max(0, 1 - swapCount * 0.2);
+      if (factors.historicalPatterns > 0.8) {
+        reasons.push("Good swap history");
+      } else if (swapCount > 3) {
+        warnings.push("High recent swap activity");
+      }
+
+      const prefs = preferences.find(p => p.userId === candidate.id);
+      if (prefs) {
+        if (shiftLength(shift) <= prefs.preferredShiftLength) {
+          factors.preferenceMatch += 0.3;
+          reasons.push("Preferred shift length");
+        }
+        if (prefs.preferredDaysOfWeek.includes(weekday)) {
+          factors.preferenceMatch += 0.4;
+          reasons.push("Preferred day of week");
+        }
+        if (prefs.avoidedDaysOfWeek.includes(weekday)) {
+          warnings.push("Usually avoids this day");
+        } else {
+          factors.preferenceMatch += 0.3;
+        }
+      }
+
+      const breakdown = Object.fromEntries(SWAP_FACTORS.map(factor => [factor, {
+        value: factors[factor],
+        weight: weights[factor],
+        points: round(factors[factor] * weights[factor] * 100),
+      }])) as Record<SwapFactor, FactorScore>;
+
+      return {
+        userId: candidate.id,
+        name: candidate.name,
+        userType: candidate.userType,
+        score: Math.round(SWAP_FACTORS.reduce((sum, factor) => sum + breakdown[factor].points, 0)),
+        factors: breakdown,
+        reasons,
+        warnings,
+        blockers,
+        eligible: REQUIRED_FACTORS.every(factor => factors[factor] > 0),
+      };
+    });
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const swapScoringService = new SwapScoringService();
@@ -0,0 +1,112 @@
+import { db } from "@db";
+import { asc, getTableColumns } from "drizzle-orm";
+import { users, type User, type UserType } from "@db/schema";
+import { notify, type WebSocketInterface } from "../websocket";
+
+export type DirectoryUser = Omit<User, 'password' | 'calendarToken'>;
+
+export interface UserSummary {
+  id: number | null;
+  name: string;
+  title: string;
+}
+
+// Providers who cover the unit side by side: one of each group is on at a
+// time, and shifts within a group may not overlap
+export type CoverageGroup = 'physician' | 'app_day' | 'app_night';
+export const COVERAGE_GROUPS: readonly CoverageGroup[] = ['physician', 'app_day', 'app_night'];
+
+export function coverageGroup(user: Pick<User, 'userType' | 'shiftType'>): CoverageGroup {
+  if ((user.userType as UserType) === 'physician') return 'physician';
+  return user.shiftType === 'night' ? 'app_night' : 'app_day';
+}
+
+// Safety net for writes that bypass the directory (seed scripts, db:push)
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const { password, calendarToken, ...directoryColumns } = getTableColumns(users);
+
+/**
+ * Cached view of the users table without passwords or calendar tokens. Every
+ * route that needs to resolve a user goes through here; routes that change
+ * users call `invalidate`, which also tells connected clients to refetch.
+ */
+export class UserDirectory {
+  private cache: Map<number, DirectoryUser> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Map<number, DirectoryUser>> | null = null;
+  // Bumped on invalidation so a load that was in flight is not cached
+  private generation = 0;
+  private ws: WebSocketInterface | null = null;
+
+  registerWebSocket(ws: WebSocketInterface) {
+    this.ws = ws;
+  }
+
+  async list(options: { active?: boolean } = {}): Promise<DirectoryUser[]> {
+    const all = Array.from((await this.load()).values());
+    return options.active === undefined
+      ? all
+      : all.filter(user => user.isActive === options.active);
+  }
+
+  async get(id: number | null | undefined): Promise<DirectoryUser | undefined> {
+    if (id == null || isNaN(id)) return undefined;
+    return (await this.load()).get(id);
+  }
+
+  /**
+   * Like `get`, but only returns users who can still be scheduled
+   */
+  async getActive(id: number | null | undefined): Promise<DirectoryUser | undefined> {
+    const user = await this.get(id);
+    return user?.isActive ? user : undefined;
+  }
+
+  /**
+   * Name and title for embedding in other resources, with a placeholder for
+   * ids that no longer resolve
+   */
+  async summarize(id: number | null | undefined): Promise<UserSummary> {
+    const user = await this.get(id);
+    return user
+      ? { id: user.id, name: user.name, title: user.title }
+      : { id: id ?? null, name: 'Unknown user', title: 'Unknown' };
+  }
+
+  invalidate(userId?: number) {
+    this.cache = null;
+    this.loading = null;
+    this.generation++;
+    this.ws?.broadcast(notify.usersChanged(userId));
+  }
+
+  private async load(): Promise<Map<number, DirectoryUser>> {
+    if (this.cache && Date.now() - this.loadedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    if (!this.loading) {
+      const generation = this.generation;
+      const loading = db.select(directoryColumns)
+        .from(users)
+        .orderBy(asc(users.id))
+        .then(rows => {
+          const byId = new Map(rows.map(user => [user.id, user]));
+          if (generation === this.generation) {
+            this.cache = byId;
+            this.loadedAt = Date.now();
+          }
+          return byId;
+        })
+        .finally(() => {
+          if (this.loading === loading) this.loading = null;
+        });
+      this.loading = loading;
+    }
+
+    return this.loading;
+  }
+}
+
+export const userDirectory = new UserDirectory();
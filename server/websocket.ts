@@ -1,6 +1,19 @@
 import type { Server } from "http";
+import { randomUUID } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
 import { WebSocketServer, WebSocket } from "ws";
+import { eq } from "drizzle-orm";
+import { db } from "@db";
 import { log } from "./vite";
+import { hasRole } from "./auth";
+import { InProcessPubSub, type PubSubTransport } from "./pubsub";
+import { userDirectory } from "./services/user-directory";
+import {
+  roomMembers,
+  type SwapChainStatus,
+  type SwapRequestStatus,
+  type UserRole
+} from "@db/schema";
 
 // Type definitions for notifications
 interface NotificationUser {
@@ -15,31 +28,119 @@ interface NotificationShift {
   startDate: string;
   endDate: string;
   status: string;
+  userId: number | null;
+}
+
+interface NotificationPeriod {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+type ShiftChangeAction = 'created' | 'updated' | 'deleted';
+
+interface NotificationChainParticipant {
+  userId: number;
+  name: string;
+  response: string;
+  gives: NotificationShift | null;
+  receives: NotificationShift | null;
+}
+
+interface NotificationTimeOffRequest {
+  id: number;
   userId: number;
+  startDate: string;
+  endDate: string;
+  status: string;
+  reason?: string | null;
 }
 
-interface NotificationMessage {
+export interface NotificationMessage {
   type: 'shift_created' | 'shift_updated' | 'shift_deleted' | 'shift_swap_requested' | 
         'shift_swap_responded' | 'shift_swap_cancelled' | 'time_off_requested' | 
         'time_off_responded' | 'time_off_cancelled' | 'chat_message' | 'urgent_coverage' |
-        'metrics_update' | 'system_notification' | 'shift_change';
+        'metrics_update' | 'system_notification' | 'shift_change' | 'users_updated' |
+        'swap_chain_proposed' | 'swap_chain_updated' | 'open_shift_posted' | 'open_shift_closed' |
+        'swap_approval_requested' | 'notification' | 'schedule_published' |
+        'published_shifts';
+  // Variant of a shift_change: 'cleared' or 'batch'
+  event?: string;
   data: any;
   timestamp: string;
+  // Stamped on delivery; increases by one per logged event, across all audiences
+  seq?: number;
+}
+
+// Who may receive an event, kept with it in the log so a replay goes to
+// the same people
+export type Audience = 'everyone' | { userIds: number[]; role?: UserRole };
+
+interface LoggedEvent {
+  message: NotificationMessage & { seq: number };
+  audience: Audience;
+  loggedAt: number;
 }
 
+// Clients that reconnect within these bounds get missed events replayed;
+// anything older needs a full refetch
+const EVENT_LOG_SIZE = 1000;
+const EVENT_LOG_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Describe this instance and are superseded every few seconds, so they are
+// neither sequenced, replayed nor shared with other instances
+const TRANSIENT_TYPES: ReadonlyArray<NotificationMessage['type']> = ['metrics_update'];
+
 interface ChatClient extends WebSocket {
+  // Set from the session cookie at upgrade; unset for anonymous sockets
   userId?: number;
+  role?: UserRole;
   isAlive: boolean;
   lastActivity: number;
 }
 
 export interface WebSocketInterface {
+  // Every socket, signed in or not; only for events anyone may see
   broadcast: (message: NotificationMessage) => void;
+  // The user's own sockets, plus, with `role`, everyone holding that role.
+  // Each socket receives the message once.
+  sendToUser: (userIds: number | Array<number | null | undefined>, message: NotificationMessage, role?: UserRole) => void;
+  // Members of a chat room
+  sendToRoom: (roomId: number, message: NotificationMessage) => Promise<void>;
+  // Signed-in users holding the role, or one that includes it
+  sendToRole: (role: UserRole, message: NotificationMessage) => void;
+  // A shift_change event for everyone who may see the shift: only
+  // schedulers while it is a draft
+  sendShiftChange: (action: ShiftChangeAction, shift: NotificationShift) => void;
+  // Several shift changes made together, as one shift_change event per
+  // audience: drafts among them only go to schedulers
+  sendShiftBatch: (changes: Array<{ action: ShiftChangeAction; shift: NotificationShift }>) => void;
   cleanup: () => Promise<void>;
   clients: Set<ChatClient>;
 }
 
-export async function setupWebSocket(server: Server): Promise<WebSocketInterface> {
+/**
+ * Sockets are identified by the express-session cookie sent with the
+ * upgrade request, so `sessionParser` must be the same middleware the HTTP
+ * routes use. Connections without a signed-in session are accepted but only
+ * receive broadcasts.
+ *
+ * The `connected` greeting carries the latest `seq` and the server's
+ * `epoch`. A client reconnecting to `/ws?lastSeq=<seq>&epoch=<epoch>` is
+ * sent the events it missed, or `resync_required` when they are no longer
+ * in the log or the server has restarted since.
+ *
+ * Events go out through `pubsub`, so every instance sharing the transport
+ * delivers them to its own sockets. Each instance numbers and logs what it
+ * delivers itself, so a client that reconnects to a different instance is
+ * told to resync.
+ */
+export async function setupWebSocket(
+  server: Server,
+  sessionParser: RequestHandler,
+  pubsub: PubSubTransport = new InProcessPubSub()
+): Promise<WebSocketInterface> {
   const wss = new WebSocketServer({ 
     noServer: true,
     path: '/ws',
@@ -50,25 +151,52 @@ export async function setupWebSocket(server: Server): Promise<WebSocketInterface
   const clients = new Set<ChatClient>();
   let cleanupInterval: NodeJS.Timeout;
 
+  // Identifies this process's sequence; numbering restarts with the server
+  let epoch = randomUUID();
+  let seq = 0;
+  const eventLog: LoggedEvent[] = [];
+
   // Handle upgrade requests
   server.on('upgrade', (request, socket, head) => {
-    if (request.url !== '/ws') {
+    const url = new URL(request.url ?? '', 'http://localhost');
+    if (url.pathname !== '/ws') {
       return;
     }
 
-    // Handle WebSocket upgrades
-    wss.handleUpgrade(request, socket, head, (ws) => {
-      wss.emit('connection', ws);
+    const lastSeq = url.searchParams.has('lastSeq') ? Number(url.searchParams.get('lastSeq')) : null;
+    const resume = lastSeq !== null && Number.isInteger(lastSeq)
+      ? { lastSeq, epoch: url.searchParams.get('epoch') }
+      : null;
+
+    sessionParser(request as Request, {} as Response, async () => {
+      try {
+        const sessionUserId: number | undefined = (request as Request).session?.passport?.user;
+        // Deactivated accounts lose their sockets' identity like their sessions
+        const user = await userDirectory.getActive(sessionUserId);
+
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          wss.emit('connection', ws, user, resume);
+        });
+      } catch (error) {
+        console.error('WebSocket upgrade error:', error);
+        socket.destroy();
+      }
     });
   });
 
-  wss.on('connection', (wsClient: WebSocket) => {
+  wss.on('connection', (
+    wsClient: WebSocket,
+    user?: { id: number; role: UserRole },
+    resume?: { lastSeq: number; epoch: string | null } | null
+  ) => {
     const client = wsClient as ChatClient;
+    client.userId = user?.id;
+    client.role = user?.role;
     client.isAlive = true;
     client.lastActivity = Date.now();
     clients.add(client);
 
-    log(`WebSocket client connected, total clients: ${clients.size}`);
+    log(`WebSocket client connected${user ? ` for user ${user.id}` : ' anonymously'}, total clients: ${clients.size}`);
 
     client.on('pong', () => {
       client.isAlive = true;
@@ -82,8 +210,7 @@ export async function setupWebSocket(server: Server): Promise<WebSocketInterface
 
         switch (message.type) {
           case 'auth':
-            client.userId = message.userId;
-            log(`Client authenticated: ${message.userId}`);
+            // Identity comes from the session cookie, never from the client
             break;
           default:
             log(`Unknown message type: ${message.type}`);
@@ -113,8 +240,14 @@ export async function setupWebSocket(server: Server): Promise<WebSocketInterface
       client.send(JSON.stringify({
         type: 'connected',
         timestamp: new Date().toISOString(),
-        message: 'Connected to ICU Schedule notifications'
+        message: 'Connected to ICU Schedule notifications',
+        seq,
+        epoch
       }));
+
+      if (resume) {
+        replay(client, resume.lastSeq, resume.epoch);
+      }
     } catch (error) {
       console.error('Error sending connection confirmation:', error);
       clients.delete(client);
@@ -170,6 +303,7 @@ export async function setupWebSocket(server: Server): Promise<WebSocketInterface
 
     await Promise.all(closePromises);
     clients.clear();
+    await pubsub.close();
 
     return new Promise<void>(resolve => {
       wss.close(() => {
@@ -179,26 +313,144 @@ export async function setupWebSocket(server: Server): Promise<WebSocketInterface
     });
   };
 
-  log('WebSocket server initialized');
-  return { broadcast, cleanup, clients };
+  await pubsub.subscribe(({ message, audience }) => deliver(message, audience), resync);
+
+  log(`WebSocket server initialized with ${pubsub.name} pub/sub`);
+  return { broadcast, sendToUser, sendToRoom, sendToRole, sendShiftChange, sendShiftBatch, cleanup, clients };
 
-  // Broadcast function with error handling
   function broadcast(message: NotificationMessage) {
-    const messageStr = JSON.stringify(message);
     log(`Broadcasting message: ${message.type}`);
+    publish(message, 'everyone');
+  }
 
-    const deadClients = new Set<ChatClient>();
+  function sendToUser(
+    userIds: number | Array<number | null | undefined>,
+    message: NotificationMessage,
+    role?: UserRole
+  ) {
+    const audience = new Set((Array.isArray(userIds) ? userIds : [userIds]).filter((id): id is number => id != null));
+    log(`Sending ${message.type} to users ${Array.from(audience).join(', ')}${role ? ` and ${role}s` : ''}`);
+    publish(message, { userIds: Array.from(audience), role });
+  }
+
+  async function sendToRoom(roomId: number, message: NotificationMessage) {
+    const members = await db.select({ userId: roomMembers.userId })
+      .from(roomMembers)
+      .where(eq(roomMembers.roomId, roomId));
+
+    sendToUser(members.map(member => member.userId), message);
+  }
+
+  function sendToRole(role: UserRole, message: NotificationMessage) {
+    log(`Sending ${message.type} to ${role}s`);
+    publish(message, { userIds: [], role });
+  }
+
+  function sendShiftChange(action: ShiftChangeAction, shift: NotificationShift) {
+    const message = notify.shiftChange(action, shift);
+    if (shift.status === 'draft') {
+      sendToRole('scheduler', message);
+    } else {
+      broadcast(message);
+    }
+  }
+
+  function sendShiftBatch(changes: Array<{ action: ShiftChangeAction; shift: NotificationShift }>) {
+    const drafts = changes.filter(change => change.shift.status === 'draft');
+    const live = changes.filter(change => change.shift.status !== 'draft');
+    if (drafts.length) sendToRole('scheduler', notify.shiftBatch(drafts));
+    if (live.length) broadcast(notify.shiftBatch(live));
+  }
 
+  function canReceive(client: ChatClient, audience: Audience): boolean {
+    if (audience === 'everyone') return true;
+    if (client.userId === undefined) return false;
+    return audience.userIds.includes(client.userId) ||
+      (audience.role !== undefined && hasRole(client, audience.role));
+  }
+
+  // Drops events past the log's size or age limit
+  function pruneLog(now = Date.now()) {
+    while (eventLog.length > EVENT_LOG_SIZE ||
+           (eventLog.length && now - eventLog[0].loggedAt > EVENT_LOG_MAX_AGE_MS)) {
+      eventLog.shift();
+    }
+  }
+
+  function replay(client: ChatClient, lastSeq: number, clientEpoch: string | null) {
+    pruneLog();
+    const oldest = eventLog.length ? eventLog[0].message.seq : seq + 1;
+
+    if (clientEpoch !== epoch || lastSeq > seq || lastSeq < oldest - 1) {
+      client.send(JSON.stringify({
+        type: 'resync_required',
+        timestamp: new Date().toISOString(),
+        seq,
+        epoch
+      }));
+      return;
+    }
+
+    const missed = eventLog.filter(event => event.message.seq > lastSeq && canReceive(client, event.audience));
+    missed.forEach(event => client.send(JSON.stringify(event.message)));
+    log(`Replayed ${missed.length} event(s) after seq ${lastSeq}`);
+  }
+
+  function publish(message: NotificationMessage, audience: Audience) {
+    if (TRANSIENT_TYPES.includes(message.type)) {
+      deliver(message, audience);
+      return;
+    }
+
+    pubsub.publish({ message, audience }).catch(error => {
+      console.error(`Failed to publish ${message.type}:`, error);
+    });
+  }
+
+  // The transport may have dropped events, so nothing logged so far can be
+  // trusted for replay: start a new epoch and have every client refetch
+  function resync() {
+    epoch = randomUUID();
+    eventLog.length = 0;
+    log('Event delivery was interrupted; asking clients to resync');
+
+    const messageStr = JSON.stringify({
+      type: 'resync_required',
+      timestamp: new Date().toISOString(),
+      seq,
+      epoch
+    });
     clients.forEach(client => {
       if (client.readyState === WebSocket.OPEN) {
+        client.send(messageStr);
+      }
+    });
+  }
+
+  // Sequences and logs the message, then sends it to every open socket in
+  // the audience and drops dead ones
+  function deliver(message: NotificationMessage, audience: Audience) {
+    let outgoing = message;
+    if (!TRANSIENT_TYPES.includes(message.type)) {
+      const logged = { ...message, seq: ++seq };
+      eventLog.push({ message: logged, audience, loggedAt: Date.now() });
+      pruneLog();
+      outgoing = logged;
+    }
+
+    const messageStr = JSON.stringify(outgoing);
+    const deadClients = new Set<ChatClient>();
+
+    clients.forEach(client => {
+      if (client.readyState !== WebSocket.OPEN) {
+        deadClients.add(client);
+      } else if (canReceive(client, audience)) {
         try {
           client.send(messageStr);
         } catch (error) {
-          console.error('Broadcast error:', error);
+          console.error('WebSocket send error:', error);
           deadClients.add(client);
         }
-      } else {
-        deadClients.add(client);
       }
     });
 
@@ -219,10 +471,11 @@ export const notify = {
     shift: NotificationShift,
     requestor: NotificationUser,
     recipient: NotificationUser,
-    requestId: number
+    requestId: number,
+    requestedShift?: NotificationShift
   ): NotificationMessage => ({
     type: 'shift_swap_requested',
-    data: { shift, requestor, recipient, requestId },
+    data: { shift, requestedShift: requestedShift ?? null, requestor, recipient, requestId },
     timestamp: new Date().toISOString(),
   }),
 
@@ -230,18 +483,130 @@ export const notify = {
     shift: NotificationShift,
     requestor: NotificationUser,
     recipient: NotificationUser,
-    status: 'accepted' | 'rejected'
+    status: Exclude<SwapRequestStatus, 'pending'>,
+    requestedShift?: NotificationShift
   ): NotificationMessage => ({
     type: 'shift_swap_responded',
-    data: { shift, requestor, recipient, status },
+    data: { shift, requestedShift: requestedShift ?? null, requestor, recipient, status },
+    timestamp: new Date().toISOString(),
+  }),
+  swapApprovalRequested: (
+    requestId: number,
+    shift: NotificationShift,
+    requestor: NotificationUser,
+    recipient: NotificationUser,
+    reasons: string[],
+    requestedShift?: NotificationShift
+  ): NotificationMessage => ({
+    type: 'swap_approval_requested',
+    data: { requestId, shift, requestedShift: requestedShift ?? null, requestor, recipient, reasons },
+    timestamp: new Date().toISOString(),
+  }),
+  swapChainProposed: (
+    chainId: number,
+    participants: NotificationChainParticipant[]
+  ): NotificationMessage => ({
+    type: 'swap_chain_proposed',
+    data: { chainId, participants },
+    timestamp: new Date().toISOString(),
+  }),
+
+  swapChainUpdated: (
+    chainId: number,
+    status: SwapChainStatus,
+    participants: NotificationChainParticipant[]
+  ): NotificationMessage => ({
+    type: 'swap_chain_updated',
+    data: { chainId, status, participants },
+    timestamp: new Date().toISOString(),
+  }),
+
+  // Giveaway board: a shift was posted, or left the board by claim,
+  // withdrawal or expiry
+  openShiftPosted: (
+    requestId: number,
+    shift: NotificationShift,
+    owner: NotificationUser
+  ): NotificationMessage => ({
+    type: 'open_shift_posted',
+    data: { requestId, shift, owner },
     timestamp: new Date().toISOString(),
   }),
+
+  openShiftClosed: (
+    requestId: number,
+    status: Exclude<SwapRequestStatus, 'pending'>,
+    claimant: NotificationUser | null
+  ): NotificationMessage => ({
+    type: 'open_shift_closed',
+    data: { requestId, status, claimant },
+    timestamp: new Date().toISOString(),
+  }),
+
   shiftChange: (
-    action: 'created' | 'updated' | 'deleted',
+    action: ShiftChangeAction,
     shift: NotificationShift
   ): NotificationMessage => ({
     type: 'shift_change',
     data: { action, shift },
     timestamp: new Date().toISOString(),
   }),
+
+  // Changes from one bulk write; clients apply them like single shift_change
+  // events
+  shiftBatch: (
+    changes: Array<{ action: ShiftChangeAction; shift: NotificationShift }>
+  ): NotificationMessage => ({
+    type: 'shift_change',
+    event: 'batch',
+    data: { changes },
+    timestamp: new Date().toISOString(),
+  }),
+
+  // A draft period went live. Stands in for a shift_change per shift, so
+  // clients refetch instead.
+  schedulePublished: (period: NotificationPeriod, shiftIds: number[]): NotificationMessage => ({
+    type: 'schedule_published',
+    data: { period, shiftIds },
+    timestamp: new Date().toISOString(),
+  }),
+
+  // One provider's shifts in a period that was just published
+  publishedShifts: (period: NotificationPeriod, shifts: NotificationShift[]): NotificationMessage => ({
+    type: 'published_shifts',
+    data: { period, shifts },
+    timestamp: new Date().toISOString(),
+  }),
+
+  timeOffRequested: (request: NotificationTimeOffRequest): NotificationMessage => ({
+    type: 'time_off_requested',
+    data: request,
+    timestamp: new Date().toISOString(),
+  }),
+
+  timeOffResponded: (request: NotificationTimeOffRequest): NotificationMessage => ({
+    type: 'time_off_responded',
+    data: request,
+    timestamp: new Date().toISOString(),
+  }),
+
+  timeOffCancelled: (request: NotificationTimeOffRequest): NotificationMessage => ({
+    type: 'time_off_cancelled',
+    data: request,
+    timestamp: new Date().toISOString(),
+  }),
+
+  // A stored notification delivered on the websocket channel
+  userNotification: (notification: { id: number; userId: number }): NotificationMessage => ({
+    type: 'notification',
+    data: notification,
+    timestamp: new Date().toISOString(),
+  }),
+
+  // Tells clients their cached user lists are stale
+  usersChanged: (userId?: number): NotificationMessage => ({
+    type: 'users_updated',
+    data: { userId: userId ?? null },
+    timestamp: new Date().toISOString(),
+  }),
 };
\ No newline at end of file